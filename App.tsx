@@ -1,37 +1,202 @@
-import React, { useState } from 'react';
-import { LayoutDashboard, Plus, Settings, PhoneIncoming } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { LayoutDashboard, Plus, Settings, PhoneIncoming, Loader2, ListTodo, MessageCircleQuestion, Tags } from 'lucide-react';
 import Dashboard from './components/Dashboard';
 import CallUploader from './components/CallUploader';
 import CallDetail from './components/CallDetail';
+import TaskBoard from './components/TaskBoard';
+import CallChat from './components/CallChat';
+import TopicsView from './components/TopicsView';
+import SettingsView from './components/SettingsView';
+import ProviderStatus from './components/ProviderStatus';
+import { RecordingBadge } from './components/RecorderPanel';
 import { CallRecord, ViewState } from './types';
+import { callRepository, StorageUsage } from './services/callRepository';
+import { createAnalysisQueue } from './services/analysisQueue';
+import { createCallRecorder } from './services/callRecorder';
+import { countActionItems } from './services/actionItems';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('dashboard');
   const [selectedCall, setSelectedCall] = useState<CallRecord | null>(null);
   const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [isLibraryLoading, setIsLibraryLoading] = useState(true);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // Recordings from this session, so playback works before (or without) the library write finishing
+  const sessionAudio = useRef(new Map<string, Blob>());
+  // Calls deleted from the library; late updates from their queue jobs are ignored
+  const deletedCalls = useRef(new Set<string>());
 
-  const handleAnalysisComplete = (newCall: CallRecord) => {
-    setCalls(prev => [newCall, ...prev]);
-    setSelectedCall(newCall);
-    setView('details');
+  const refreshStorageUsage = useCallback(() => {
+    callRepository.getStorageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.error('Storage estimate failed', e));
+  }, []);
+
+  // Restore the saved call library on startup
+  useEffect(() => {
+    callRepository.listCalls()
+      .then(records => {
+        // Jobs do not survive a reload, so anything still marked processing was interrupted
+        const restored = records.map(r => r.status === 'processing'
+          ? { ...r, status: 'failed' as const, error: 'Interrupted before analysis finished.' }
+          : r);
+        restored.filter((r, i) => r !== records[i]).forEach(r => callRepository.saveCall(r).catch(console.error));
+        // Keep anything the queue added while the library was loading
+        setCalls(prev => [...prev, ...restored.filter(r => !prev.some(p => p.id === r.id))]);
+        if (!callRepository.isPersistent()) {
+          setLibraryError('Browser storage is unavailable (for example in private browsing). Calls are kept only until this page is reloaded.');
+        }
+      })
+      .catch(e => {
+        console.error('Failed to load call library', e);
+        setLibraryError('Saved calls could not be loaded. New analyses may not be persisted.');
+      })
+      .finally(() => setIsLibraryLoading(false));
+    refreshStorageUsage();
+  }, [refreshStorageUsage]);
+
+  // Every status change of a queued job is mirrored into the library
+  const [queue] = useState(() => createAnalysisQueue((record, audio) => {
+    if (deletedCalls.current.has(record.id)) return;
+    if (audio) sessionAudio.current.set(record.id, audio);
+    setCalls(prev => prev.some(c => c.id === record.id)
+      ? prev.map(c => c.id === record.id ? record : c)
+      : [record, ...prev]);
+    setSelectedCall(current => current?.id === record.id ? record : current);
+
+    callRepository.saveCall(record, audio)
+      .then(refreshStorageUsage)
+      .catch(e => {
+        console.error('Failed to save call', e);
+        setLibraryError(`"${record.fileName}" could not be saved to the library. It will be lost on reload.`);
+      });
+  }));
+  const queueSnapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  // Owned here rather than by the uploader so a recording survives switching views
+  const [recorder] = useState(createCallRecorder);
+  const activeJobs = queueSnapshot.jobs.filter(j => j.state === 'queued' || j.state === 'processing').length;
+  const openTasks = countActionItems(calls).open;
+
+  const handleDeleteCall = async (call: CallRecord) => {
+    deletedCalls.current.add(call.id);
+    queue.cancel(call.id);
+    queue.remove(call.id);
+    try {
+      await callRepository.deleteCall(call.id);
+      sessionAudio.current.delete(call.id);
+      setCalls(prev => prev.filter(c => c.id !== call.id));
+      if (selectedCall?.id === call.id) setSelectedCall(null);
+      refreshStorageUsage();
+    } catch (e) {
+      deletedCalls.current.delete(call.id);
+      // Its job was already cancelled, so it would otherwise stay "processing"
+      if (call.status === 'processing') handleUpdateCall({ ...call, status: 'failed', error: 'Cancelled.' });
+      console.error('Failed to delete call', e);
+      setLibraryError(`"${call.fileName}" could not be deleted.`);
+    }
   };
 
+  const handleRenameCall = async (call: CallRecord, fileName: string) => {
+    queue.rename(call.id, fileName);
+    try {
+      const renamed = await callRepository.renameCall(call.id, fileName);
+      setCalls(prev => prev.map(c => c.id === call.id ? renamed : c));
+    } catch (e) {
+      console.error('Failed to rename call', e);
+      setLibraryError(`"${call.fileName}" could not be renamed.`);
+    }
+  };
+
+  const handleUpdateCall = (updated: CallRecord) => {
+    setCalls(prev => prev.map(c => c.id === updated.id ? updated : c));
+    setSelectedCall(current => current?.id === updated.id ? updated : current);
+    callRepository.saveCall(updated).catch(e => {
+      console.error('Failed to save call', e);
+      setLibraryError(`Changes to "${updated.fileName}" could not be saved.`);
+    });
+  };
+
+  const loadAudio = useCallback(async (call: CallRecord) => {
+    return sessionAudio.current.get(call.id) ?? callRepository.getAudio(call.id);
+  }, []);
+
+  const renderDashboard = () => (
+    <Dashboard
+      calls={calls}
+      isLoading={isLibraryLoading}
+      error={libraryError}
+      storageUsage={storageUsage}
+      onDismissError={() => setLibraryError(null)}
+      onViewDetails={(call) => {
+        setSelectedCall(call);
+        setView('details');
+      }}
+      onDelete={handleDeleteCall}
+      onRename={handleRenameCall}
+    />
+  );
+
   const renderContent = () => {
     switch (view) {
       case 'dashboard':
-        return <Dashboard calls={calls} onViewDetails={(call) => {
-            setSelectedCall(call);
-            setView('details');
-        }} />;
+        return renderDashboard();
       case 'upload':
         return <CallUploader 
-            onAnalysisComplete={handleAnalysisComplete}
+            queue={queue}
+            recorder={recorder}
+            onViewDetails={(call) => {
+                setSelectedCall(call);
+                setView('details');
+            }}
             onCancel={() => setView('dashboard')} 
         />;
+      case 'tasks':
+        return (
+          <TaskBoard
+            calls={calls}
+            onUpdateCall={handleUpdateCall}
+            onViewDetails={(call) => {
+              setSelectedCall(call);
+              setView('details');
+            }}
+          />
+        );
+      case 'topics':
+        return (
+          <TopicsView
+            calls={calls}
+            onViewDetails={(call) => {
+              setSelectedCall(call);
+              setView('details');
+            }}
+          />
+        );
+      case 'ask':
+        return (
+          <div className="p-6 space-y-6 animate-fade-in max-w-4xl">
+            <div>
+              <h1 className="text-3xl font-bold text-slate-800">Ask</h1>
+              <p className="text-slate-500">Questions answered from your saved calls, with quotes.</p>
+            </div>
+            <CallChat
+              scope="library"
+              calls={calls}
+              onViewCall={(call) => {
+                setSelectedCall(call);
+                setView('details');
+              }}
+            />
+          </div>
+        );
+      case 'settings':
+        return <SettingsView />;
       case 'details':
         return selectedCall ? (
           <CallDetail 
             call={selectedCall} 
+            onUpdate={handleUpdateCall}
+            loadAudio={loadAudio}
             onBack={() => {
                 setSelectedCall(null);
                 setView('dashboard');
@@ -39,13 +204,10 @@ const App: React.FC = () => {
           />
         ) : (
             // Fallback to Dashboard if no call is selected
-            <Dashboard calls={calls} onViewDetails={(call) => {
-                setSelectedCall(call);
-                setView('details');
-            }} />
+            renderDashboard()
         );
       default:
-        return <Dashboard calls={calls} onViewDetails={() => {}} />;
+        return renderDashboard();
     }
   };
 
@@ -79,23 +241,61 @@ const App: React.FC = () => {
               `}
             >
               <Plus size={20} />
-              <span className="hidden md:block">New Analysis</span>
+              <span className="hidden md:block flex-1 text-left">New Analysis</span>
+              <RecordingBadge recorder={recorder} />
+              {activeJobs > 0 && (
+                <span className="hidden md:flex items-center text-xs font-medium text-blue-600 bg-blue-100 px-2 py-0.5 rounded-full" title={`${activeJobs} analyses in progress`}>
+                  <Loader2 size={12} className="animate-spin mr-1" />
+                  {activeJobs}
+                </span>
+              )}
+            </button>
+            <button 
+              onClick={() => setView('tasks')}
+              className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all
+                ${view === 'tasks' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-700'}
+              `}
+            >
+              <ListTodo size={20} />
+              <span className="hidden md:block flex-1 text-left">Tasks</span>
+              {openTasks > 0 && (
+                <span className="hidden md:block text-xs font-medium text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full" title={`${openTasks} outstanding action items`}>
+                  {openTasks}
+                </span>
+              )}
+            </button>
+            <button 
+              onClick={() => setView('topics')}
+              className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all
+                ${view === 'topics' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-700'}
+              `}
+            >
+              <Tags size={20} />
+              <span className="hidden md:block">Topics</span>
+            </button>
+            <button 
+              onClick={() => setView('ask')}
+              className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-all
+                ${view === 'ask' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-500 hover:bg-slate-50 hover:text-slate-700'}
+              `}
+            >
+              <MessageCircleQuestion size={20} />
+              <span className="hidden md:block">Ask</span>
             </button>
           </nav>
         </div>
 
         <div className="p-4 border-t border-slate-100">
-           <div className="hidden md:block p-4 bg-slate-50 rounded-xl mb-2 border border-slate-100">
-              <p className="text-xs font-semibold text-slate-400 uppercase mb-1">Status</p>
-              <div className="flex items-center space-x-2">
-                 <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                 <span className="text-xs text-slate-600">Gemini 2.5 Flash Active</span>
-              </div>
-           </div>
-           <div className="px-4 py-3 text-slate-400 hover:text-slate-600 cursor-pointer flex items-center space-x-3 transition-colors">
+           <ProviderStatus />
+           <button
+              onClick={() => setView('settings')}
+              className={`w-full px-4 py-3 rounded-xl flex items-center space-x-3 transition-colors
+                ${view === 'settings' ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-400 hover:text-slate-600'}
+              `}
+           >
               <Settings size={20} />
               <span className="hidden md:block">Settings</span>
-           </div>
+           </button>
         </div>
       </aside>
 
@@ -0,0 +1,132 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Loader2, Clock, RotateCcw, X } from 'lucide-react';
+import { CallRecord } from '../types';
+import { MAX_CONCURRENCY, QueueJob, QueueSnapshot } from '../services/analysisQueue';
+import ProgressStepper from './ProgressStepper';
+
+interface AnalysisQueuePanelProps {
+  snapshot: QueueSnapshot;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onViewDetails: (call: CallRecord) => void;
+}
+
+const JobStatus: React.FC<{ job: QueueJob }> = ({ job }) => {
+  switch (job.state) {
+    case 'queued':
+      return <span className="flex items-center text-slate-400"><Clock size={14} className="mr-1" /> Queued</span>;
+    case 'processing':
+      return <span className="flex items-center text-blue-600"><Loader2 size={14} className="mr-1 animate-spin" /> Processing</span>;
+    case 'completed':
+      return <span className="flex items-center text-green-600"><CheckCircle size={14} className="mr-1" /> Completed</span>;
+    case 'failed':
+      return <span className="flex items-center text-red-600"><AlertCircle size={14} className="mr-1" /> Failed</span>;
+  }
+};
+
+const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({
+  snapshot,
+  onRetry,
+  onCancel,
+  onRemove,
+  onClearFinished,
+  onConcurrencyChange,
+  onViewDetails,
+}) => {
+  const { jobs, concurrency } = snapshot;
+  const counts = jobs.reduce((acc, job) => {
+    acc[job.state] = (acc[job.state] || 0) + 1;
+    return acc;
+  }, {} as Record<QueueJob['state'], number>);
+  const hasFinished = (counts.completed || 0) + (counts.failed || 0) > 0;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl p-6 border border-slate-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Analysis Queue</h3>
+          <p className="text-xs text-slate-500">
+            {counts.processing || 0} running · {counts.queued || 0} waiting · {counts.completed || 0} done · {counts.failed || 0} failed
+          </p>
+        </div>
+        <div className="flex items-center space-x-3 text-sm">
+          <label className="flex items-center text-slate-600">
+            <span className="mr-2">Parallel jobs</span>
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+              className="border border-slate-200 rounded-lg px-2 py-1 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          {hasFinished && (
+            <button onClick={onClearFinished} className="text-slate-500 hover:text-slate-800 text-xs font-medium">
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-100 max-h-[420px] overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="py-3 flex items-center space-x-3 text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-slate-800 truncate">{job.file.name}</p>
+              {job.state === 'processing' && <ProgressStepper progress={job.progress} />}
+              {job.state === 'failed' && job.error && (
+                <p className="text-xs text-red-500 mt-0.5">{job.error}</p>
+              )}
+            </div>
+            <div className="text-xs font-medium w-28 flex-shrink-0">
+              <JobStatus job={job} />
+            </div>
+            <div className="flex items-center space-x-1 w-28 justify-end flex-shrink-0">
+              {job.state === 'completed' && (
+                <button
+                  onClick={() => onViewDetails(job.record)}
+                  className="text-blue-600 hover:text-blue-800 font-medium text-xs px-3 py-1 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors"
+                >
+                  View Report
+                </button>
+              )}
+              {job.state === 'failed' && (
+                <button
+                  onClick={() => onRetry(job.id)}
+                  className="p-1 text-slate-400 hover:text-blue-600 transition-colors"
+                  title="Retry"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+              {job.state === 'processing' && (
+                <button
+                  onClick={() => onCancel(job.id)}
+                  className="text-red-600 hover:text-red-800 font-medium text-xs px-3 py-1 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              {job.state !== 'processing' && (
+                <button
+                  onClick={() => onRemove(job.id)}
+                  className="p-1 text-slate-400 hover:text-slate-700 transition-colors"
+                  title={job.state === 'queued' ? 'Remove from queue' : 'Dismiss'}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AnalysisQueuePanel;
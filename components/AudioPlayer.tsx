@@ -0,0 +1,148 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { Play, Pause, Loader2 } from 'lucide-react';
+import { computeWaveformPeaks } from '../services/waveform';
+import { formatTimestamp } from '../services/transcript';
+
+export interface AudioPlayerHandle {
+  seek: (seconds: number, autoplay?: boolean) => void;
+}
+
+interface AudioPlayerProps {
+  audio: Blob;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+const WAVEFORM_BARS = 160;
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ audio, onTimeUpdate }, ref) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(audio);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [audio]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+    computeWaveformPeaks(audio, WAVEFORM_BARS)
+      .then(p => { if (!cancelled) setPeaks(p); })
+      .catch(e => {
+        // The player still works without a waveform
+        console.error('Waveform decoding failed', e);
+        if (!cancelled) setPeaks([]);
+      });
+    return () => { cancelled = true; };
+  }, [audio]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate, url]);
+
+  useImperativeHandle(ref, () => ({
+    seek: (seconds: number, autoplay = true) => {
+      const el = audioRef.current;
+      if (!el) return;
+      el.currentTime = seconds;
+      setCurrentTime(seconds);
+      if (autoplay) el.play().catch(e => console.error('Playback failed', e));
+    },
+  }), []);
+
+  const togglePlay = () => {
+    const el = audioRef.current;
+    if (!el) return;
+    if (el.paused) el.play().catch(e => console.error('Playback failed', e));
+    else el.pause();
+  };
+
+  const handleWaveformClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const el = audioRef.current;
+    if (!el || !duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    el.currentTime = ratio * duration;
+    setCurrentTime(el.currentTime);
+  };
+
+  const progress = duration ? currentTime / duration : 0;
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          // Some recordings (e.g. MediaRecorder WebM) report an infinite duration until fully read
+          onDurationChange={(e) => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+          onTimeUpdate={(e) => {
+            setCurrentTime(e.currentTarget.currentTime);
+            onTimeUpdate?.(e.currentTarget.currentTime);
+          }}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+        />
+      )}
+
+      <div className="flex items-center space-x-4">
+        <button
+          onClick={togglePlay}
+          className="w-10 h-10 flex-shrink-0 rounded-full bg-blue-600 hover:bg-blue-700 text-white flex items-center justify-center shadow-sm transition-colors"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause size={18} /> : <Play size={18} className="ml-0.5" />}
+        </button>
+
+        {/* Waveform */}
+        <div className="flex-1 h-12 flex items-center cursor-pointer" onClick={handleWaveformClick}>
+          {peaks === null ? (
+            <div className="w-full flex items-center justify-center text-slate-400 text-xs">
+              <Loader2 size={14} className="animate-spin mr-2" /> Loading waveform...
+            </div>
+          ) : peaks.length === 0 ? (
+            <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600" style={{ width: `${progress * 100}%` }}></div>
+            </div>
+          ) : (
+            <div className="w-full h-full flex items-center gap-px">
+              {peaks.map((peak, idx) => (
+                <div
+                  key={idx}
+                  className={`flex-1 rounded-sm ${idx / peaks.length < progress ? 'bg-blue-600' : 'bg-slate-300'}`}
+                  style={{ height: `${Math.max(6, peak * 100)}%` }}
+                ></div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <span className="text-xs font-mono text-slate-500 w-24 text-right flex-shrink-0">
+          {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+        </span>
+
+        <select
+          value={playbackRate}
+          onChange={(e) => setPlaybackRate(parseFloat(e.target.value))}
+          className="text-xs border border-slate-200 rounded-md px-1.5 py-1 text-slate-600 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}x</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+});
+
+export default AudioPlayer;
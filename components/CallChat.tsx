@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircleQuestion, Send, Square, Quote, FileAudio, Loader2 } from 'lucide-react';
+import { AnswerCitation, CallRecord, ChatMessage } from '../types';
+import { buildLibrarySources, buildQuestionSource, LIBRARY_SOURCE_LIMIT } from '../services/callQA';
+import { getDefaultProvider, getProviderFor } from '../services/providerRegistry';
+import { isAbortError } from '../services/abort';
+import { formatTimestamp } from '../services/transcript';
+
+interface CallChatProps {
+  scope: 'call' | 'library';
+  calls: CallRecord[]; // The call being discussed, or the whole library
+  onSeek?: (seconds: number) => void; // Call scope: play a cited line
+  onViewCall?: (call: CallRecord) => void; // Library scope: open a cited call
+}
+
+const SUGGESTIONS: Record<CallChatProps['scope'], string[]> = {
+  call: ['Did the customer mention a competitor?', 'What did the agent promise to do?', 'Why was the customer unhappy?'],
+  library: ['Which calls mention a refund?', 'Who mentioned a competitor?', 'What complaints came up about pricing?'],
+};
+
+const CallChat: React.FC<CallChatProps> = ({ scope, calls, onSeek, onViewCall }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // A pending answer is useless once the panel is gone
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages, isAsking]);
+
+  const reply = (message: ChatMessage) => setMessages(prev => [...prev, message]);
+
+  const ask = async (question: string) => {
+    question = question.trim();
+    if (!question || isAsking) return;
+    const history = messages;
+    setMessages([...history, { role: 'user', text: question }]);
+    setDraft('');
+
+    const sources = scope === 'call'
+      ? calls.filter(c => c.analysis).map(c => buildQuestionSource(c, 'C1', question))
+      : buildLibrarySources(calls, question);
+    if (sources.length === 0) {
+      reply({ role: 'assistant', text: 'None of the saved calls mention the words in that question. Try naming the product, company or issue directly.' });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsAsking(true);
+    try {
+      const provider = scope === 'call' ? getProviderFor(calls[0]) : getDefaultProvider();
+      const answer = await provider.ask(question, sources, { signal: controller.signal, history });
+      reply({ role: 'assistant', text: answer.answer, citations: answer.citations });
+    } catch (e: any) {
+      if (isAbortError(e)) return;
+      console.error('Question failed', e);
+      reply({ role: 'assistant', text: e?.message || 'The question could not be answered.', failed: true });
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setIsAsking(false);
+    }
+  };
+
+  const renderCitation = (citation: AnswerCitation, idx: number) => {
+    const call = calls.find(c => c.id === citation.callId);
+    return (
+      <li key={idx} className="flex items-start text-xs text-slate-500">
+        <Quote size={12} className="mr-1.5 mt-0.5 flex-shrink-0 text-slate-300" />
+        <span className="italic">"{citation.quote}"</span>
+        {scope === 'library' && call && (
+          onViewCall ? (
+            <button
+              onClick={() => onViewCall(call)}
+              className="ml-2 flex items-center text-blue-600 hover:text-blue-800 flex-shrink-0 max-w-[40%]"
+              title="Open call"
+            >
+              <FileAudio size={12} className="mr-1 flex-shrink-0" />
+              <span className="truncate">{call.fileName}</span>
+            </button>
+          ) : (
+            <span className="ml-2 truncate max-w-[40%]">{call.fileName}</span>
+          )
+        )}
+        {citation.start !== undefined && (
+          onSeek ? (
+            <button
+              onClick={() => onSeek(citation.start!)}
+              className="ml-2 text-blue-600 hover:text-blue-800 font-mono flex-shrink-0"
+              title="Play from here"
+            >
+              {formatTimestamp(citation.start)}
+            </button>
+          ) : (
+            <span className="ml-2 font-mono flex-shrink-0">{formatTimestamp(citation.start)}</span>
+          )
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <h3 className="text-lg font-bold text-slate-800 mb-1 flex items-center">
+        <MessageCircleQuestion className="mr-2 text-teal-600" /> {scope === 'call' ? 'Ask About This Call' : 'Ask the Library'}
+      </h3>
+      <p className="text-xs text-slate-400 mb-4">
+        {scope === 'call'
+          ? 'Answers come from this call only, with the lines they rely on.'
+          : `Answers come from the ${LIBRARY_SOURCE_LIMIT} saved calls that best match the question.`}
+      </p>
+
+      {messages.length === 0 ? (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {SUGGESTIONS[scope].map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => ask(suggestion)}
+              className="text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-full px-3 py-1 hover:bg-slate-100"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-3 mb-4 max-h-96 overflow-y-auto pr-1">
+          {messages.map((message, idx) => (
+            <div key={idx} className={message.role === 'user' ? 'flex justify-end' : ''}>
+              <div className={`rounded-xl px-3 py-2 text-sm max-w-[90%]
+                ${message.role === 'user' ? 'bg-blue-600 text-white' :
+                  message.failed ? 'bg-red-50 text-red-700 border border-red-100' : 'bg-slate-50 text-slate-800'}
+              `}>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {message.citations && message.citations.length > 0 && (
+                  <ul className="mt-2 space-y-1">{message.citations.map(renderCitation)}</ul>
+                )}
+              </div>
+            </div>
+          ))}
+          {isAsking && (
+            <div className="flex items-center text-sm text-slate-400">
+              <Loader2 size={14} className="animate-spin mr-2" /> Reading the transcript...
+            </div>
+          )}
+          <div ref={endRef}></div>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(draft);
+        }}
+        className="flex items-center space-x-2"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={scope === 'call' ? 'Did the customer mention a competitor?' : 'Which calls mention a refund?'}
+          className="flex-1 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {isAsking ? (
+          <button
+            type="button"
+            onClick={() => controllerRef.current?.abort()}
+            className="p-2 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50"
+            title="Stop"
+          >
+            <Square size={16} />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+            title="Ask"
+          >
+            <Send size={16} />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default CallChat;
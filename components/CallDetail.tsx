@@ -1,16 +1,82 @@
-import React from 'react';
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
 import { CallRecord, CallSentiment } from '../types';
-import { ArrowLeft, CheckSquare, MessageSquare, Lightbulb, User, Clock, Download, FileText } from 'lucide-react';
+import { ArrowLeft, CheckSquare, MessageSquare, Lightbulb, User, Clock, Download, FileText, CalendarDays, ShieldCheck, Eye, EyeOff, Languages } from 'lucide-react';
+import TranscriptView from './TranscriptView';
+import AudioPlayer, { AudioPlayerHandle } from './AudioPlayer';
+import CustomFieldsCard from './CustomFieldsCard';
+import ScorecardCard from './ScorecardCard';
+import SentimentTimelineCard from './SentimentTimelineCard';
+import CallChat from './CallChat';
+import { TOPIC_KIND_STYLES } from './TopicsView';
+import { formatDueDate, getDueBucket, setActionItemStatus } from '../services/actionItems';
+import { formatSentimentScore } from '../services/analytics';
+import { overallSentimentScore } from '../services/sentimentTimeline';
+import { canViewOriginals, revealOriginals, summarizeRedaction } from '../services/redaction';
+import { languageName } from '../services/languages';
+import { settingsStore } from '../services/settings';
+import { formatTopicLabel, TOPIC_KIND_LABELS } from '../services/topics';
+import { hasTranslations } from '../services/transcript';
+import { callToJSON, callToMarkdown, downloadFile, exportFileName, printCallReport } from '../services/exporters';
 
 interface CallDetailProps {
   call: CallRecord;
   onBack: () => void;
+  onUpdate?: (call: CallRecord) => void;
+  loadAudio?: (call: CallRecord) => Promise<Blob | undefined>;
 }
 
-const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
+const CallDetail: React.FC<CallDetailProps> = ({ call, onBack, onUpdate, loadAudio }) => {
+  const playerRef = useRef<AudioPlayerHandle>(null);
+  const [audio, setAudio] = useState<Blob | null>(null);
+  const [playbackTime, setPlaybackTime] = useState(-1);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const settings = useSyncExternalStore(settingsStore.subscribe, settingsStore.getSnapshot);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAudio(null);
+    setPlaybackTime(-1);
+    setShowOriginal(false);
+    if (call.hasAudio && loadAudio) {
+      loadAudio(call)
+        .then(blob => { if (!cancelled && blob) setAudio(blob); })
+        .catch(e => console.error('Failed to load recording', e));
+    }
+    return () => { cancelled = true; };
+  }, [call.id, call.hasAudio, loadAudio]);
+
   if (!call.analysis) return null;
 
-  const { transcript, summary, sentiment, actionItems, keyInsights } = call.analysis;
+  const redaction = call.analysis.redaction;
+  const canReveal = !!redaction?.originalsRetained && canViewOriginals(settings);
+  const analysis = showOriginal && canReveal ? revealOriginals(call.analysis) : call.analysis;
+  const { transcript, utterances, summary, sentiment, actionItems, keyInsights, customFields, scorecard, languages, topics } = analysis;
+  const translatable = !!utterances && hasTranslations(utterances);
+  const shownUtterances = translatable && showTranslation
+    ? utterances!.map(u => (u.translation ? { ...u, text: u.translation } : u))
+    : utterances;
+
+  const sentimentScore = utterances ? overallSentimentScore(utterances) : null;
+
+  // Last utterance that has started by the current playback position
+  const activeIndex = utterances && playbackTime >= 0
+    ? utterances.reduce((active, u, idx) => (u.start <= playbackTime ? idx : active), -1)
+    : -1;
+
+  const exportOptions = [
+    { label: 'Markdown (.md)', run: () => downloadFile(callToMarkdown(call), exportFileName(call, 'md'), 'text/markdown') },
+    { label: 'PDF (print)', run: () => printCallReport(call) },
+    { label: 'JSON (.json)', run: () => downloadFile(callToJSON(call), exportFileName(call, 'json'), 'application/json') },
+  ];
+
+  const handleRenameSpeaker = (speaker: string, name: string) => {
+    const speakerNames = { ...call.speakerNames };
+    if (name) speakerNames[speaker] = name;
+    else delete speakerNames[speaker];
+    onUpdate?.({ ...call, speakerNames });
+  };
 
   return (
     <div className="p-6 max-w-6xl mx-auto animate-fade-in">
@@ -39,12 +105,69 @@ const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
                               sentiment === CallSentiment.NEGATIVE ? 'bg-red-50 text-red-700 border-red-200' :
                               'bg-slate-50 text-slate-700 border-slate-200'}
                         `}>
-                            {sentiment} Sentiment
+                            {sentiment} Sentiment{sentimentScore !== null && ` (${formatSentimentScore(sentimentScore)})`}
                         </span>
+                        {languages && languages.length > 0 && (
+                            <span className="flex items-center" title="Languages spoken">
+                                <Languages size={14} className="mr-1" /> {languages.map(languageName).join(', ')}
+                            </span>
+                        )}
                     </div>
                 </div>
+                <div className="relative flex-shrink-0 ml-4">
+                    <button
+                        onClick={() => setIsExportOpen(open => !open)}
+                        className="flex items-center text-sm font-medium text-slate-600 hover:text-slate-900 px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+                    >
+                        <Download size={16} className="mr-2" /> Export
+                    </button>
+                    {isExportOpen && (
+                        <>
+                            {/* Click-away layer */}
+                            <div className="fixed inset-0 z-10" onClick={() => setIsExportOpen(false)}></div>
+                            <ul className="absolute right-0 mt-2 w-44 bg-white border border-slate-100 rounded-xl shadow-lg py-1 z-20 text-sm">
+                                {exportOptions.map(option => (
+                                    <li key={option.label}>
+                                        <button
+                                            onClick={() => {
+                                                setIsExportOpen(false);
+                                                option.run();
+                                            }}
+                                            className="w-full text-left px-4 py-2 text-slate-700 hover:bg-slate-50"
+                                        >
+                                            {option.label}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
             </div>
             
+            {redaction && (
+                <div className={`flex items-center text-xs rounded-lg px-3 py-2 border
+                    ${showOriginal ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-slate-50 text-slate-600 border-slate-100'}
+                `}>
+                    <ShieldCheck size={14} className="mr-2 flex-shrink-0" />
+                    <span className="flex-1">
+                        {showOriginal
+                            ? 'Showing original values. Exports and search always use the redacted version.'
+                            : redaction.entities.length > 0
+                                ? `Redacted ${summarizeRedaction(redaction)}.`
+                                : 'Checked for personal information; nothing was found.'}
+                    </span>
+                    {canReveal && redaction.entities.length > 0 && (
+                        <button
+                            onClick={() => setShowOriginal(show => !show)}
+                            className="flex items-center ml-3 font-medium hover:underline flex-shrink-0"
+                        >
+                            {showOriginal ? <><EyeOff size={14} className="mr-1" /> Show redacted</> : <><Eye size={14} className="mr-1" /> Show original</>}
+                        </button>
+                    )}
+                </div>
+            )}
+
             <div className="mt-6">
                 <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2 flex items-center">
                     <FileText size={16} className="mr-2" /> Executive Summary
@@ -52,9 +175,53 @@ const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
                 <p className="text-slate-700 leading-relaxed bg-slate-50 p-4 rounded-xl border border-slate-100">
                     {summary}
                 </p>
+                {topics && topics.length > 0 && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                        {topics.map(topic => {
+                            const start = topic.evidence.find(e => e.start !== undefined)?.start;
+                            const canSeek = !!audio && start !== undefined;
+                            return (
+                                <button
+                                    key={topic.label}
+                                    onClick={canSeek ? () => playerRef.current?.seek(start!) : undefined}
+                                    disabled={!canSeek}
+                                    className={`px-2.5 py-1 rounded-full text-xs font-medium ${TOPIC_KIND_STYLES[topic.kind]} ${canSeek ? 'hover:opacity-80' : 'cursor-default'}`}
+                                    title={`${TOPIC_KIND_LABELS[topic.kind]}${topic.evidence[0] ? `: "${topic.evidence[0].quote}"` : ''}`}
+                                >
+                                    {formatTopicLabel(topic.label)}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
             </div>
           </div>
 
+          {/* Recording */}
+          {audio && (
+            <AudioPlayer ref={playerRef} audio={audio} onTimeUpdate={setPlaybackTime} />
+          )}
+
+          {/* Sentiment over time */}
+          {utterances && sentimentScore !== null && (
+            <SentimentTimelineCard
+              utterances={utterances}
+              speakerNames={call.speakerNames}
+              playbackTime={playbackTime}
+              onSeek={audio ? (seconds) => playerRef.current?.seek(seconds) : undefined}
+            />
+          )}
+
+          {/* Template Fields */}
+          {customFields && Object.keys(customFields).length > 0 && (
+            <CustomFieldsCard templateName={call.template?.name} fields={call.template?.fields} values={customFields} />
+          )}
+
+          {/* QA Scorecard */}
+          {scorecard && (
+            <ScorecardCard result={scorecard} onSeek={audio ? (seconds) => playerRef.current?.seek(seconds) : undefined} />
+          )}
+
           {/* Action Items */}
           <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
             <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center">
@@ -62,12 +229,36 @@ const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
             </h3>
             {actionItems.length > 0 ? (
                 <ul className="space-y-3">
-                    {actionItems.map((item, idx) => (
-                        <li key={idx} className="flex items-start group">
-                            <input type="checkbox" className="mt-1 mr-3 w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500" />
-                            <span className="text-slate-700 group-hover:text-slate-900">{item}</span>
-                        </li>
-                    ))}
+                    {actionItems.map((item) => {
+                        const isDone = item.status === 'done';
+                        const isOverdue = !isDone && getDueBucket(item) === 'overdue';
+                        return (
+                            <li key={item.id} className="flex items-start group">
+                                <input
+                                    type="checkbox"
+                                    checked={isDone}
+                                    disabled={!onUpdate}
+                                    onChange={(e) => onUpdate?.(setActionItemStatus(call, item.id, e.target.checked))}
+                                    className="mt-1 mr-3 w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <div className="flex-1">
+                                    <span className={isDone ? 'text-slate-400 line-through' : 'text-slate-700 group-hover:text-slate-900'}>{item.text}</span>
+                                    {(item.owner || item.dueDate) && (
+                                        <div className="flex items-center space-x-3 mt-1 text-xs text-slate-500">
+                                            {item.owner && (
+                                                <span className="flex items-center"><User size={12} className="mr-1" /> {item.owner}</span>
+                                            )}
+                                            {item.dueDate && (
+                                                <span className={`flex items-center ${isOverdue ? 'text-red-600 font-medium' : ''}`}>
+                                                    <CalendarDays size={12} className="mr-1" /> {isOverdue ? 'Overdue · ' : 'Due '}{formatDueDate(item.dueDate)}
+                                                </span>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
                 </ul>
             ) : (
                 <p className="text-slate-400 italic">No specific action items detected.</p>
@@ -76,12 +267,32 @@ const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
 
           {/* Transcript */}
           <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
-            <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center">
-                <MessageSquare className="mr-2 text-purple-600" /> Full Transcript
-            </h3>
-            <div className="bg-slate-50 p-6 rounded-xl border border-slate-100 max-h-[500px] overflow-y-auto whitespace-pre-wrap text-slate-700 leading-relaxed text-sm font-mono">
-                {transcript}
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-slate-800 flex items-center">
+                    <MessageSquare className="mr-2 text-purple-600" /> Full Transcript
+                </h3>
+                {translatable && (
+                    <div className="flex rounded-lg border border-slate-200 overflow-hidden text-xs font-medium">
+                        {[false, true].map(translated => (
+                            <button
+                                key={String(translated)}
+                                onClick={() => setShowTranslation(translated)}
+                                className={`px-3 py-1.5 ${showTranslation === translated ? 'bg-slate-800 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                            >
+                                {translated ? 'English' : 'Original'}
+                            </button>
+                        ))}
+                    </div>
+                )}
             </div>
+            <TranscriptView
+                utterances={shownUtterances}
+                transcript={transcript}
+                speakerNames={call.speakerNames}
+                onRenameSpeaker={onUpdate ? handleRenameSpeaker : undefined}
+                activeIndex={activeIndex}
+                onSeek={audio ? (seconds) => playerRef.current?.seek(seconds) : undefined}
+            />
           </div>
         </div>
 
@@ -104,6 +315,14 @@ const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
                 </ul>
             </div>
 
+            {/* Questions are answered from the saved (redacted) call, never the revealed originals */}
+            <CallChat
+                key={call.id}
+                scope="call"
+                calls={[call]}
+                onSeek={audio ? (seconds) => playerRef.current?.seek(seconds) : undefined}
+            />
+
             {/* AI Info */}
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
                 <h4 className="text-sm font-semibold text-slate-800 mb-3">Analysis Model</h4>
@@ -112,8 +331,9 @@ const CallDetail: React.FC<CallDetailProps> = ({ call, onBack }) => {
                         <span className="text-xl">✨</span>
                     </div>
                     <div>
-                        <p className="text-sm font-medium text-slate-900">Gemini 2.5 Flash</p>
-                        <p className="text-xs text-slate-500">Multimodal Audio Processing</p>
+                        {/* Records from before providers existed were all analyzed by Gemini */}
+                        <p className="text-sm font-medium text-slate-900">{call.analyzedWith?.name || 'Gemini 2.5 Flash'}</p>
+                        <p className="text-xs text-slate-500">{call.analyzedWith?.description || 'Multimodal Audio Processing'}</p>
                     </div>
                 </div>
                 <div className="border-t border-slate-100 pt-4">
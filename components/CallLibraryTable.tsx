@@ -0,0 +1,377 @@
+import React, { useDeferredValue, useMemo, useRef, useState } from 'react';
+import { CallRecord, CallSentiment } from '../types';
+import {
+  CallFilters,
+  CallSearchResult,
+  createSearchIndex,
+  EMPTY_FILTERS,
+  excerptAround,
+  SEARCH_FIELD_LABELS,
+  searchableText,
+  searchCalls,
+  SearchIndex,
+  SortKey,
+  SortState,
+} from '../services/callSearch';
+import { downloadFile, libraryToCSV } from '../services/exporters';
+import Highlight from './Highlight';
+import {
+  Clock, Pencil, Trash2, Loader2, Download, Search, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, ArrowUpDown, FilterX,
+} from 'lucide-react';
+
+interface CallLibraryTableProps {
+  calls: CallRecord[];
+  isLoading?: boolean;
+  onViewDetails: (call: CallRecord) => void;
+  onDelete?: (call: CallRecord) => void;
+  onRename?: (call: CallRecord, fileName: string) => void;
+}
+
+const PAGE_SIZES = [10, 25, 50, 100];
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'fileName', label: 'File Name' },
+  { key: 'status', label: 'Status' },
+  { key: 'sentiment', label: 'Sentiment' },
+];
+
+const controlClass = 'border border-slate-200 rounded-lg px-3 py-1.5 text-sm bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const CallLibraryTable: React.FC<CallLibraryTableProps> = ({ calls, isLoading = false, onViewDetails, onDelete, onRename }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const renamingRef = useRef<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [filters, setFilters] = useState<CallFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<SortState>({ key: 'relevance', direction: 'desc' });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(25);
+
+  const indexRef = useRef<SearchIndex | null>(null);
+  if (!indexRef.current) indexRef.current = createSearchIndex();
+
+  // Typing stays responsive while a large library is re-filtered in the background
+  const deferredFilters = useDeferredValue(filters);
+  const results = useMemo(() => {
+    indexRef.current!.sync(calls);
+    return searchCalls(calls, indexRef.current!, deferredFilters, sort);
+  }, [calls, deferredFilters, sort]);
+
+  const query = deferredFilters.query.trim();
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(EMPTY_FILTERS);
+  const pageCount = Math.max(1, Math.ceil(results.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = results.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const updateFilters = (patch: Partial<CallFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'date' ? 'desc' : 'asc' }));
+    setPage(0);
+  };
+
+  const startRename = (call: CallRecord) => {
+    renamingRef.current = call.id;
+    setEditingId(call.id);
+    setDraftName(call.fileName);
+  };
+
+  // Enter, Escape and the blur that follows either all end the edit; only the first one counts
+  const endRename = () => {
+    renamingRef.current = null;
+    setEditingId(null);
+  };
+
+  const commitRename = (call: CallRecord) => {
+    if (renamingRef.current !== call.id) return;
+    const name = draftName.trim();
+    if (name && name !== call.fileName) onRename?.(call, name);
+    endRename();
+  };
+
+  const handleDelete = (call: CallRecord) => {
+    if (window.confirm(`Delete "${call.fileName}" and its analysis? This cannot be undone.`)) {
+      onDelete?.(call);
+    }
+  };
+
+  // The best-ranked field other than the file name, which is already shown in its own column
+  const renderSnippet = ({ call, hit }: CallSearchResult) => {
+    const field = hit?.fields.find(f => f !== 'fileName');
+    if (!field) return null;
+    return (
+      <p className="mt-1 text-xs font-normal text-slate-500 line-clamp-2">
+        <span className="font-medium text-slate-400 mr-1">{SEARCH_FIELD_LABELS[field]}:</span>
+        <Highlight text={excerptAround(searchableText(call)[field], query)} query={query} />
+      </p>
+    );
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (sort.key !== key) return <ArrowUpDown size={12} className="ml-1 text-slate-300" />;
+    return sort.direction === 'asc' ? <ChevronUp size={14} className="ml-1" /> : <ChevronDown size={14} className="ml-1" />;
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-800">Recent Calls</h3>
+        {calls.length > 0 && (
+          <button
+            onClick={() => downloadFile(libraryToCSV(calls), `callbrain-library-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv;charset=utf-8')}
+            className="flex items-center text-sm font-medium text-slate-600 hover:text-slate-900 px-3 py-1.5 rounded-lg border border-slate-200 hover:bg-slate-50 transition-colors"
+          >
+            <Download size={14} className="mr-2" /> Export CSV
+          </button>
+        )}
+      </div>
+
+      {calls.length > 0 && (
+        <div className="space-y-3 mb-4">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              placeholder="Search transcripts, summaries, action items and insights"
+              className="w-full border border-slate-200 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={filters.fileName}
+              onChange={(e) => updateFilters({ fileName: e.target.value })}
+              placeholder="File name"
+              className={`${controlClass} w-40`}
+              aria-label="Filter by file name"
+            />
+            <select
+              value={filters.sentiment}
+              onChange={(e) => updateFilters({ sentiment: e.target.value as CallFilters['sentiment'] })}
+              className={controlClass}
+              aria-label="Filter by sentiment"
+            >
+              <option value="all">Any sentiment</option>
+              {Object.values(CallSentiment).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilters({ status: e.target.value as CallFilters['status'] })}
+              className={controlClass}
+              aria-label="Filter by status"
+            >
+              <option value="all">Any status</option>
+              <option value="completed">Completed</option>
+              <option value="processing">Processing</option>
+              <option value="failed">Failed</option>
+            </select>
+            <label className="flex items-center text-xs text-slate-500">
+              <span className="mr-1">From</span>
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => updateFilters({ from: e.target.value })}
+                className={controlClass}
+              />
+            </label>
+            <label className="flex items-center text-xs text-slate-500">
+              <span className="mr-1">To</span>
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => updateFilters({ to: e.target.value })}
+                className={controlClass}
+              />
+            </label>
+            {isFiltered && (
+              <button
+                onClick={() => updateFilters(EMPTY_FILTERS)}
+                className="flex items-center text-sm text-slate-500 hover:text-slate-800 px-2 py-1.5"
+              >
+                <FilterX size={14} className="mr-1" /> Clear
+              </button>
+            )}
+            {query && sort.key !== 'relevance' && (
+              <button
+                onClick={() => setSort({ key: 'relevance', direction: 'desc' })}
+                className="text-sm text-blue-600 hover:text-blue-800 px-2 py-1.5"
+              >
+                Sort by relevance
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8 text-slate-400">
+          <Loader2 size={20} className="animate-spin mr-2" />
+          <p>Loading saved calls...</p>
+        </div>
+      ) : calls.length === 0 ? (
+        <div className="text-center py-8 text-slate-400">
+          <p>No calls processed yet. Upload an audio file to get started.</p>
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center py-8 text-slate-400">
+          <p>No calls match these filters.</p>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="text-slate-500 text-sm border-b border-slate-100">
+                  {COLUMNS.map(col => (
+                    <th key={col.key} className="py-3 font-medium" aria-sort={sort.key === col.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}>
+                      <button onClick={() => toggleSort(col.key)} className="flex items-center hover:text-slate-800">
+                        {col.label} {sortIcon(col.key)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-3 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="text-sm">
+                {visible.map((result) => {
+                  const { call } = result;
+                  return (
+                    <tr key={call.id} className="border-b border-slate-50 hover:bg-slate-50 transition-colors align-top">
+                      <td className="py-3 text-slate-600 whitespace-nowrap">
+                        <div className="flex items-center space-x-2">
+                          <Clock size={16} className="text-slate-400" />
+                          <span>{new Date(call.timestamp).toLocaleDateString()}</span>
+                        </div>
+                      </td>
+                      <td className="py-3 pr-4 font-medium text-slate-800">
+                        {editingId === call.id ? (
+                          <input
+                            autoFocus
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            onBlur={() => commitRename(call)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename(call);
+                              if (e.key === 'Escape') endRename();
+                            }}
+                            className="w-full px-2 py-1 border border-blue-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          <>
+                            <Highlight text={call.fileName} query={query} />
+                            {renderSnippet(result)}
+                          </>
+                        )}
+                      </td>
+                      <td className="py-3">
+                        <span title={call.error} className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          call.status === 'completed' ? 'bg-green-100 text-green-700' :
+                          call.status === 'processing' ? 'bg-blue-100 text-blue-700' :
+                          'bg-red-100 text-red-700'
+                        }`}>
+                          {call.status.charAt(0).toUpperCase() + call.status.slice(1)}
+                        </span>
+                      </td>
+                      <td className="py-3">
+                        {call.analysis ? (
+                          <span className={`flex items-center space-x-1 ${
+                            call.analysis.sentiment === CallSentiment.POSITIVE ? 'text-green-600' :
+                            call.analysis.sentiment === CallSentiment.NEGATIVE ? 'text-red-600' :
+                            'text-slate-500'
+                          }`}>
+                            <span>{call.analysis.sentiment}</span>
+                          </span>
+                        ) : (
+                          <span className="text-slate-400">-</span>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          {call.status === 'completed' && (
+                            <button
+                              onClick={() => onViewDetails(call)}
+                              className="text-blue-600 hover:text-blue-800 font-medium text-xs px-3 py-1 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors whitespace-nowrap"
+                            >
+                              View Report
+                            </button>
+                          )}
+                          {onRename && (
+                            <button
+                              onClick={() => startRename(call)}
+                              className="p-1 text-slate-400 hover:text-slate-700 transition-colors"
+                              title="Rename"
+                            >
+                              <Pencil size={14} />
+                            </button>
+                          )}
+                          {onDelete && (
+                            <button
+                              onClick={() => handleDelete(call)}
+                              className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                              title="Delete"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-4 text-sm text-slate-500">
+            <div className="flex items-center space-x-2">
+              <span>
+                {currentPage * pageSize + 1}–{currentPage * pageSize + visible.length} of {results.length}
+                {results.length !== calls.length && ` (filtered from ${calls.length})`}
+              </span>
+              <select
+                value={pageSize}
+                onChange={(e) => { setPageSize(Number(e.target.value)); setPage(0); }}
+                className="border border-slate-200 rounded-lg px-2 py-1 text-sm bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Rows per page"
+              >
+                {PAGE_SIZES.map(size => <option key={size} value={size}>{size} per page</option>)}
+              </select>
+            </div>
+            {pageCount > 1 && (
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                  className="p-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+                <span className="px-2">Page {currentPage + 1} of {pageCount}</span>
+                <button
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                  className="p-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                  aria-label="Next page"
+                >
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CallLibraryTable;
@@ -1,18 +1,128 @@
-import React, { useState } from 'react';
-import { UploadCloud, FileAudio, Loader2, AlertCircle } from 'lucide-react';
-import { analyzeAudio } from '../services/geminiService';
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { UploadCloud, FileAudio, AlertCircle, X, Settings2, Mic } from 'lucide-react';
+import { getAvailableProviders, getDefaultProvider } from '../services/providerRegistry';
+import { DEFAULT_TEMPLATE_ID, templateStore } from '../services/analysisTemplates';
+import { scorecardStore } from '../services/scorecards';
+import { AnalysisQueue } from '../services/analysisQueue';
+import { CallRecorder } from '../services/callRecorder';
+import { canViewOriginals, RedactionOptions } from '../services/redaction';
+import { AUTO_LANGUAGE, languageName, OUTPUT_LANGUAGES } from '../services/languages';
+import { settingsStore } from '../services/settings';
+import { DEFAULT_PREPROCESSING, hasPreprocessing, PreprocessingOptions } from '../services/audioPreprocessing';
+import { AUDIO_ENCODINGS, AudioEncoding, DEFAULT_ENCODING, encodingInfo, estimateEncodedBytes } from '../services/audioEncoding';
+import { readDuration } from '../services/audioConversion';
+import { estimateSegmentCount } from '../services/analysisPipeline';
+import { DetectedFormat, describeFormat, detectAudioFormat, needsConversion } from '../services/audioFormat';
 import { CallRecord } from '../types';
+import AnalysisQueuePanel from './AnalysisQueuePanel';
+import TemplateManager from './TemplateManager';
+import ScorecardManager from './ScorecardManager';
+import RecorderPanel from './RecorderPanel';
 
 interface CallUploaderProps {
-  onAnalysisComplete: (record: CallRecord) => void;
+  queue: AnalysisQueue;
+  recorder: CallRecorder;
+  onViewDetails: (call: CallRecord) => void;
   onCancel: () => void;
 }
 
-const CallUploader: React.FC<CallUploaderProps> = ({ onAnalysisComplete, onCancel }) => {
+interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+// Returns why a file cannot be analyzed, or null if it is acceptable
+const validateFile = (file: File, maxUploadMB: number, format: DetectedFormat): string | null => {
+  // We check strict size limit later after potential conversion,
+  // but block obviously huge files (the limit in Settings) upfront to save processing time.
+  if (file.size > maxUploadMB * 1024 * 1024) {
+      return `File is too large. Please upload a file smaller than ${maxUploadMB}MB.`;
+  }
+
+  // Detected from the file's bytes, so a wrong extension neither blocks nor admits a file
+  return format.route === 'unsupported' ? format.reason || 'Not a supported audio file.' : null;
+};
+
+const fileKey = (file: File) => `${file.name}-${file.size}-${file.lastModified}`;
+
+// Reads every file under a dropped directory entry
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(f => resolve([f]), reject));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty array
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      entries.push(...batch);
+    }
+    const nested = await Promise.all(entries.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+// Collects dropped files, descending into dropped folders where the browser supports it
+const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files || []);
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+};
+
+const CallUploader: React.FC<CallUploaderProps> = ({ queue, recorder, onViewDetails, onCancel }) => {
+  const snapshot = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  // Come back to the recorder if a recording is still running
+  const [mode, setMode] = useState<'upload' | 'record'>(() => (recorder.getSnapshot().state === 'idle' ? 'upload' : 'record'));
+  const settings = useSyncExternalStore(settingsStore.subscribe, settingsStore.getSnapshot);
   const [isDragging, setIsDragging] = useState(false);
-  const [file, setFile] = useState<File | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const [keepAudio, setKeepAudio] = useState(true);
+  const [providers] = useState(getAvailableProviders);
+  const [providerId, setProviderId] = useState(() => getDefaultProvider().id);
+  const provider = providers.find(p => p.id === providerId) || providers[0];
+  const templates = useSyncExternalStore(templateStore.subscribe, templateStore.getSnapshot);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+  const [isManagingTemplates, setIsManagingTemplates] = useState(false);
+  const template = templates.find(t => t.id === templateId) || templates[0];
+  const scorecards = useSyncExternalStore(scorecardStore.subscribe, scorecardStore.getSnapshot);
+  const [scorecardId, setScorecardId] = useState<string | null>(null);
+  const [isManagingScorecards, setIsManagingScorecards] = useState(false);
+  const scorecard = scorecards.find(s => s.id === scorecardId);
+  const [redactionMode, setRedactionMode] = useState<'off' | 'patterns' | 'model'>('off');
+  const [retainOriginals, setRetainOriginals] = useState(false);
+  const redaction: RedactionOptions | undefined = redactionMode === 'off' ? undefined : {
+    modelAssisted: redactionMode === 'model',
+    retainOriginals: canViewOriginals(settings) && retainOriginals,
+  };
+  const [outputLanguage, setOutputLanguage] = useState(settings.defaultOutputLanguage);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingOptions>(DEFAULT_PREPROCESSING);
+  const [encoding, setEncoding] = useState<AudioEncoding>(DEFAULT_ENCODING);
+  // Recording lengths for the size estimate; null when the browser cannot tell
+  const [durations, setDurations] = useState<Record<string, number | null>>({});
+  // Formats detected when the files were added, by file key
+  const [formats, setFormats] = useState<Record<string, DetectedFormat>>({});
+
+  useEffect(() => {
+    const missing = files.filter(f => !(fileKey(f) in durations));
+    if (missing.length === 0) return;
+    let cancelled = false;
+    Promise.all(missing.map(readDuration)).then(found => {
+      if (cancelled) return;
+      setDurations(prev => {
+        const next = { ...prev };
+        missing.forEach((f, i) => { next[fileKey(f)] = found[i]; });
+        return next;
+      });
+    });
+    return () => { cancelled = true; };
+  }, [files]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -23,175 +133,394 @@ const CallUploader: React.FC<CallUploaderProps> = ({ onAnalysisComplete, onCance
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndSetFile(e.dataTransfer.files[0]);
+    try {
+      await addFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (err) {
+      console.error('Failed to read dropped files', err);
+      setRejected([{ name: 'Dropped items', reason: 'Could not be read. Try selecting the files instead.' }]);
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      validateAndSetFile(e.target.files[0]);
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files));
     }
+    // Allow picking the same files again after removing them
+    e.target.value = '';
   };
 
-  const validateAndSetFile = (file: File) => {
-    // We check strict size limit later after potential conversion, 
-    // but block obviously huge files (> 100MB) upfront to save processing time.
-    if (file.size > 100 * 1024 * 1024) {
-        setError(`File is too large. Please upload a file smaller than 100MB.`);
-        setFile(null);
-        return;
-    }
-
-    const isValidType = 
-        file.type.startsWith('audio/') || 
-        file.type.startsWith('video/mp4') ||
-        file.name.toLowerCase().endsWith('.mp4') ||
-        file.name.toLowerCase().endsWith('.m4a');
-
-    if (isValidType) {
-        setFile(file);
-        setError(null);
-    } else {
-        setError('Please upload a valid audio file (MP3, WAV, M4A, MP4).');
-    }
+  const addFiles = async (incoming: File[]) => {
+    const detected = await Promise.all(incoming.map(detectAudioFormat));
+    const accepted: File[] = [];
+    const skipped: RejectedFile[] = [];
+    incoming.forEach((file, i) => {
+      const reason = validateFile(file, settings.maxUploadMB, detected[i]);
+      if (reason) skipped.push({ name: file.name, reason });
+      else accepted.push(file);
+    });
+    setFormats(prev => {
+      const next = { ...prev };
+      incoming.forEach((file, i) => { next[fileKey(file)] = detected[i]; });
+      return next;
+    });
+    setFiles(prev => [
+      ...prev,
+      // Ignore files already selected
+      ...accepted.filter(f => !prev.some(p => p.name === f.name && p.size === f.size && p.lastModified === f.lastModified)),
+    ]);
+    setRejected(skipped);
   };
 
-  const handleProcess = async () => {
-    if (!file) return;
-
-    setIsProcessing(true);
-    setError(null);
+  const handleProcess = () => {
+    if (files.length === 0) return;
+    queue.enqueue(files, { provider, template, scorecard, redaction, outputLanguage, preprocessing, encoding, keepAudio });
+    setFiles([]);
+    setRejected([]);
+  };
 
-    const newRecord: CallRecord = {
-      id: Date.now().toString(),
-      fileName: file.name,
-      timestamp: Date.now(),
-      status: 'processing',
-    };
+  const totalSize = files.reduce((acc, f) => acc + f.size, 0);
 
-    try {
-      const analysis = await analyzeAudio(file);
-      
-      const completedRecord: CallRecord = {
-        ...newRecord,
-        status: 'completed',
-        analysis: analysis,
-      };
-
-      onAnalysisComplete(completedRecord);
-    } catch (err: any) {
-      console.error(err);
-      let errorMessage = 'Analysis failed. Please try again.';
-      
-      if (err.message && typeof err.message === 'string') {
-        if (err.message.includes('API Key')) errorMessage = 'API Key is missing or invalid.';
-        else if (err.message.includes('File size')) errorMessage = err.message;
-        else if (err.message.includes('500') || err.message.includes('Internal')) errorMessage = 'Server error. Please try a shorter audio clip.';
-      }
-      
-      setError(errorMessage);
-      setIsProcessing(false);
-    }
+  // Mirrors the pipeline: files the provider takes as they are, within the inline limit, are sent
+  // unconverted; everything else is converted to the chosen format and segmented if still too large
+  const willConvert = (f: File) => {
+    const format = formats[fileKey(f)];
+    return (!!format && needsConversion(format, provider)) || hasPreprocessing(preprocessing) || f.size > settings.maxInlineMB * 1024 * 1024;
   };
+  // The pipeline falls back to WAV when the provider cannot take the chosen format
+  const uploadEncoding: AudioEncoding = provider.acceptsAudioType(encodingInfo(encoding).mimeType) ? encoding : 'wav';
+  const estimate = files.reduce((acc, f) => {
+    if (!willConvert(f)) return { ...acc, bytes: acc.bytes + f.size, requests: acc.requests + 1 };
+    const seconds = durations[fileKey(f)];
+    if (seconds === undefined) return { ...acc, pending: acc.pending + 1 };
+    if (seconds === null) return { ...acc, unknown: acc.unknown + 1 };
+    const bytes = estimateEncodedBytes(uploadEncoding, seconds, settings.targetSampleRate);
+    return { ...acc, bytes: acc.bytes + bytes, requests: acc.requests + estimateSegmentCount(bytes, seconds, settings) };
+  }, { bytes: 0, requests: 0, pending: 0, unknown: 0 });
 
   return (
-    <div className="flex flex-col items-center justify-center min-h-[60vh] p-6 animate-fade-in">
+    <div className="flex flex-col items-center min-h-[60vh] p-6 space-y-6 animate-fade-in">
       <div className="max-w-xl w-full bg-white rounded-3xl shadow-xl p-8 border border-slate-100">
         <h2 className="text-2xl font-bold text-slate-800 mb-2 text-center">New Call Analysis</h2>
-        <p className="text-slate-500 mb-8 text-center">Upload a recording to extract insights using Gemini.</p>
-
-        {!isProcessing ? (
-            <>
-                <div
-                className={`relative border-2 border-dashed rounded-2xl p-10 flex flex-col items-center justify-center transition-all duration-200 cursor-pointer
-                    ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 hover:border-slate-400 bg-slate-50'}
-                    ${error ? 'border-red-300 bg-red-50' : ''}
-                `}
-                onDragOver={handleDragOver}
-                onDragLeave={handleDragLeave}
-                onDrop={handleDrop}
-                onClick={() => document.getElementById('file-upload')?.click()}
+        <p className="text-slate-500 mb-6 text-center">Upload or record calls to extract insights using {provider.name}.</p>
+
+        <div className="flex rounded-xl border border-slate-200 bg-slate-50 p-1 mb-4 text-sm">
+            {([['upload', 'Upload files', UploadCloud], ['record', 'Record call', Mic]] as const).map(([value, label, Icon]) => (
+                <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`flex-1 flex items-center justify-center py-2 rounded-lg transition-colors
+                        ${mode === value ? 'bg-white text-slate-800 font-medium shadow-sm' : 'text-slate-500 hover:text-slate-700'}
+                    `}
+                >
+                    <Icon size={16} className="mr-2" /> {label}
+                </button>
+            ))}
+        </div>
+
+        {mode === 'record' ? (
+            <RecorderPanel recorder={recorder} onRecorded={(file) => addFiles([file])} />
+        ) : (
+        <div
+        className={`relative border-2 border-dashed rounded-2xl p-10 flex flex-col items-center justify-center transition-all duration-200 cursor-pointer
+            ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 hover:border-slate-400 bg-slate-50'}
+        `}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={() => document.getElementById('file-upload')?.click()}
+        >
+        <input
+            id="file-upload"
+            type="file"
+            accept="audio/*,video/*,.m4a,.mov,.3gp,.amr,.opus,.caf"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+        />
+
+        <div className="flex flex-col items-center text-center">
+            <div className="w-16 h-16 bg-slate-200 text-slate-400 rounded-full flex items-center justify-center mb-4">
+                <UploadCloud size={32} />
+            </div>
+            <p className="font-medium text-slate-700 text-lg">Click or Drag audio files or folders here</p>
+            <p className="text-slate-400 text-sm mt-2">Supports MP3, WAV, FLAC, OGG, AAC, M4A, MP4, MOV and WebM up to {settings.maxUploadMB}MB</p>
+        </div>
+        </div>
+        )}
+
+        {files.length > 0 && (
+            <div className="mt-4">
+                <div className="flex justify-between items-center text-xs text-slate-500 mb-2">
+                    <span>{files.length} file{files.length === 1 ? '' : 's'} selected · {(totalSize / (1024 * 1024)).toFixed(2)} MB</span>
+                    <button onClick={() => setFiles([])} className="hover:text-slate-800 font-medium">Clear</button>
+                </div>
+                <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                    {files.map((f, idx) => (
+                        <li key={fileKey(f)} className="flex items-center px-3 py-2 text-sm">
+                            <FileAudio size={16} className="text-blue-600 mr-2 flex-shrink-0" />
+                            <span className="flex-1 truncate text-slate-800">{f.name}</span>
+                            {willConvert(f) && (
+                                <span className="text-amber-600 text-xs bg-amber-50 px-2 py-0.5 rounded mr-2">Will be converted to {encodingInfo(uploadEncoding).label}</span>
+                            )}
+                            <span className="text-slate-400 text-xs mr-2">
+                                {formats[fileKey(f)] && `${describeFormat(formats[fileKey(f)])} · `}{(f.size / (1024 * 1024)).toFixed(2)} MB
+                            </span>
+                            <button
+                                onClick={() => setFiles(prev => prev.filter((_, i) => i !== idx))}
+                                className="p-1 text-slate-400 hover:text-slate-700"
+                                aria-label={`Remove ${f.name}`}
+                            >
+                                <X size={14} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
+        {providers.length > 1 && (
+            <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+                <label htmlFor="provider-select">Analysis provider</label>
+                <select
+                    id="provider-select"
+                    value={provider.id}
+                    onChange={(e) => setProviderId(e.target.value)}
+                    className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {providers.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+            </div>
+        )}
+
+        <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+            <label htmlFor="template-select">Analysis template</label>
+            <div className="flex items-center space-x-2">
+                <select
+                    id="template-select"
+                    value={template.id}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
+                    {templates.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setIsManagingTemplates(true)}
+                    className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-50"
+                    title="Manage templates"
+                >
+                    <Settings2 size={16} />
+                </button>
+            </div>
+        </div>
+        {template.fields.length > 0 && (
+            <p className="mt-1 text-xs text-slate-400 text-right">
+                Adds {template.fields.map(f => f.label).join(', ')}
+            </p>
+        )}
+
+        <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+            <label htmlFor="scorecard-select">QA scorecard</label>
+            <div className="flex items-center space-x-2">
+                <select
+                    id="scorecard-select"
+                    value={scorecard?.id || ''}
+                    onChange={(e) => setScorecardId(e.target.value || null)}
+                    className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="">None</option>
+                    {scorecards.map(s => (
+                        <option key={s.id} value={s.id}>{s.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setIsManagingScorecards(true)}
+                    className="p-1.5 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-50"
+                    title="Manage scorecards"
+                >
+                    <Settings2 size={16} />
+                </button>
+            </div>
+        </div>
+
+        <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+            <label htmlFor="language-select">Summary language</label>
+            <select
+                id="language-select"
+                value={outputLanguage}
+                onChange={(e) => setOutputLanguage(e.target.value)}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+                <option value={AUTO_LANGUAGE}>{languageName(AUTO_LANGUAGE)}</option>
+                {OUTPUT_LANGUAGES.map(code => (
+                    <option key={code} value={code}>{languageName(code)}</option>
+                ))}
+            </select>
+        </div>
+        <p className="mt-1 text-xs text-slate-400 text-right">
+            Transcripts stay in the language spoken
+        </p>
+
+        <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+            <label htmlFor="redaction-select">PII redaction</label>
+            <select
+                id="redaction-select"
+                value={redactionMode}
+                onChange={(e) => setRedactionMode(e.target.value as typeof redactionMode)}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+                <option value="off">Off</option>
+                <option value="patterns">Card numbers, phones, emails, addresses</option>
+                <option value="model">Patterns plus model-detected names and IDs</option>
+            </select>
+        </div>
+        {redactionMode !== 'off' && canViewOriginals(settings) && (
+            <label className="mt-2 flex items-center justify-end text-xs text-slate-500 cursor-pointer select-none">
                 <input
-                    id="file-upload"
-                    type="file"
-                    accept="audio/*,video/mp4,.m4a"
-                    className="hidden"
-                    onChange={handleFileChange}
+                    type="checkbox"
+                    checked={retainOriginals}
+                    onChange={(e) => setRetainOriginals(e.target.checked)}
+                    className="mr-2 w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
                 />
-                
-                {file ? (
-                    <div className="flex flex-col items-center text-center">
-                        <div className="w-16 h-16 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center mb-4">
-                            <FileAudio size={32} />
-                        </div>
-                        <p className="font-medium text-slate-800 text-lg">{file.name}</p>
-                        <p className="text-slate-500 text-sm mt-1">{(file.size / (1024 * 1024)).toFixed(2)} MB</p>
-                         {(file.name.toLowerCase().endsWith('.mp4') || file.name.toLowerCase().endsWith('.m4a')) && (
-                             <p className="text-amber-600 text-xs mt-2 bg-amber-50 px-2 py-1 rounded">
-                                 Will be converted to WAV
-                             </p>
-                         )}
-                        <p className="text-blue-600 text-sm mt-4 font-medium">Click to change file</p>
-                    </div>
-                ) : (
-                    <div className="flex flex-col items-center text-center">
-                        <div className="w-16 h-16 bg-slate-200 text-slate-400 rounded-full flex items-center justify-center mb-4">
-                            <UploadCloud size={32} />
-                        </div>
-                        <p className="font-medium text-slate-700 text-lg">Click or Drag audio file here</p>
-                        <p className="text-slate-400 text-sm mt-2">Supports MP3, WAV, M4A, MP4</p>
-                    </div>
-                )}
-                </div>
+                Keep the originals so reviewers can reveal them
+            </label>
+        )}
 
-                {error && (
-                    <div className="mt-4 p-3 bg-red-50 text-red-600 rounded-lg flex items-center text-sm">
-                        <AlertCircle size={16} className="mr-2" />
-                        {error}
-                    </div>
-                )}
-
-                <div className="mt-8 flex space-x-4">
-                    <button 
-                        onClick={onCancel}
-                        className="flex-1 py-3 px-6 rounded-xl border border-slate-200 text-slate-600 font-medium hover:bg-slate-50 transition-colors"
-                    >
-                        Cancel
-                    </button>
-                    <button 
-                        onClick={handleProcess}
-                        disabled={!file}
-                        className={`flex-1 py-3 px-6 rounded-xl font-medium text-white transition-all shadow-lg shadow-blue-500/20
-                            ${file ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-300 cursor-not-allowed'}
-                        `}
-                    >
-                        {file && (file.name.endsWith('.mp4') || file.name.endsWith('.m4a')) ? 'Convert & Analyze' : 'Analyze Call'}
-                    </button>
-                </div>
-            </>
-        ) : (
-            <div className="py-12 flex flex-col items-center justify-center text-center">
-                <div className="relative mb-6">
-                    <div className="w-20 h-20 rounded-full border-4 border-blue-100 animate-pulse"></div>
-                    <div className="absolute top-0 left-0 w-20 h-20 rounded-full border-4 border-t-blue-600 animate-spin"></div>
-                    <div className="absolute top-0 left-0 w-20 h-20 flex items-center justify-center text-blue-600">
-                         <Loader2 size={32} />
-                    </div>
+        <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+            <label htmlFor="encoding-select">Upload format</label>
+            <select
+                id="encoding-select"
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as AudioEncoding)}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+                {AUDIO_ENCODINGS.map(e => (
+                    <option key={e.value} value={e.value}>{e.label}</option>
+                ))}
+            </select>
+        </div>
+        <p className="mt-1 text-xs text-slate-400 text-right">
+            {encodingInfo(encoding).description}
+        </p>
+        {files.length > 0 && (
+            <p className="mt-1 text-xs text-slate-500 text-right">
+                {estimate.pending > 0
+                    ? 'Estimating upload size...'
+                    : `About ${(estimate.bytes / (1024 * 1024)).toFixed(1)} MB to send in ${estimate.requests} request${estimate.requests === 1 ? '' : 's'}`}
+                {estimate.pending === 0 && estimate.unknown > 0 && ` plus ${estimate.unknown} file${estimate.unknown === 1 ? '' : 's'} of unknown length`}
+                {estimate.pending === 0 && preprocessing.trimSilence && ', less after trimming silence'}
+            </p>
+        )}
+
+        <div className="mt-4 text-sm text-slate-600">
+            <p className="mb-2">Audio cleanup</p>
+            {([
+                ['trimSilence', 'Cut long silences and hold music'],
+                ['normalizeLoudness', 'Even out loudness'],
+                ['splitChannels', 'Stereo recording: agent on the left, customer on the right'],
+            ] as const).map(([key, label]) => (
+                <label key={key} className="mt-1 flex items-center text-xs text-slate-500 cursor-pointer select-none">
+                    <input
+                        type="checkbox"
+                        checked={preprocessing[key]}
+                        onChange={(e) => setPreprocessing(prev => ({ ...prev, [key]: e.target.checked }))}
+                        className="mr-2 w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {label}
+                </label>
+            ))}
+        </div>
+
+        <label className="mt-4 flex items-center text-sm text-slate-600 cursor-pointer select-none">
+            <input
+                type="checkbox"
+                checked={keepAudio}
+                onChange={(e) => setKeepAudio(e.target.checked)}
+                className="mr-2 w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Keep the original recordings in the call library
+        </label>
+
+        {rejected.length > 0 && (
+            <div className="mt-4 p-3 bg-red-50 text-red-600 rounded-lg text-sm">
+                <div className="flex items-center font-medium mb-1">
+                    <AlertCircle size={16} className="mr-2" />
+                    {rejected.length} file{rejected.length === 1 ? ' was' : 's were'} skipped
                 </div>
-                <h3 className="text-xl font-semibold text-slate-800 mb-2">Processing Audio...</h3>
-                <p className="text-slate-500 max-w-xs mx-auto">
-                    Optimizing audio format and extracting insights. This may take a minute.
-                </p>
+                <ul className="ml-6 space-y-0.5 text-xs">
+                    {rejected.map((r, idx) => (
+                        <li key={idx}><span className="font-medium">{r.name}</span>: {r.reason}</li>
+                    ))}
+                </ul>
             </div>
         )}
+
+        <div className="mt-8 flex space-x-4">
+            <button
+                onClick={onCancel}
+                className="flex-1 py-3 px-6 rounded-xl border border-slate-200 text-slate-600 font-medium hover:bg-slate-50 transition-colors"
+            >
+                Back to Dashboard
+            </button>
+            <button
+                onClick={handleProcess}
+                disabled={files.length === 0}
+                className={`flex-1 py-3 px-6 rounded-xl font-medium text-white transition-all shadow-lg shadow-blue-500/20
+                    ${files.length > 0 ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-300 cursor-not-allowed'}
+                `}
+            >
+                {files.length > 1 ? `Analyze ${files.length} Calls` : 'Analyze Call'}
+            </button>
+        </div>
       </div>
+
+      {isManagingTemplates && (
+        <TemplateManager
+          templates={templates}
+          selectedId={template.id}
+          onSave={templateStore.save}
+          onDelete={templateStore.delete}
+          onClose={(id) => {
+            setTemplateId(id);
+            setIsManagingTemplates(false);
+          }}
+        />
+      )}
+
+      {isManagingScorecards && (
+        <ScorecardManager
+          scorecards={scorecards}
+          selectedId={scorecard?.id || null}
+          onSave={scorecardStore.save}
+          onDelete={scorecardStore.delete}
+          onClose={(id) => {
+            setScorecardId(id);
+            setIsManagingScorecards(false);
+          }}
+        />
+      )}
+
+      {snapshot.jobs.length > 0 && (
+        <div className="max-w-3xl w-full">
+          <AnalysisQueuePanel
+            snapshot={snapshot}
+            onRetry={queue.retry}
+            onCancel={queue.cancel}
+            onRemove={queue.remove}
+            onClearFinished={queue.clearFinished}
+            onConcurrencyChange={queue.setConcurrency}
+            onViewDetails={onViewDetails}
+          />
+        </div>
+      )}
     </div>
   );
 };
 
-export default CallUploader;
\ No newline at end of file
+export default CallUploader;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ListChecks } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldValue } from '../types';
+
+interface CustomFieldsCardProps {
+  templateName?: string;
+  fields?: CustomFieldDefinition[];
+  values: Record<string, CustomFieldValue>;
+}
+
+const FieldValue: React.FC<{ field: CustomFieldDefinition; value: CustomFieldValue }> = ({ field, value }) => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return <span className="text-slate-400 italic text-sm">Not mentioned</span>;
+  }
+  switch (field.type) {
+    case 'boolean':
+      return (
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium border
+          ${value ? 'bg-green-50 text-green-700 border-green-200' : 'bg-slate-50 text-slate-700 border-slate-200'}
+        `}>
+          {value ? 'Yes' : 'No'}
+        </span>
+      );
+    case 'enum':
+      return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">{String(value)}</span>;
+    case 'number':
+      return <span className="text-slate-900 font-semibold">{typeof value === 'number' ? value.toLocaleString() : String(value)}</span>;
+    case 'list':
+      return (
+        <ul className="space-y-1">
+          {(Array.isArray(value) ? value : [String(value)]).map((item, idx) => (
+            <li key={idx} className="flex items-start text-sm text-slate-700">
+              <div className="w-1.5 h-1.5 rounded-full bg-slate-300 mt-1.5 mr-2 flex-shrink-0"></div>
+              {item}
+            </li>
+          ))}
+        </ul>
+      );
+    default:
+      return <span className="text-sm text-slate-700">{Array.isArray(value) ? value.join(', ') : String(value)}</span>;
+  }
+};
+
+// Renders a template's custom outputs. Values without a stored definition are shown as plain text.
+const CustomFieldsCard: React.FC<CustomFieldsCardProps> = ({ templateName, fields, values }) => {
+  const definitions: CustomFieldDefinition[] = fields && fields.length > 0
+    ? fields
+    : Object.keys(values).map(key => ({ key, label: key, type: Array.isArray(values[key]) ? 'list' : 'text', description: '' }));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center">
+        <ListChecks className="mr-2 text-teal-600" /> {templateName || 'Custom Fields'}
+      </h3>
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-4">
+        {definitions.map(field => (
+          <div key={field.key} className={field.type === 'list' || field.type === 'text' ? 'sm:col-span-2' : ''}>
+            <dt className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-1" title={field.description}>{field.label}</dt>
+            <dd><FieldValue field={field} value={values[field.key] ?? null} /></dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default CustomFieldsCard;
@@ -1,18 +1,80 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { CallRecord, CallSentiment } from '../types';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
-import { Phone, CheckCircle, TrendingUp, AlertCircle, Clock } from 'lucide-react';
+import { StorageUsage } from '../services/callRepository';
+import { rollUpScorecards } from '../services/scorecards';
+import { countActionItems } from '../services/actionItems';
+import { scoreColor } from './ScorecardCard';
+import CallLibraryTable from './CallLibraryTable';
+import RangeControls from './RangeControls';
+import {
+  averageSentiment,
+  buildTimeSeries,
+  callsInRange,
+  DateRange,
+  fitGranularity,
+  formatSentimentScore,
+  Granularity,
+  GRANULARITY_LABELS,
+  RangePreset,
+  resolveRange,
+  sentimentLabel,
+  suggestGranularity,
+} from '../services/analytics';
+import {
+  BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie, ComposedChart, Line, Legend, ReferenceLine, CartesianGrid,
+} from 'recharts';
+import { Phone, CheckCircle, TrendingUp, AlertCircle, HardDrive, X, ClipboardCheck } from 'lucide-react';
 
 interface DashboardProps {
   calls: CallRecord[];
+  isLoading?: boolean;
+  error?: string | null;
+  storageUsage?: StorageUsage | null;
+  onDismissError?: () => void;
   onViewDetails: (call: CallRecord) => void;
+  onDelete?: (call: CallRecord) => void;
+  onRename?: (call: CallRecord, fileName: string) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ calls, onViewDetails }) => {
-  const completedCalls = calls.filter(c => c.status === 'completed');
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const SENTIMENT_TEXT: Record<CallSentiment, string> = {
+  [CallSentiment.POSITIVE]: 'text-green-600',
+  [CallSentiment.NEUTRAL]: 'text-slate-500',
+  [CallSentiment.NEGATIVE]: 'text-red-600',
+};
+
+const Dashboard: React.FC<DashboardProps> = ({
+  calls,
+  isLoading = false,
+  error,
+  storageUsage,
+  onDismissError,
+  onViewDetails,
+  onDelete,
+  onRename,
+}) => {
+  const [rollupId, setRollupId] = useState<string | null>(null);
+  const [rangePreset, setRangePreset] = useState<RangePreset>('all');
+  const [customRange, setCustomRange] = useState<Partial<DateRange>>({});
+  // Null picks a granularity that suits the length of the range; a choice too fine for it is coarsened
+  const [granularityChoice, setGranularityChoice] = useState<Granularity | null>(null);
+
+  const range = resolveRange(rangePreset, customRange, calls);
+  const granularity = fitGranularity(range, granularityChoice || suggestGranularity(range));
+  const rangeCalls = callsInRange(calls, range);
+  const series = buildTimeSeries(calls, range, granularity);
+
+  const completedCalls = rangeCalls.filter(c => c.status === 'completed');
   const totalCalls = completedCalls.length;
   
-  const totalActionItems = completedCalls.reduce((acc, call) => acc + (call.analysis?.actionItems.length || 0), 0);
+  const actionItemCounts = countActionItems(completedCalls);
   
   const sentimentCounts = completedCalls.reduce((acc, call) => {
     const s = call.analysis?.sentiment || CallSentiment.NEUTRAL;
@@ -26,19 +88,61 @@ const Dashboard: React.FC<DashboardProps> = ({ calls, onViewDetails }) => {
     { name: 'Negative', value: sentimentCounts[CallSentiment.NEGATIVE] || 0, color: '#ef4444' },
   ].filter(d => d.value > 0);
 
-  // Mock activity data based on timestamps (just for visual if we had enough data, simplified here)
-  const activityData = completedCalls.map((c, i) => ({
-    name: `Call ${i + 1}`,
-    actions: c.analysis?.actionItems.length || 0,
-  }));
+  const avgSentiment = averageSentiment(completedCalls);
+
+  // Most recently used scorecard first
+  const scorecardRollups = rollUpScorecards(rangeCalls);
+  const rollup = scorecardRollups.find(r => r.scorecardId === rollupId) || scorecardRollups[0];
 
   return (
     <div className="p-6 space-y-6 animate-fade-in">
-      <header className="mb-8">
-        <h1 className="text-3xl font-bold text-slate-800">Dashboard</h1>
-        <p className="text-slate-500">Overview of your call insights and pending tasks.</p>
+      <header className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-800">Dashboard</h1>
+          <p className="text-slate-500">Overview of your call insights and pending tasks.</p>
+        </div>
+        <RangeControls
+          preset={rangePreset}
+          customRange={customRange}
+          range={range}
+          granularity={granularity}
+          onPresetChange={setRangePreset}
+          onCustomRangeChange={setCustomRange}
+          onGranularityChange={setGranularityChoice}
+        />
+        {storageUsage && (
+          <div className="flex items-center space-x-3 text-xs text-slate-500 bg-white px-4 py-2 rounded-xl border border-slate-100 shadow-sm">
+            <HardDrive size={16} className="text-slate-400" />
+            <div>
+              <p>
+                {formatBytes(storageUsage.usedBytes)} used
+                {storageUsage.quotaBytes !== null && ` of ${formatBytes(storageUsage.quotaBytes)}`}
+              </p>
+              {storageUsage.quotaBytes !== null && (
+                <div className="w-32 h-1.5 bg-slate-100 rounded-full mt-1 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 rounded-full"
+                    style={{ width: `${Math.min(100, (storageUsage.usedBytes / storageUsage.quotaBytes) * 100)}%` }}
+                  ></div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </header>
 
+      {error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg flex items-center text-sm">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+          <span className="flex-1">{error}</span>
+          {onDismissError && (
+            <button onClick={onDismissError} className="text-red-400 hover:text-red-600" aria-label="Dismiss">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 flex items-center space-x-4">
@@ -56,8 +160,11 @@ const Dashboard: React.FC<DashboardProps> = ({ calls, onViewDetails }) => {
             <CheckCircle size={24} />
           </div>
           <div>
-            <p className="text-sm font-medium text-slate-500">Total Action Items</p>
-            <p className="text-2xl font-bold text-slate-800">{totalActionItems}</p>
+            <p className="text-sm font-medium text-slate-500">Action Items</p>
+            <p className="text-2xl font-bold text-slate-800">
+              {actionItemCounts.open} <span className="text-sm font-medium text-slate-500">outstanding</span>
+            </p>
+            <p className="text-xs text-slate-400">{actionItemCounts.done} done</p>
           </div>
         </div>
 
@@ -67,8 +174,11 @@ const Dashboard: React.FC<DashboardProps> = ({ calls, onViewDetails }) => {
           </div>
           <div>
             <p className="text-sm font-medium text-slate-500">Avg Sentiment</p>
-            <p className="text-2xl font-bold text-slate-800">
-             {sentimentData.length > 0 ? 'Analyzed' : '-'}
+            <p className={`text-2xl font-bold ${avgSentiment === null ? 'text-slate-800' : SENTIMENT_TEXT[sentimentLabel(avgSentiment)]}`}>
+              {formatSentimentScore(avgSentiment)}
+            </p>
+            <p className="text-xs text-slate-400">
+              {avgSentiment === null ? 'No analyzed calls' : `${sentimentLabel(avgSentiment)} on a scale of -1 to +1`}
             </p>
           </div>
         </div>
@@ -77,19 +187,71 @@ const Dashboard: React.FC<DashboardProps> = ({ calls, onViewDetails }) => {
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 min-h-[300px]">
-          <h3 className="text-lg font-semibold mb-4 text-slate-800">Action Items per Call</h3>
-          {activityData.length > 0 ? (
+          <h3 className="text-lg font-semibold mb-4 text-slate-800">Call Volume</h3>
+          {rangeCalls.length > 0 ? (
             <ResponsiveContainer width="100%" height={250}>
-              <BarChart data={activityData}>
-                <XAxis dataKey="name" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+              <BarChart data={series}>
+                <CartesianGrid vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} minTickGap={16} />
                 <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
-                <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} />
-                <Bar dataKey="actions" fill="#6366f1" radius={[4, 4, 0, 0]} barSize={40} />
+                <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={TOOLTIP_STYLE} />
+                <Bar dataKey="calls" name="Calls" fill="#3b82f6" radius={[4, 4, 0, 0]} maxBarSize={40} />
+                <Bar dataKey="failed" name="Failed" fill="#fca5a5" radius={[4, 4, 0, 0]} maxBarSize={40} />
               </BarChart>
             </ResponsiveContainer>
           ) : (
             <div className="h-full flex flex-col items-center justify-center text-slate-400">
-              <p>No call data available yet.</p>
+              <p>No calls in this date range.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 min-h-[300px]">
+          <h3 className="text-lg font-semibold mb-4 text-slate-800">Sentiment Trend</h3>
+          {completedCalls.length > 0 ? (
+            <ResponsiveContainer width="100%" height={250}>
+              <ComposedChart data={series}>
+                <CartesianGrid vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis yAxisId="count" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                <YAxis yAxisId="score" orientation="right" domain={[-1, 1]} ticks={[-1, 0, 1]} stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip
+                  cursor={{fill: '#f1f5f9'}}
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: any, name: any) => (name === 'Avg sentiment' ? formatSentimentScore(value) : value)}
+                />
+                <Legend iconSize={10} wrapperStyle={{ fontSize: 12 }} />
+                <ReferenceLine yAxisId="score" y={0} stroke="#cbd5e1" strokeDasharray="3 3" />
+                <Bar yAxisId="count" dataKey="positive" name="Positive" stackId="sentiment" fill="#86efac" maxBarSize={40} />
+                <Bar yAxisId="count" dataKey="neutral" name="Neutral" stackId="sentiment" fill="#cbd5e1" maxBarSize={40} />
+                <Bar yAxisId="count" dataKey="negative" name="Negative" stackId="sentiment" fill="#fca5a5" maxBarSize={40} />
+                <Line yAxisId="score" dataKey="avgSentiment" name="Avg sentiment" stroke="#0f172a" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+              </ComposedChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center text-slate-400">
+              <p>No sentiment data in this date range.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 min-h-[300px]">
+          <h3 className="text-lg font-semibold mb-4 text-slate-800">Action Items per {GRANULARITY_LABELS[granularity]}</h3>
+          {actionItemCounts.open + actionItemCounts.done > 0 ? (
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={series}>
+                <CartesianGrid vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="label" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={TOOLTIP_STYLE} />
+                <Legend iconSize={10} wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="openActionItems" name="Outstanding" stackId="items" fill="#6366f1" maxBarSize={40} />
+                <Bar dataKey="doneActionItems" name="Done" stackId="items" fill="#c7d2fe" radius={[4, 4, 0, 0]} maxBarSize={40} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center text-slate-400">
+              <p>No action items in this date range.</p>
             </div>
           )}
         </div>
@@ -117,80 +279,62 @@ const Dashboard: React.FC<DashboardProps> = ({ calls, onViewDetails }) => {
             </ResponsiveContainer>
            ) : (
             <div className="h-full flex flex-col items-center justify-center text-slate-400">
-              <p>No sentiment data available yet.</p>
+              <p>No sentiment data in this date range.</p>
             </div>
            )}
         </div>
       </div>
 
-      {/* Recent Calls List */}
-      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
-        <h3 className="text-lg font-semibold mb-4 text-slate-800">Recent Calls</h3>
-        {calls.length === 0 ? (
-          <div className="text-center py-8 text-slate-400">
-            <p>No calls processed yet. Upload an audio file to get started.</p>
-          </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full text-left border-collapse">
-              <thead>
-                <tr className="text-slate-500 text-sm border-b border-slate-100">
-                  <th className="py-3 font-medium">Date</th>
-                  <th className="py-3 font-medium">File Name</th>
-                  <th className="py-3 font-medium">Status</th>
-                  <th className="py-3 font-medium">Sentiment</th>
-                  <th className="py-3 font-medium text-right">Actions</th>
-                </tr>
-              </thead>
-              <tbody className="text-sm">
-                {calls.map((call) => (
-                  <tr key={call.id} className="border-b border-slate-50 hover:bg-slate-50 transition-colors">
-                    <td className="py-3 text-slate-600">
-                      <div className="flex items-center space-x-2">
-                        <Clock size={16} className="text-slate-400" />
-                        <span>{new Date(call.timestamp).toLocaleDateString()}</span>
-                      </div>
-                    </td>
-                    <td className="py-3 font-medium text-slate-800">{call.fileName}</td>
-                    <td className="py-3">
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        call.status === 'completed' ? 'bg-green-100 text-green-700' :
-                        call.status === 'processing' ? 'bg-blue-100 text-blue-700' :
-                        'bg-red-100 text-red-700'
-                      }`}>
-                        {call.status.charAt(0).toUpperCase() + call.status.slice(1)}
-                      </span>
-                    </td>
-                    <td className="py-3">
-                       {call.analysis ? (
-                         <span className={`flex items-center space-x-1 ${
-                            call.analysis.sentiment === CallSentiment.POSITIVE ? 'text-green-600' :
-                            call.analysis.sentiment === CallSentiment.NEGATIVE ? 'text-red-600' :
-                            'text-slate-500'
-                         }`}>
-                           <span>{call.analysis.sentiment}</span>
-                         </span>
-                       ) : (
-                         <span className="text-slate-400">-</span>
-                       )}
-                    </td>
-                    <td className="py-3 text-right">
-                      {call.status === 'completed' && (
-                        <button 
-                          onClick={() => onViewDetails(call)}
-                          className="text-blue-600 hover:text-blue-800 font-medium text-xs px-3 py-1 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors"
-                        >
-                          View Report
-                        </button>
-                      )}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+      {/* QA Scorecards */}
+      {rollup && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-slate-800 flex items-center">
+                <ClipboardCheck size={20} className="mr-2 text-emerald-600" /> QA Scores
+              </h3>
+              <p className="text-xs text-slate-500">Average per criterion over {rollup.calls} scored call{rollup.calls === 1 ? '' : 's'}</p>
+            </div>
+            <div className="flex items-center space-x-3">
+              {scorecardRollups.length > 1 && (
+                <select
+                  value={rollup.scorecardId}
+                  onChange={(e) => setRollupId(e.target.value)}
+                  className="border border-slate-200 rounded-lg px-2 py-1 text-sm bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {scorecardRollups.map(r => <option key={r.scorecardId} value={r.scorecardId}>{r.name}</option>)}
+                </select>
+              )}
+              <span className={`px-3 py-1 rounded-xl border text-sm font-bold ${scoreColor(rollup.overall)}`}>
+                {rollup.overall === null ? 'N/A' : `${rollup.overall} overall`}
+              </span>
+            </div>
           </div>
-        )}
-      </div>
+          <ul className="space-y-3">
+            {rollup.criteria.map(({ criterion, average, scoredCalls }) => (
+              <li key={criterion.id} className="flex items-center text-sm">
+                <span className="w-40 text-slate-700 truncate" title={criterion.description}>{criterion.name}</span>
+                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden mx-3">
+                  <div
+                    className={`h-full rounded-full ${average === null ? '' : average >= 80 ? 'bg-green-500' : average >= 50 ? 'bg-amber-500' : 'bg-red-500'}`}
+                    style={{ width: `${average ?? 0}%` }}
+                  ></div>
+                </div>
+                <span className="w-12 text-right font-medium text-slate-800">{average === null ? 'N/A' : average}</span>
+                <span className="w-24 text-right text-xs text-slate-400">{scoredCalls} call{scoredCalls === 1 ? '' : 's'}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <CallLibraryTable
+        calls={calls}
+        isLoading={isLoading}
+        onViewDetails={onViewDetails}
+        onDelete={onDelete}
+        onRename={onRename}
+      />
     </div>
   );
 };
@@ -0,0 +1,18 @@
+import React from 'react';
+import { highlightSegments } from '../services/callSearch';
+
+interface HighlightProps {
+  text: string;
+  query: string;
+}
+
+const Highlight: React.FC<HighlightProps> = ({ text, query }) => (
+  <>
+    {highlightSegments(text, query).map((segment, idx) => (segment.match
+      ? <mark key={idx} className="bg-yellow-200 text-slate-900 rounded-sm px-0.5">{segment.text}</mark>
+      : <React.Fragment key={idx}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+export default Highlight;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { AnalysisProgress, AnalysisStage } from '../types';
+
+interface ProgressStepperProps {
+  progress?: AnalysisProgress;
+}
+
+interface Step {
+  label: string;
+  stages: AnalysisStage[];
+}
+
+const STEPS: Step[] = [
+  { label: 'Decode', stages: ['decoding'] },
+  { label: 'Convert', stages: ['converting'] },
+  { label: 'Upload', stages: ['uploading'] },
+  { label: 'Model', stages: ['waiting', 'retrying'] },
+  { label: 'Parse', stages: ['parsing'] },
+];
+
+// Long recordings finish with an extra step that combines the per-segment results
+const MERGE_STEP: Step = { label: 'Merge', stages: ['merging'] };
+const SCORE_STEP: Step = { label: 'Score', stages: ['scoring'] };
+const REDACT_STEP: Step = { label: 'Redact', stages: ['redacting'] };
+
+const ProgressStepper: React.FC<ProgressStepperProps> = ({ progress }) => {
+  const steps = [
+    ...STEPS,
+    ...(progress?.segment ? [MERGE_STEP] : []),
+    // Scoring is a follow-up request, so the step only appears once it starts
+    ...(progress?.stage === 'scoring' ? [SCORE_STEP] : []),
+    ...(progress?.stage === 'redacting' ? [REDACT_STEP] : []),
+  ];
+  // Before the first event arrives the job is about to start decoding
+  const current = progress ? steps.findIndex(step => step.stages.includes(progress.stage)) : 0;
+
+  return (
+    <div className="mt-1.5">
+      <ol className="flex items-center">
+        {steps.map((step, idx) => {
+          const isDone = idx < current;
+          const isActive = idx === current;
+          const isRetrying = isActive && progress?.stage === 'retrying';
+          return (
+            <li key={step.label} className="flex items-center flex-1 last:flex-none">
+              <span className={`flex items-center text-[11px] font-medium whitespace-nowrap
+                ${isDone ? 'text-green-600' : isRetrying ? 'text-amber-600' : isActive ? 'text-blue-600' : 'text-slate-300'}
+              `}>
+                {isDone ? <Check size={12} className="mr-0.5" /> : isActive ? <Loader2 size={12} className="mr-0.5 animate-spin" /> : null}
+                {step.label}
+              </span>
+              {idx < steps.length - 1 && (
+                <span className={`flex-1 h-px mx-1.5 ${isDone ? 'bg-green-300' : 'bg-slate-200'}`}></span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {progress && (
+        <p className={`text-xs mt-1 truncate ${progress.stage === 'retrying' ? 'text-amber-600' : 'text-slate-500'}`}>
+          {progress.segment && progress.segment.index < progress.segment.total && (
+            <span className="font-medium">Segment {progress.segment.index + 1} of {progress.segment.total} · </span>
+          )}
+          {progress.message}
+          {progress.stage === 'waiting' && progress.attempt && progress.maxAttempts && progress.attempt > 1 && (
+            <span> (attempt {progress.attempt} of {progress.maxAttempts})</span>
+          )}
+        </p>
+      )}
+
+      {progress?.segment && (
+        <div className="w-full h-1 bg-slate-100 rounded-full mt-1 overflow-hidden">
+          <div
+            className="h-full bg-blue-600 rounded-full transition-all duration-500"
+            style={{ width: `${(progress.segment.index / progress.segment.total) * 100}%` }}
+          ></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressStepper;
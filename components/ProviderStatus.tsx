@@ -0,0 +1,33 @@
+import React, { useSyncExternalStore } from 'react';
+import { connectionMonitor, ConnectionState } from '../services/connectionStatus';
+
+const DOT_STYLES: Record<ConnectionState, string> = {
+  checking: 'bg-amber-400 animate-pulse',
+  connected: 'bg-green-500',
+  failed: 'bg-red-500',
+};
+
+// Sidebar box showing the default provider and whether it answered the last connection check
+const ProviderStatus: React.FC = () => {
+  const status = useSyncExternalStore(connectionMonitor.subscribe, connectionMonitor.getSnapshot);
+  const text = status.state === 'checking' ? `Connecting to ${status.providerName}...`
+    : status.state === 'connected' ? `${status.providerName} Active`
+    : `${status.providerName} Unreachable`;
+
+  return (
+    <button
+      onClick={() => connectionMonitor.check()}
+      disabled={status.state === 'checking'}
+      className="hidden md:block w-full text-left p-4 bg-slate-50 rounded-xl mb-2 border border-slate-100 hover:bg-slate-100 transition-colors disabled:hover:bg-slate-50"
+      title={status.error || 'Check the connection again'}
+    >
+      <p className="text-xs font-semibold text-slate-400 uppercase mb-1">Status</p>
+      <div className="flex items-center space-x-2">
+        <div className={`w-2 h-2 rounded-full flex-shrink-0 ${DOT_STYLES[status.state]}`}></div>
+        <span className="text-xs text-slate-600 truncate">{text}</span>
+      </div>
+    </button>
+  );
+};
+
+export default ProviderStatus;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { CalendarRange } from 'lucide-react';
+import { DateRange, Granularity, GRANULARITY_LABELS, RANGE_PRESETS, RangePreset } from '../services/analytics';
+
+interface RangeControlsProps {
+  preset: RangePreset;
+  customRange: Partial<DateRange>;
+  range: DateRange; // The range currently shown, used to start a custom range
+  granularity: Granularity;
+  onPresetChange: (preset: RangePreset) => void;
+  onCustomRangeChange: (range: Partial<DateRange>) => void;
+  onGranularityChange: (granularity: Granularity) => void;
+}
+
+const controlClass = 'border border-slate-200 rounded-lg px-2 py-1.5 text-sm bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Date range and period pickers shared by the dashboard and the topics view
+const RangeControls: React.FC<RangeControlsProps> = ({
+  preset,
+  customRange,
+  range,
+  granularity,
+  onPresetChange,
+  onCustomRangeChange,
+  onGranularityChange,
+}) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <CalendarRange size={16} className="text-slate-400" />
+    <select
+      value={preset}
+      onChange={(e) => {
+        const next = e.target.value as RangePreset;
+        // Start a custom range from whatever is on screen
+        if (next === 'custom') onCustomRangeChange(range);
+        onPresetChange(next);
+      }}
+      className={controlClass}
+      aria-label="Date range"
+    >
+      {RANGE_PRESETS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+    </select>
+    {preset === 'custom' && (
+      <>
+        <input
+          type="date"
+          value={customRange.from || ''}
+          max={customRange.to || undefined}
+          onChange={(e) => onCustomRangeChange({ ...customRange, from: e.target.value })}
+          className={controlClass}
+          aria-label="From"
+        />
+        <span className="text-slate-400 text-sm">to</span>
+        <input
+          type="date"
+          value={customRange.to || ''}
+          min={customRange.from || undefined}
+          onChange={(e) => onCustomRangeChange({ ...customRange, to: e.target.value })}
+          className={controlClass}
+          aria-label="To"
+        />
+      </>
+    )}
+    <div className="flex rounded-lg border border-slate-200 bg-white overflow-hidden text-sm">
+      {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(g => (
+        <button
+          key={g}
+          onClick={() => onGranularityChange(g)}
+          className={`px-3 py-1.5 transition-colors ${g === granularity ? 'bg-blue-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+        >
+          {GRANULARITY_LABELS[g]}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default RangeControls;
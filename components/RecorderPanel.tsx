@@ -0,0 +1,158 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Mic, MonitorSpeaker, Pause, Play, Square, Trash2, Loader2, AlertCircle } from 'lucide-react';
+import { CallRecorder, isRecordingSupported, isTabCaptureSupported, RecordingSource } from '../services/callRecorder';
+import { formatTimestamp } from '../services/transcript';
+
+interface RecorderPanelProps {
+  recorder: CallRecorder;
+  onRecorded: (file: File) => void;
+}
+
+const SOURCES: { value: RecordingSource; label: string; hint: string }[] = [
+  { value: 'microphone', label: 'Microphone', hint: 'Speakerphone or an in-person conversation' },
+  { value: 'microphone-and-tab', label: 'Microphone + tab audio', hint: 'Calls in a browser tab, such as a web softphone or meeting' },
+];
+
+// Sidebar badge with the running time, so a recording is not forgotten in another view. Kept
+// separate so only the badge re-renders on every tick.
+export const RecordingBadge: React.FC<{ recorder: CallRecorder }> = ({ recorder }) => {
+  const snapshot = useSyncExternalStore(recorder.subscribe, recorder.getSnapshot);
+  if (snapshot.state !== 'recording' && snapshot.state !== 'paused') return null;
+  return (
+    <span className="hidden md:flex items-center text-xs font-medium text-red-600 bg-red-50 px-2 py-0.5 rounded-full" title="Recording in progress">
+      <span className={`w-1.5 h-1.5 rounded-full bg-red-500 mr-1 ${snapshot.state === 'recording' ? 'animate-pulse' : ''}`}></span>
+      {formatTimestamp(snapshot.elapsedMs / 1000)}
+    </span>
+  );
+};
+
+// Replaces the drop zone while in "Record call" mode. The recorder lives in App, so a recording
+// keeps going while other views are open.
+const RecorderPanel: React.FC<RecorderPanelProps> = ({ recorder, onRecorded }) => {
+  const snapshot = useSyncExternalStore(recorder.subscribe, recorder.getSnapshot);
+  const [source, setSource] = useState<RecordingSource>('microphone');
+  const [error, setError] = useState<string | null>(null);
+  const isActive = snapshot.state === 'recording' || snapshot.state === 'paused';
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      await recorder.start(source);
+    } catch (e: any) {
+      setError(e?.message || 'Recording could not start.');
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      onRecorded(await recorder.stop());
+    } catch (e: any) {
+      setError(e?.message || 'The recording could not be saved.');
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this recording?')) return;
+    recorder.discard();
+  };
+
+  if (!isRecordingSupported()) {
+    return (
+      <div className="border-2 border-dashed border-slate-300 rounded-2xl p-10 bg-slate-50 text-center text-slate-500">
+        This browser cannot record audio. Record the call elsewhere and upload the file instead.
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-2 border-dashed border-slate-300 rounded-2xl p-8 bg-slate-50 flex flex-col items-center">
+      {snapshot.state === 'idle' || snapshot.state === 'starting' ? (
+        <>
+          <div className="w-full space-y-2 mb-6">
+            {SOURCES.filter(s => s.value === 'microphone' || isTabCaptureSupported()).map(s => (
+              <label
+                key={s.value}
+                className={`flex items-start p-3 rounded-xl border cursor-pointer transition-colors
+                  ${source === s.value ? 'border-blue-500 bg-blue-50' : 'border-slate-200 bg-white hover:bg-slate-50'}
+                `}
+              >
+                <input
+                  type="radio"
+                  name="recording-source"
+                  checked={source === s.value}
+                  onChange={() => setSource(s.value)}
+                  className="mt-1 mr-3"
+                />
+                <span>
+                  <span className="flex items-center text-sm font-medium text-slate-800">
+                    {s.value === 'microphone' ? <Mic size={14} className="mr-1.5" /> : <MonitorSpeaker size={14} className="mr-1.5" />}
+                    {s.label}
+                  </span>
+                  <span className="block text-xs text-slate-500">{s.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={handleStart}
+            disabled={snapshot.state === 'starting'}
+            className="flex items-center px-6 py-3 rounded-full bg-red-600 text-white font-medium hover:bg-red-700 disabled:opacity-60 shadow-lg shadow-red-200"
+          >
+            {snapshot.state === 'starting' ? <Loader2 size={18} className="mr-2 animate-spin" /> : <Mic size={18} className="mr-2" />}
+            {snapshot.state === 'starting' ? 'Waiting for permission...' : 'Start recording'}
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center space-x-2 text-sm font-medium mb-2">
+            <span className={`w-2.5 h-2.5 rounded-full ${snapshot.state === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-slate-400'}`}></span>
+            <span className="text-slate-600">
+              {snapshot.state === 'recording' ? 'Recording' : snapshot.state === 'paused' ? 'Paused' : 'Finishing...'}
+              {snapshot.source === 'microphone-and-tab' && ' microphone and tab'}
+            </span>
+          </div>
+          <p className="text-4xl font-mono font-semibold text-slate-800 mb-4">{formatTimestamp(snapshot.elapsedMs / 1000)}</p>
+          <div className="w-full h-2 bg-slate-200 rounded-full overflow-hidden mb-6" title="Input level">
+            <div
+              className={`h-full transition-[width] duration-100 ${snapshot.level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${snapshot.level * 100}%` }}
+            ></div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleDiscard}
+              disabled={!isActive}
+              className="p-3 rounded-full border border-slate-200 bg-white text-slate-500 hover:text-red-600 disabled:opacity-40"
+              title="Discard"
+            >
+              <Trash2 size={18} />
+            </button>
+            <button
+              onClick={() => (snapshot.state === 'paused' ? recorder.resume() : recorder.pause())}
+              disabled={!isActive}
+              className="p-3 rounded-full border border-slate-200 bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+              title={snapshot.state === 'paused' ? 'Resume' : 'Pause'}
+            >
+              {snapshot.state === 'paused' ? <Play size={18} /> : <Pause size={18} />}
+            </button>
+            <button
+              onClick={handleStop}
+              disabled={!isActive}
+              className="flex items-center px-5 py-3 rounded-full bg-slate-800 text-white font-medium hover:bg-slate-900 disabled:opacity-40"
+            >
+              <Square size={16} className="mr-2" /> Stop and add
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-4 flex items-center text-sm text-red-600">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecorderPanel;
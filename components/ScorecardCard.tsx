@@ -0,0 +1,87 @@
+import React from 'react';
+import { ClipboardCheck, Quote } from 'lucide-react';
+import { ScorecardResult } from '../types';
+import { formatScore, normalizeScore, SCALE_LABELS } from '../services/scorecards';
+import { formatTimestamp } from '../services/transcript';
+
+interface ScorecardCardProps {
+  result: ScorecardResult;
+  onSeek?: (seconds: number) => void;
+}
+
+// Green for strong scores, amber for middling, red for weak
+export const scoreColor = (percent: number | null): string => {
+  if (percent === null) return 'text-slate-400 bg-slate-50 border-slate-200';
+  if (percent >= 80) return 'text-green-700 bg-green-50 border-green-200';
+  if (percent >= 50) return 'text-amber-700 bg-amber-50 border-amber-200';
+  return 'text-red-700 bg-red-50 border-red-200';
+};
+
+const ScorecardCard: React.FC<ScorecardCardProps> = ({ result, onSeek }) => {
+  const totalWeight = result.criteria.reduce((acc, c) => acc + c.weight, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <ClipboardCheck className="mr-2 text-emerald-600" /> {result.name}
+        </h3>
+        <div className={`px-3 py-1 rounded-xl border text-center ${scoreColor(result.overall)}`}>
+          <p className="text-xl font-bold leading-tight">{result.overall === null ? 'N/A' : result.overall}</p>
+          <p className="text-[10px] uppercase tracking-wider">Overall</p>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {result.criteria.map(criterion => {
+          const score = result.scores.find(s => s.criterionId === criterion.id);
+          const value = score?.score ?? null;
+          const percent = value === null ? null : Math.round(normalizeScore(criterion, value) * 100);
+          return (
+            <li key={criterion.id} className="py-4 first:pt-0 last:pb-0">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="font-medium text-slate-800">{criterion.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {SCALE_LABELS[criterion.scale]} · weight {totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : 0}%
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${scoreColor(percent)}`}>
+                  {formatScore(criterion, value)}
+                </span>
+              </div>
+              {score?.justification && (
+                <p className="text-sm text-slate-600 mt-2">{score.justification}</p>
+              )}
+              {score && score.evidence.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {score.evidence.map((evidence, idx) => (
+                    <li key={idx} className="flex items-start text-xs text-slate-500">
+                      <Quote size={12} className="mr-1.5 mt-0.5 flex-shrink-0 text-slate-300" />
+                      <span className="italic">"{evidence.quote}"</span>
+                      {evidence.start !== undefined && (
+                        onSeek ? (
+                          <button
+                            onClick={() => onSeek(evidence.start!)}
+                            className="ml-2 text-blue-600 hover:text-blue-800 font-mono flex-shrink-0"
+                            title="Play from here"
+                          >
+                            {formatTimestamp(evidence.start)}
+                          </button>
+                        ) : (
+                          <span className="ml-2 font-mono flex-shrink-0">{formatTimestamp(evidence.start)}</span>
+                        )
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ScorecardCard;
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Copy, X, Lock, AlertCircle } from 'lucide-react';
+import { Scorecard, ScorecardCriterion, ScoreScale } from '../types';
+import { SCALE_LABELS, validateScorecard } from '../services/scorecards';
+
+interface ScorecardManagerProps {
+  scorecards: Scorecard[];
+  selectedId: string | null;
+  onSave: (scorecard: Scorecard) => void;
+  onDelete: (id: string) => void;
+  onClose: (selectedId: string | null) => void;
+}
+
+let idCounter = 0;
+// Criterion ids become JSON keys in the model's response, so they stay plain identifiers
+const newId = (prefix: string) => `${prefix}${Date.now().toString(36)}${(idCounter++).toString(36)}`;
+
+const inputClass = 'w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50 disabled:text-slate-500';
+
+const ScorecardManager: React.FC<ScorecardManagerProps> = ({ scorecards, selectedId, onSave, onDelete, onClose }) => {
+  const [currentId, setCurrentId] = useState(selectedId || scorecards[0].id);
+  const current = scorecards.find(s => s.id === currentId) || scorecards[0];
+  const [draft, setDraft] = useState<Scorecard>(current);
+  const [problems, setProblems] = useState<string[]>([]);
+  const isUnsaved = !scorecards.some(s => s.id === draft.id);
+  const readOnly = !!current.builtIn && draft.id === current.id;
+  const totalWeight = draft.criteria.reduce((acc, c) => acc + (c.weight > 0 ? c.weight : 0), 0);
+
+  const select = (scorecard: Scorecard) => {
+    setCurrentId(scorecard.id);
+    setDraft(scorecard);
+    setProblems([]);
+  };
+
+  const startNew = (from?: Scorecard) => {
+    setDraft({
+      id: newId('scorecard-'),
+      name: from ? `${from.name} (copy)` : 'New scorecard',
+      // Copies keep criterion ids so their results still roll up under the same criteria names
+      criteria: from ? from.criteria.map(c => ({ ...c })) : [],
+    });
+    setProblems([]);
+  };
+
+  const updateCriterion = (idx: number, patch: Partial<ScorecardCriterion>) => {
+    setDraft(prev => ({ ...prev, criteria: prev.criteria.map((c, i) => (i === idx ? { ...c, ...patch } : c)) }));
+  };
+
+  const handleSave = () => {
+    const scorecard: Scorecard = {
+      ...draft,
+      name: draft.name.trim(),
+      criteria: draft.criteria.map(c => ({ ...c, name: c.name.trim(), description: c.description.trim() })),
+    };
+    const found = validateScorecard(scorecard);
+    setProblems(found);
+    if (found.length > 0) return;
+    onSave(scorecard);
+    setCurrentId(scorecard.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the scorecard "${current.name}"? Calls already scored with it are kept.`)) return;
+    onDelete(current.id);
+    select(scorecards[0]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={() => onClose(selectedId)}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Scorecard list */}
+        <div className="w-56 border-r border-slate-100 p-4 flex flex-col">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-3">Scorecards</h3>
+          <ul className="space-y-1 flex-1 overflow-y-auto">
+            {scorecards.map(s => (
+              <li key={s.id}>
+                <button
+                  onClick={() => select(s)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center justify-between transition-colors
+                    ${s.id === draft.id ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}
+                  `}
+                >
+                  <span className="truncate">{s.name}</span>
+                  {s.builtIn && <Lock size={12} className="text-slate-300 flex-shrink-0 ml-2" />}
+                </button>
+              </li>
+            ))}
+            {isUnsaved && (
+              <li className="px-3 py-2 rounded-lg text-sm bg-blue-50 text-blue-700 font-medium truncate">{draft.name || 'Untitled'}</li>
+            )}
+          </ul>
+          <button
+            onClick={() => startNew()}
+            className="mt-3 flex items-center justify-center text-sm font-medium text-blue-600 hover:text-blue-800 py-2 rounded-lg hover:bg-blue-50"
+          >
+            <Plus size={16} className="mr-1" /> New scorecard
+          </button>
+        </div>
+
+        {/* Editor */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex items-center justify-between p-6 pb-4">
+            <h2 className="text-xl font-bold text-slate-800 truncate">{readOnly ? draft.name : isUnsaved ? 'New Scorecard' : 'Edit Scorecard'}</h2>
+            <button onClick={() => onClose(selectedId)} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 space-y-4">
+            {readOnly && (
+              <p className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                Built-in scorecards cannot be edited. Duplicate this one to customize it.
+              </p>
+            )}
+
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Name</label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={readOnly}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-2">Criteria</label>
+              <ul className="space-y-3">
+                {draft.criteria.map((criterion, idx) => (
+                  <li key={criterion.id} className="border border-slate-100 rounded-xl p-3 bg-slate-50/50">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        value={criterion.name}
+                        onChange={(e) => updateCriterion(idx, { name: e.target.value })}
+                        disabled={readOnly}
+                        placeholder="Criterion"
+                        className={inputClass}
+                      />
+                      <select
+                        value={criterion.scale}
+                        onChange={(e) => updateCriterion(idx, { scale: e.target.value as ScoreScale })}
+                        disabled={readOnly}
+                        className="border border-slate-200 rounded-lg px-2 py-2 text-sm bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {(Object.keys(SCALE_LABELS) as ScoreScale[]).map(scale => (
+                          <option key={scale} value={scale}>{SCALE_LABELS[scale]}</option>
+                        ))}
+                      </select>
+                      <label className="flex items-center text-xs text-slate-500 flex-shrink-0" title="Relative weight">
+                        <span className="mr-1">Weight</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={Number.isFinite(criterion.weight) ? criterion.weight : ''}
+                          onChange={(e) => updateCriterion(idx, { weight: parseFloat(e.target.value) })}
+                          disabled={readOnly}
+                          className="w-16 border border-slate-200 rounded-lg px-2 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+                        />
+                      </label>
+                      <span className="text-xs text-slate-400 w-10 text-right flex-shrink-0">
+                        {totalWeight > 0 && criterion.weight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}%` : '–'}
+                      </span>
+                      {!readOnly && (
+                        <button
+                          onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter((_, i) => i !== idx) })}
+                          className="p-2 text-slate-400 hover:text-red-600"
+                          aria-label={`Remove ${criterion.name || 'criterion'}`}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      value={criterion.description}
+                      onChange={(e) => updateCriterion(idx, { description: e.target.value })}
+                      disabled={readOnly}
+                      placeholder="What does a good call do?"
+                      className={`${inputClass} mt-2`}
+                    />
+                  </li>
+                ))}
+              </ul>
+              {!readOnly && (
+                <button
+                  onClick={() => setDraft({
+                    ...draft,
+                    criteria: [...draft.criteria, { id: newId('c'), name: '', description: '', weight: 10, scale: 'scale_5' }],
+                  })}
+                  className="mt-3 flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <Plus size={16} className="mr-1" /> Add criterion
+                </button>
+              )}
+            </div>
+
+            {problems.length > 0 && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">
+                <div className="flex items-center font-medium mb-1">
+                  <AlertCircle size={16} className="mr-2" /> The scorecard cannot be saved yet
+                </div>
+                <ul className="ml-6 space-y-0.5 text-xs list-disc">
+                  {problems.map((p, idx) => <li key={idx}>{p}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between p-6 pt-4 border-t border-slate-100 mt-4">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => startNew(draft)}
+                className="flex items-center text-sm text-slate-600 hover:text-slate-900 px-3 py-2 rounded-lg hover:bg-slate-50"
+              >
+                <Copy size={14} className="mr-1.5" /> Duplicate
+              </button>
+              {!current.builtIn && !isUnsaved && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center text-sm text-red-600 hover:text-red-800 px-3 py-2 rounded-lg hover:bg-red-50"
+                >
+                  <Trash2 size={14} className="mr-1.5" /> Delete
+                </button>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {!isUnsaved && (
+                <button
+                  onClick={() => onClose(current.id)}
+                  className="py-2 px-4 rounded-xl text-sm font-medium text-slate-600 border border-slate-200 hover:bg-slate-50"
+                >
+                  Use for Upload
+                </button>
+              )}
+              {!readOnly && (
+                <button
+                  onClick={handleSave}
+                  className="py-2 px-5 rounded-xl font-medium text-white bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-500/20"
+                >
+                  Save Scorecard
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScorecardManager;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Activity, TrendingUp, TrendingDown } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceDot, CartesianGrid } from 'recharts';
+import { Utterance } from '../types';
+import { buildSentimentTimeline, findTurningPoints, overallSentimentScore } from '../services/sentimentTimeline';
+import { formatSentimentScore } from '../services/analytics';
+import { formatTimestamp } from '../services/transcript';
+
+interface SentimentTimelineCardProps {
+  utterances: Utterance[];
+  speakerNames?: Record<string, string>;
+  playbackTime?: number; // Seconds, or negative when nothing is playing
+  onSeek?: (seconds: number) => void;
+}
+
+const SentimentTimelineCard: React.FC<SentimentTimelineCardProps> = ({ utterances, speakerNames, playbackTime = -1, onSeek }) => {
+  const points = buildSentimentTimeline(utterances);
+  if (points.length === 0) return null;
+  const turningPoints = findTurningPoints(points, utterances);
+  const overall = overallSentimentScore(utterances);
+  const duration = points[points.length - 1].end;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <Activity className="mr-2 text-rose-500" /> Sentiment Timeline
+        </h3>
+        <span className="text-sm text-slate-500">
+          Overall <span className="font-semibold text-slate-800">{formatSentimentScore(overall)}</span>
+        </span>
+      </div>
+
+      <ResponsiveContainer width="100%" height={200}>
+        <LineChart
+          data={points}
+          margin={{ top: 8, right: 8, bottom: 0, left: -24 }}
+          onClick={(state: any) => {
+            if (onSeek && state?.activeLabel !== undefined) onSeek(Number(state.activeLabel));
+          }}
+          style={onSeek ? { cursor: 'pointer' } : undefined}
+        >
+          <CartesianGrid vertical={false} stroke="#f1f5f9" />
+          <XAxis
+            dataKey="start"
+            type="number"
+            domain={[0, duration]}
+            tickFormatter={(value: number) => formatTimestamp(value)}
+            stroke="#94a3b8"
+            fontSize={12}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis domain={[-1, 1]} ticks={[-1, 0, 1]} stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
+          <Tooltip
+            labelFormatter={(value: any) => formatTimestamp(Number(value))}
+            formatter={(value: any) => [formatSentimentScore(value), 'Sentiment']}
+            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+          />
+          <ReferenceLine y={0} stroke="#cbd5e1" strokeDasharray="3 3" />
+          {playbackTime >= 0 && <ReferenceLine x={Math.min(playbackTime, duration)} stroke="#3b82f6" />}
+          <Line type="monotone" dataKey="score" stroke="#f43f5e" strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+          {turningPoints.map(tp => (
+            <ReferenceDot
+              key={tp.time}
+              x={tp.time}
+              y={tp.to}
+              r={5}
+              fill={tp.direction === 'up' ? '#22c55e' : '#ef4444'}
+              stroke="#fff"
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      {turningPoints.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">Turning Points</h4>
+          <ul className="space-y-2">
+            {turningPoints.map(tp => (
+              <li key={tp.time} className="flex items-start text-sm">
+                {tp.direction === 'up'
+                  ? <TrendingUp size={16} className="mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                  : <TrendingDown size={16} className="mr-2 mt-0.5 text-red-600 flex-shrink-0" />}
+                {onSeek ? (
+                  <button
+                    onClick={() => onSeek(tp.time)}
+                    className="mr-2 text-blue-600 hover:text-blue-800 font-mono flex-shrink-0"
+                    title="Play from here"
+                  >
+                    {formatTimestamp(tp.time)}
+                  </button>
+                ) : (
+                  <span className="mr-2 font-mono text-slate-500 flex-shrink-0">{formatTimestamp(tp.time)}</span>
+                )}
+                <div className="min-w-0">
+                  <p className="text-slate-700">
+                    {tp.direction === 'up' ? 'Improved' : 'Worsened'} from {formatSentimentScore(tp.from)} to {formatSentimentScore(tp.to)}
+                  </p>
+                  {tp.utterance && (
+                    <p className="text-xs text-slate-500 italic truncate">
+                      {speakerNames?.[tp.utterance.speaker] || tp.utterance.speaker}: "{tp.utterance.text}"
+                    </p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SentimentTimelineCard;
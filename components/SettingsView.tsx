@@ -0,0 +1,218 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { AlertCircle, CheckCircle, RotateCcw, Save, Wifi, WifiOff, Loader2 } from 'lucide-react';
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  GEMINI_MODELS,
+  SAMPLE_RATES,
+  SETTING_LIMITS,
+  settingsStore,
+  USER_ROLES,
+  UserRole,
+  validateSettings,
+} from '../services/settings';
+import { connectionMonitor } from '../services/connectionStatus';
+import { isGeminiConfigured } from '../services/geminiService';
+import { AUTO_LANGUAGE, languageName, OUTPUT_LANGUAGES } from '../services/languages';
+
+const inputClass = 'w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+type NumericSetting = keyof typeof SETTING_LIMITS;
+
+const SettingsView: React.FC = () => {
+  const settings = useSyncExternalStore(settingsStore.subscribe, settingsStore.getSnapshot);
+  const status = useSyncExternalStore(connectionMonitor.subscribe, connectionMonitor.getSnapshot);
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+  const isDirty = (Object.keys(settings) as (keyof AppSettings)[]).some(key => settings[key] !== draft[key]);
+
+  const update = (patch: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    const found = validateSettings(draft);
+    setProblems(found);
+    if (found.length > 0) return;
+    settingsStore.save({ ...draft, geminiModel: draft.geminiModel.trim() });
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Restore every setting to its default?')) return;
+    settingsStore.reset();
+    setDraft(DEFAULT_SETTINGS);
+    setProblems([]);
+    setSaved(true);
+  };
+
+  const renderNumber = (key: NumericSetting, label: string, unit: string, hint: string) => {
+    const [min, max] = SETTING_LIMITS[key];
+    return (
+      <div>
+        <label htmlFor={`setting-${key}`} className="block text-xs font-medium text-slate-500 mb-1">{label} ({unit})</label>
+        <input
+          id={`setting-${key}`}
+          type="number"
+          min={min}
+          max={max}
+          value={Number.isFinite(draft[key]) ? draft[key] : ''}
+          onChange={(e) => update({ [key]: e.target.valueAsNumber } as Partial<AppSettings>)}
+          className={inputClass}
+        />
+        <p className="mt-1 text-xs text-slate-400">{hint}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in max-w-4xl">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-800">Settings</h1>
+        <p className="text-slate-500">Saved in this browser and used from the next analysis on.</p>
+      </div>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Connection</h3>
+            <p className="text-xs text-slate-400">New analyses use {status.providerName} ({status.model}).</p>
+          </div>
+          <button
+            onClick={() => connectionMonitor.check()}
+            disabled={status.state === 'checking'}
+            className="flex items-center text-sm font-medium text-slate-600 border border-slate-200 px-3 py-2 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+          >
+            {status.state === 'checking' ? <Loader2 size={16} className="mr-2 animate-spin" /> : <Wifi size={16} className="mr-2" />}
+            Test connection
+          </button>
+        </div>
+        {status.state === 'connected' && (
+          <p className="flex items-center text-sm text-green-700">
+            <CheckCircle size={16} className="mr-2" /> Connected{status.checkedAt && ` at ${new Date(status.checkedAt).toLocaleTimeString()}`}.
+          </p>
+        )}
+        {status.state === 'failed' && (
+          <p className="flex items-start text-sm text-red-600">
+            <WifiOff size={16} className="mr-2 mt-0.5 flex-shrink-0" /> <span className="break-words min-w-0">{status.error}</span>
+          </p>
+        )}
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 space-y-4">
+        <h3 className="text-lg font-bold text-slate-800">Model</h3>
+        <div>
+          <label htmlFor="setting-model" className="block text-xs font-medium text-slate-500 mb-1">Gemini model</label>
+          <input
+            id="setting-model"
+            list="gemini-models"
+            value={draft.geminiModel}
+            onChange={(e) => update({ geminiModel: e.target.value })}
+            className={inputClass}
+          />
+          <datalist id="gemini-models">
+            {GEMINI_MODELS.map(m => <option key={m.id} value={m.id}>{m.name}: {m.description}</option>)}
+          </datalist>
+          <p className="mt-1 text-xs text-slate-400">
+            {isGeminiConfigured()
+              ? 'Any Gemini model that accepts audio input.'
+              : 'Gemini is not configured; set GEMINI_API_KEY in .env.local to use it.'}
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderNumber('maxAttempts', 'Attempts per request', 'count', 'Server errors are retried until this many attempts have failed.')}
+          {renderNumber('retryBaseDelayMs', 'First retry delay', 'ms', 'Doubles with every further retry.')}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 space-y-4">
+        <h3 className="text-lg font-bold text-slate-800">Audio</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderNumber('maxUploadMB', 'Maximum file size', 'MB', 'Larger files are rejected when added to the uploader.')}
+          {renderNumber('maxInlineMB', 'Inline upload limit', 'MB', 'Larger recordings are converted and, if still too large, analyzed in segments.')}
+          <div>
+            <label htmlFor="setting-rate" className="block text-xs font-medium text-slate-500 mb-1">Conversion sample rate</label>
+            <select
+              id="setting-rate"
+              value={draft.targetSampleRate}
+              onChange={(e) => update({ targetSampleRate: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz mono</option>)}
+            </select>
+            <p className="mt-1 text-xs text-slate-400">Lower rates make smaller uploads and fewer segments.</p>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 space-y-4">
+        <h3 className="text-lg font-bold text-slate-800">Analysis</h3>
+        <div className="md:w-1/2 md:pr-2">
+          <label htmlFor="setting-language" className="block text-xs font-medium text-slate-500 mb-1">Default summary language</label>
+          <select
+            id="setting-language"
+            value={draft.defaultOutputLanguage}
+            onChange={(e) => update({ defaultOutputLanguage: e.target.value })}
+            className={inputClass}
+          >
+            <option value={AUTO_LANGUAGE}>{languageName(AUTO_LANGUAGE)}</option>
+            {OUTPUT_LANGUAGES.map(code => (
+              <option key={code} value={code}>{languageName(code)}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">Preselected in the uploader; each upload can still choose another.</p>
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 space-y-4">
+        <h3 className="text-lg font-bold text-slate-800">Privacy</h3>
+        <div className="md:w-1/2 md:pr-2">
+          <label htmlFor="setting-role" className="block text-xs font-medium text-slate-500 mb-1">Role</label>
+          <select
+            id="setting-role"
+            value={draft.userRole}
+            onChange={(e) => update({ userRole: e.target.value as UserRole })}
+            className={inputClass}
+          >
+            {USER_ROLES.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">{USER_ROLES.find(r => r.id === draft.userRole)?.description}.</p>
+        </div>
+      </section>
+
+      {problems.length > 0 && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">
+          <div className="flex items-center font-medium mb-1">
+            <AlertCircle size={16} className="mr-2" /> The settings cannot be saved yet
+          </div>
+          <ul className="ml-6 space-y-0.5 text-xs list-disc">
+            {problems.map((p, idx) => <li key={idx}>{p}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={handleReset}
+          className="flex items-center text-sm text-slate-600 hover:text-slate-900 px-3 py-2 rounded-lg hover:bg-slate-100"
+        >
+          <RotateCcw size={14} className="mr-1.5" /> Reset to defaults
+        </button>
+        <div className="flex items-center space-x-3">
+          {saved && !isDirty && <span className="text-sm text-green-700">Settings saved.</span>}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 disabled:opacity-40"
+          >
+            <Save size={16} className="mr-2" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { CalendarDays, User, FileAudio, ListTodo, CheckCircle } from 'lucide-react';
+import { CallRecord } from '../types';
+import {
+  BoardItem,
+  collectActionItems,
+  compareBoardItems,
+  DueBucket,
+  formatDueDate,
+  getDueBucket,
+  listOwners,
+  setActionItemStatus,
+} from '../services/actionItems';
+
+interface TaskBoardProps {
+  calls: CallRecord[];
+  onUpdateCall: (call: CallRecord) => void;
+  onViewDetails: (call: CallRecord) => void;
+}
+
+const UNASSIGNED = '__unassigned__';
+
+type DueFilter = 'all' | DueBucket;
+
+const DUE_FILTERS: { value: DueFilter; label: string }[] = [
+  { value: 'all', label: 'Any due date' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Due today' },
+  { value: 'week', label: 'Due in the next 7 days' },
+  { value: 'later', label: 'Due later' },
+  { value: 'none', label: 'No due date' },
+];
+
+const DUE_STYLES: Record<DueBucket, string> = {
+  overdue: 'text-red-600 bg-red-50',
+  today: 'text-amber-700 bg-amber-50',
+  week: 'text-blue-700 bg-blue-50',
+  later: 'text-slate-600 bg-slate-100',
+  none: '',
+};
+
+const TaskCard: React.FC<{
+  entry: BoardItem;
+  onToggle: (done: boolean) => void;
+  onOpenCall: () => void;
+}> = ({ entry, onToggle, onOpenCall }) => {
+  const { item, call } = entry;
+  const isDone = item.status === 'done';
+  const bucket = getDueBucket(item);
+
+  return (
+    <li className="bg-white border border-slate-100 rounded-xl p-4 shadow-sm flex items-start">
+      <input
+        type="checkbox"
+        checked={isDone}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="mt-0.5 mr-3 w-5 h-5 rounded border-slate-300 text-blue-600 focus:ring-blue-500 flex-shrink-0"
+      />
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm ${isDone ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{item.text}</p>
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+          <span className="flex items-center text-slate-500">
+            <User size={12} className="mr-1" /> {item.owner || 'Unassigned'}
+          </span>
+          {item.dueDate && (
+            <span className={`flex items-center px-1.5 py-0.5 rounded ${isDone ? 'text-slate-400' : DUE_STYLES[bucket]}`}>
+              <CalendarDays size={12} className="mr-1" /> {formatDueDate(item.dueDate)}
+            </span>
+          )}
+          <button
+            onClick={onOpenCall}
+            className="flex items-center text-blue-600 hover:text-blue-800 truncate max-w-full"
+            title="Open the call this came from"
+          >
+            <FileAudio size={12} className="mr-1 flex-shrink-0" />
+            <span className="truncate">{call.fileName}</span>
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+const TaskBoard: React.FC<TaskBoardProps> = ({ calls, onUpdateCall, onViewDetails }) => {
+  const [ownerFilter, setOwnerFilter] = useState('all');
+  const [dueFilter, setDueFilter] = useState<DueFilter>('all');
+
+  const allItems = collectActionItems(calls);
+  const owners = listOwners(allItems);
+
+  const visible = allItems
+    .filter(({ item }) => {
+      if (ownerFilter === UNASSIGNED) return !item.owner;
+      if (ownerFilter !== 'all') return item.owner?.toLowerCase() === ownerFilter.toLowerCase();
+      return true;
+    })
+    .filter(({ item }) => dueFilter === 'all' || getDueBucket(item) === dueFilter)
+    .sort(compareBoardItems);
+
+  const open = visible.filter(b => b.item.status === 'open');
+  // Most recently completed first
+  const done = visible
+    .filter(b => b.item.status === 'done')
+    .sort((a, b) => (b.item.completedAt || 0) - (a.item.completedAt || 0));
+
+  const toggle = ({ item, call }: BoardItem, isDone: boolean) => {
+    onUpdateCall(setActionItemStatus(call, item.id, isDone));
+  };
+
+  const renderColumn = (title: string, icon: React.ReactNode, entries: BoardItem[], empty: string) => (
+    <div className="bg-slate-100/60 rounded-2xl p-4 flex flex-col min-h-[200px]">
+      <h3 className="text-sm font-semibold text-slate-600 mb-3 flex items-center">
+        {icon} {title}
+        <span className="ml-2 text-xs font-medium text-slate-400 bg-white px-2 py-0.5 rounded-full">{entries.length}</span>
+      </h3>
+      {entries.length > 0 ? (
+        <ul className="space-y-3">
+          {entries.map(entry => (
+            <TaskCard
+              key={`${entry.call.id}:${entry.item.id}`}
+              entry={entry}
+              onToggle={(isDone) => toggle(entry, isDone)}
+              onOpenCall={() => onViewDetails(entry.call)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-400 italic text-center my-auto">{empty}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-800">Tasks</h1>
+          <p className="text-slate-500">Action items from every analyzed call.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={ownerFilter}
+            onChange={(e) => setOwnerFilter(e.target.value)}
+            className="border border-slate-200 rounded-lg px-3 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Filter by owner"
+          >
+            <option value="all">All owners</option>
+            {owners.map(owner => <option key={owner} value={owner}>{owner}</option>)}
+            <option value={UNASSIGNED}>Unassigned</option>
+          </select>
+          <select
+            value={dueFilter}
+            onChange={(e) => setDueFilter(e.target.value as DueFilter)}
+            className="border border-slate-200 rounded-lg px-3 py-2 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Filter by due date"
+          >
+            {DUE_FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+          </select>
+        </div>
+      </header>
+
+      {allItems.length === 0 ? (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-100 text-center py-12 text-slate-400">
+          <p>No action items yet. They appear here once calls have been analyzed.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {renderColumn('Outstanding', <ListTodo size={16} className="mr-2 text-blue-600" />, open, 'Nothing outstanding for these filters.')}
+          {renderColumn('Done', <CheckCircle size={16} className="mr-2 text-green-600" />, done, 'Nothing completed for these filters.')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskBoard;
@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Copy, X, Lock, AlertCircle } from 'lucide-react';
+import { AnalysisTemplate, CustomFieldType } from '../types';
+import { fieldKeyFromLabel, validateTemplate } from '../services/analysisTemplates';
+
+interface TemplateManagerProps {
+  templates: AnalysisTemplate[];
+  selectedId: string;
+  onSave: (template: AnalysisTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: (selectedId: string) => void;
+}
+
+// Enum options are edited as comma-separated text and split on save
+interface DraftField {
+  label: string;
+  type: CustomFieldType;
+  description: string;
+  optionsText: string;
+}
+
+interface Draft {
+  id: string;
+  name: string;
+  instructions: string;
+  fields: DraftField[];
+}
+
+const FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'list', label: 'List' },
+  { value: 'number', label: 'Number' },
+  { value: 'enum', label: 'Choice' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+const newId = () => `template-${Date.now().toString(36)}`;
+
+const toDraft = (template: AnalysisTemplate): Draft => ({
+  id: template.id,
+  name: template.name,
+  instructions: template.instructions,
+  fields: template.fields.map(f => ({
+    label: f.label,
+    type: f.type,
+    description: f.description,
+    optionsText: (f.options || []).join(', '),
+  })),
+});
+
+const fromDraft = (draft: Draft): AnalysisTemplate => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  instructions: draft.instructions.trim(),
+  fields: draft.fields.map(f => ({
+    key: fieldKeyFromLabel(f.label),
+    label: f.label.trim(),
+    type: f.type,
+    description: f.description.trim() || f.label.trim(),
+    ...(f.type === 'enum' ? { options: f.optionsText.split(',').map(o => o.trim()).filter(Boolean) } : {}),
+  })),
+});
+
+const inputClass = 'w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50 disabled:text-slate-500';
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, selectedId, onSave, onDelete, onClose }) => {
+  const [currentId, setCurrentId] = useState(selectedId);
+  const current = templates.find(t => t.id === currentId) || templates[0];
+  const [draft, setDraft] = useState<Draft>(() => toDraft(current));
+  const [problems, setProblems] = useState<string[]>([]);
+  const readOnly = !!current.builtIn && draft.id === current.id;
+
+  const select = (template: AnalysisTemplate) => {
+    setCurrentId(template.id);
+    setDraft(toDraft(template));
+    setProblems([]);
+  };
+
+  const startNew = (from?: AnalysisTemplate) => {
+    setDraft({
+      ...(from ? toDraft(from) : { instructions: '', fields: [] }),
+      id: newId(),
+      name: from ? `${from.name} (copy)` : 'New template',
+    });
+    setProblems([]);
+  };
+
+  const updateField = (idx: number, patch: Partial<DraftField>) => {
+    setDraft(prev => ({ ...prev, fields: prev.fields.map((f, i) => (i === idx ? { ...f, ...patch } : f)) }));
+  };
+
+  const handleSave = () => {
+    const template = fromDraft(draft);
+    const found = validateTemplate(template);
+    setProblems(found);
+    if (found.length > 0) return;
+    onSave(template);
+    setCurrentId(template.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the template "${current.name}"? Reports already analyzed with it are kept.`)) return;
+    onDelete(current.id);
+    select(templates[0]);
+  };
+
+  const isUnsaved = !templates.some(t => t.id === draft.id);
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/40 flex items-center justify-center p-4" onClick={() => onClose(currentId)}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Template list */}
+        <div className="w-56 border-r border-slate-100 p-4 flex flex-col">
+          <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-3">Templates</h3>
+          <ul className="space-y-1 flex-1 overflow-y-auto">
+            {templates.map(t => (
+              <li key={t.id}>
+                <button
+                  onClick={() => select(t)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center justify-between transition-colors
+                    ${t.id === draft.id ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}
+                  `}
+                >
+                  <span className="truncate">{t.name}</span>
+                  {t.builtIn && <Lock size={12} className="text-slate-300 flex-shrink-0 ml-2" />}
+                </button>
+              </li>
+            ))}
+            {isUnsaved && (
+              <li className="px-3 py-2 rounded-lg text-sm bg-blue-50 text-blue-700 font-medium truncate">{draft.name || 'Untitled'}</li>
+            )}
+          </ul>
+          <button
+            onClick={() => startNew()}
+            className="mt-3 flex items-center justify-center text-sm font-medium text-blue-600 hover:text-blue-800 py-2 rounded-lg hover:bg-blue-50"
+          >
+            <Plus size={16} className="mr-1" /> New template
+          </button>
+        </div>
+
+        {/* Editor */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex items-center justify-between p-6 pb-4">
+            <h2 className="text-xl font-bold text-slate-800 truncate">{readOnly ? draft.name : isUnsaved ? 'New Template' : 'Edit Template'}</h2>
+            <button onClick={() => onClose(currentId)} className="p-1 text-slate-400 hover:text-slate-700" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 space-y-4">
+            {readOnly && (
+              <p className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                Built-in templates cannot be edited. Duplicate this one to customize it.
+              </p>
+            )}
+
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Name</label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={readOnly}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Instructions for the model</label>
+              <textarea
+                value={draft.instructions}
+                onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                disabled={readOnly}
+                rows={3}
+                placeholder="e.g. This is a sales call. Focus on objections and next steps."
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-2">Custom fields</label>
+              {draft.fields.length === 0 && (
+                <p className="text-sm text-slate-400 italic mb-2">Only the standard summary, sentiment, action items and insights.</p>
+              )}
+              <ul className="space-y-3">
+                {draft.fields.map((field, idx) => (
+                  <li key={idx} className="border border-slate-100 rounded-xl p-3 bg-slate-50/50">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        value={field.label}
+                        onChange={(e) => updateField(idx, { label: e.target.value })}
+                        disabled={readOnly}
+                        placeholder="Label"
+                        className={inputClass}
+                      />
+                      <select
+                        value={field.type}
+                        onChange={(e) => updateField(idx, { type: e.target.value as CustomFieldType })}
+                        disabled={readOnly}
+                        className="border border-slate-200 rounded-lg px-2 py-2 text-sm bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {FIELD_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                      </select>
+                      {!readOnly && (
+                        <button
+                          onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, i) => i !== idx) })}
+                          className="p-2 text-slate-400 hover:text-red-600"
+                          aria-label={`Remove ${field.label || 'field'}`}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                    <input
+                      value={field.description}
+                      onChange={(e) => updateField(idx, { description: e.target.value })}
+                      disabled={readOnly}
+                      placeholder="What should the model extract?"
+                      className={`${inputClass} mt-2`}
+                    />
+                    {field.type === 'enum' && (
+                      <input
+                        value={field.optionsText}
+                        onChange={(e) => updateField(idx, { optionsText: e.target.value })}
+                        disabled={readOnly}
+                        placeholder="Options, separated by commas"
+                        className={`${inputClass} mt-2`}
+                      />
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {!readOnly && (
+                <button
+                  onClick={() => setDraft({ ...draft, fields: [...draft.fields, { label: '', type: 'text', description: '', optionsText: '' }] })}
+                  className="mt-3 flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  <Plus size={16} className="mr-1" /> Add field
+                </button>
+              )}
+            </div>
+
+            {problems.length > 0 && (
+              <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm">
+                <div className="flex items-center font-medium mb-1">
+                  <AlertCircle size={16} className="mr-2" /> The template cannot be saved yet
+                </div>
+                <ul className="ml-6 space-y-0.5 text-xs list-disc">
+                  {problems.map((p, idx) => <li key={idx}>{p}</li>)}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between p-6 pt-4 border-t border-slate-100 mt-4">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => startNew(fromDraft(draft))}
+                className="flex items-center text-sm text-slate-600 hover:text-slate-900 px-3 py-2 rounded-lg hover:bg-slate-50"
+              >
+                <Copy size={14} className="mr-1.5" /> Duplicate
+              </button>
+              {!current.builtIn && !isUnsaved && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center text-sm text-red-600 hover:text-red-800 px-3 py-2 rounded-lg hover:bg-red-50"
+                >
+                  <Trash2 size={14} className="mr-1.5" /> Delete
+                </button>
+              )}
+            </div>
+            {!readOnly && (
+              <button
+                onClick={handleSave}
+                className="py-2 px-5 rounded-xl font-medium text-white bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-500/20"
+              >
+                Save Template
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
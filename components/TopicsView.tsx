@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Tags, ChevronDown, ChevronRight, TrendingUp, TrendingDown, Minus, Quote, FileAudio } from 'lucide-react';
+import { LineChart, Line, ResponsiveContainer, Tooltip } from 'recharts';
+import { CallRecord, TopicKind } from '../types';
+import { DateRange, Granularity, GRANULARITY_LABELS, RangePreset, resolveRange, suggestGranularity } from '../services/analytics';
+import { buildTopicOverview, formatTopicLabel, TopicCluster, TOPIC_KIND_LABELS } from '../services/topics';
+import { formatTimestamp } from '../services/transcript';
+import RangeControls from './RangeControls';
+
+interface TopicsViewProps {
+  calls: CallRecord[];
+  onViewDetails: (call: CallRecord) => void;
+}
+
+export const TOPIC_KIND_STYLES: Record<TopicKind, string> = {
+  issue: 'bg-red-50 text-red-700',
+  request: 'bg-blue-50 text-blue-700',
+  question: 'bg-amber-50 text-amber-700',
+  praise: 'bg-green-50 text-green-700',
+  other: 'bg-slate-100 text-slate-600',
+};
+
+const TopicsView: React.FC<TopicsViewProps> = ({ calls, onViewDetails }) => {
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30d');
+  const [customRange, setCustomRange] = useState<Partial<DateRange>>({});
+  const [granularityChoice, setGranularityChoice] = useState<Granularity | null>(null);
+  const [kindFilter, setKindFilter] = useState<TopicKind | 'all'>('all');
+  // Themes from a single call are not recurring yet, so they are hidden unless asked for
+  const [recurringOnly, setRecurringOnly] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const range = resolveRange(rangePreset, customRange, calls);
+  const granularity = granularityChoice || suggestGranularity(range);
+  const overview = buildTopicOverview(calls, range, granularity);
+  const clusters = overview.clusters.filter(c =>
+    (kindFilter === 'all' || c.kind === kindFilter) && (!recurringOnly || c.callCount > 1));
+  const period = GRANULARITY_LABELS[granularity].toLowerCase();
+
+  const renderChange = (cluster: TopicCluster) => {
+    if (cluster.change === 0) {
+      return <span className="flex items-center text-slate-400"><Minus size={14} className="mr-1" /> No change</span>;
+    }
+    const up = cluster.change > 0;
+    return (
+      <span className={`flex items-center ${up ? 'text-red-600' : 'text-green-600'}`} title={`Calls this ${period} compared with the previous ${period}`}>
+        {up ? <TrendingUp size={14} className="mr-1" /> : <TrendingDown size={14} className="mr-1" />}
+        {up ? '+' : ''}{cluster.change} vs last {period}
+      </span>
+    );
+  };
+
+  const renderMentions = (cluster: TopicCluster) => {
+    // One entry per call, with every quote the call gave for this theme
+    const byCall = new Map<string, { call: CallRecord; quotes: { quote: string; start?: number }[] }>();
+    cluster.mentions.forEach(({ call, topic }) => {
+      if (!byCall.has(call.id)) byCall.set(call.id, { call, quotes: [] });
+      byCall.get(call.id)!.quotes.push(...topic.evidence);
+    });
+    return (
+      <div className="mt-4 border-t border-slate-100 pt-4 space-y-4">
+        {cluster.labels.length > 1 && (
+          <p className="text-xs text-slate-500">Also labelled: {cluster.labels.slice(1).join(', ')}</p>
+        )}
+        {[...byCall.values()].map(({ call, quotes }) => (
+          <div key={call.id}>
+            <button
+              onClick={() => onViewDetails(call)}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800 max-w-full"
+            >
+              <FileAudio size={14} className="mr-1.5 flex-shrink-0" />
+              <span className="truncate">{call.fileName}</span>
+              <span className="ml-2 text-xs text-slate-400 flex-shrink-0">{new Date(call.timestamp).toLocaleDateString()}</span>
+            </button>
+            {quotes.length > 0 && (
+              <ul className="mt-1 ml-5 space-y-1">
+                {quotes.map((evidence, idx) => (
+                  <li key={idx} className="flex items-start text-xs text-slate-500">
+                    <Quote size={12} className="mr-1.5 mt-0.5 flex-shrink-0 text-slate-300" />
+                    <span className="italic">"{evidence.quote}"</span>
+                    {evidence.start !== undefined && (
+                      <span className="ml-2 font-mono flex-shrink-0">{formatTimestamp(evidence.start)}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      <header className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-800">Topics</h1>
+          <p className="text-slate-500">Themes that come up again and again across your calls.</p>
+        </div>
+        <RangeControls
+          preset={rangePreset}
+          customRange={customRange}
+          range={range}
+          granularity={granularity}
+          onPresetChange={setRangePreset}
+          onCustomRangeChange={setCustomRange}
+          onGranularityChange={setGranularityChoice}
+        />
+      </header>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(['all', ...Object.keys(TOPIC_KIND_LABELS)] as (TopicKind | 'all')[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => setKindFilter(kind)}
+            className={`px-3 py-1 rounded-full border transition-colors
+              ${kindFilter === kind ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}
+            `}
+          >
+            {kind === 'all' ? 'All kinds' : TOPIC_KIND_LABELS[kind]}
+          </button>
+        ))}
+        <label className="ml-2 flex items-center text-slate-600 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={recurringOnly}
+            onChange={(e) => setRecurringOnly(e.target.checked)}
+            className="mr-2 w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Only themes in more than one call
+        </label>
+      </div>
+
+      <p className="text-sm text-slate-500">
+        {clusters.length} {clusters.length === 1 ? 'theme' : 'themes'} across {overview.callsWithTopics} analyzed {overview.callsWithTopics === 1 ? 'call' : 'calls'}
+        {overview.callsWithoutTopics > 0 && ` (${overview.callsWithoutTopics} older ${overview.callsWithoutTopics === 1 ? 'call has' : 'calls have'} no topics; analyze again to include them)`}
+      </p>
+
+      {clusters.length === 0 ? (
+        <div className="bg-white p-12 rounded-2xl shadow-sm border border-slate-100 text-center text-slate-400">
+          <Tags className="mx-auto mb-3" />
+          <p>No {recurringOnly ? 'recurring ' : ''}themes in this date range.</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {clusters.map(cluster => {
+            const isOpen = expanded === cluster.key;
+            return (
+              <li key={cluster.key} className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={() => setExpanded(isOpen ? null : cluster.key)}
+                    className="flex items-center flex-1 min-w-0 text-left"
+                  >
+                    {isOpen ? <ChevronDown size={18} className="mr-2 text-slate-400 flex-shrink-0" /> : <ChevronRight size={18} className="mr-2 text-slate-400 flex-shrink-0" />}
+                    <span className="font-semibold text-slate-800 truncate">{formatTopicLabel(cluster.label)}</span>
+                    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${TOPIC_KIND_STYLES[cluster.kind]}`}>
+                      {TOPIC_KIND_LABELS[cluster.kind]}
+                    </span>
+                  </button>
+                  <div className="hidden md:block w-32 h-8 flex-shrink-0">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={cluster.series}>
+                        <Tooltip
+                          labelFormatter={(_: any, payload: any) => payload?.[0]?.payload?.label}
+                          formatter={(value: any) => [value, 'Calls']}
+                          contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 12 }}
+                        />
+                        <Line type="monotone" dataKey="calls" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="w-40 flex-shrink-0 text-xs">{renderChange(cluster)}</div>
+                  <div className="w-28 flex-shrink-0 text-right">
+                    <p className="text-sm font-semibold text-slate-800">{cluster.callCount} {cluster.callCount === 1 ? 'call' : 'calls'}</p>
+                    <div className="mt-1 h-1.5 bg-slate-100 rounded-full overflow-hidden" title={`${Math.round(cluster.share * 100)}% of calls`}>
+                      <div className="h-full bg-indigo-500" style={{ width: `${cluster.share * 100}%` }}></div>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-0.5">{Math.round(cluster.share * 100)}% of calls</p>
+                  </div>
+                </div>
+                {isOpen && renderMentions(cluster)}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TopicsView;
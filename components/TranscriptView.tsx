@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil, User, Headphones } from 'lucide-react';
+import { SpeakerRole, Utterance } from '../types';
+import { formatTimestamp, listSpeakers } from '../services/transcript';
+
+interface TranscriptViewProps {
+  utterances?: Utterance[];
+  transcript: string; // Shown as-is when there are no utterances (records from before diarization)
+  speakerNames?: Record<string, string>;
+  onRenameSpeaker?: (speaker: string, name: string) => void;
+  activeIndex?: number; // Utterance currently being played back
+  onSeek?: (seconds: number) => void;
+}
+
+const roleStyles: Record<SpeakerRole, { bubble: string; badge: string }> = {
+  agent: { bubble: 'bg-blue-50 border-blue-100', badge: 'bg-blue-100 text-blue-700' },
+  customer: { bubble: 'bg-white border-slate-200', badge: 'bg-amber-100 text-amber-700' },
+  unknown: { bubble: 'bg-slate-50 border-slate-200', badge: 'bg-slate-200 text-slate-600' },
+};
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({
+  utterances,
+  transcript,
+  speakerNames = {},
+  onRenameSpeaker,
+  activeIndex = -1,
+  onSeek,
+}) => {
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the playing utterance in view without scrolling the rest of the page
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = container?.querySelector<HTMLElement>(`[data-utterance="${activeIndex}"]`);
+    if (!container || !active) return;
+    const top = active.offsetTop; // The container is positioned, so this is relative to it
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  if (!utterances || utterances.length === 0) {
+    return (
+      <div className="bg-slate-50 p-6 rounded-xl border border-slate-100 max-h-[500px] overflow-y-auto whitespace-pre-wrap text-slate-700 leading-relaxed text-sm font-mono">
+          {transcript}
+      </div>
+    );
+  }
+
+  const displayName = (speaker: string) => speakerNames[speaker] || speaker;
+
+  const commitRename = (speaker: string) => {
+    const name = draftName.trim();
+    // An empty name restores the label the model assigned
+    if (name !== (speakerNames[speaker] || '')) onRenameSpeaker?.(speaker, name === speaker ? '' : name);
+    setEditingSpeaker(null);
+  };
+
+  return (
+    <div>
+      {/* Speakers */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {listSpeakers(utterances).map(({ speaker, role }) => (
+          <div key={speaker} className={`flex items-center px-3 py-1 rounded-full text-xs font-medium ${roleStyles[role].badge}`}>
+            {role === 'agent' ? <Headphones size={12} className="mr-1.5" /> : <User size={12} className="mr-1.5" />}
+            {editingSpeaker === speaker ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={() => commitRename(speaker)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(speaker);
+                  if (e.key === 'Escape') setEditingSpeaker(null);
+                }}
+                className="w-28 px-1 bg-white border border-slate-300 rounded text-slate-800 focus:outline-none"
+              />
+            ) : (
+              <>
+                <span>{displayName(speaker)}</span>
+                {onRenameSpeaker && (
+                  <button
+                    onClick={() => {
+                      setEditingSpeaker(speaker);
+                      setDraftName(displayName(speaker));
+                    }}
+                    className="ml-1.5 opacity-60 hover:opacity-100"
+                    title="Rename speaker"
+                  >
+                    <Pencil size={10} />
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Conversation */}
+      <div ref={containerRef} className="relative bg-slate-50 p-4 rounded-xl border border-slate-100 max-h-[500px] overflow-y-auto space-y-3">
+        {utterances.map((u, idx) => (
+          <div key={idx} data-utterance={idx} className={`flex ${u.role === 'agent' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              onClick={onSeek ? () => onSeek(u.start) : undefined}
+              className={`max-w-[85%] p-3 rounded-xl border transition-all ${roleStyles[u.role].bubble}
+                ${onSeek ? 'cursor-pointer hover:shadow-sm' : ''}
+                ${idx === activeIndex ? 'ring-2 ring-blue-400 shadow-sm' : ''}
+              `}
+            >
+              <div className="flex items-center space-x-2 mb-1 text-xs">
+                <span className="font-semibold text-slate-700">{displayName(u.speaker)}</span>
+                <span className="text-slate-400 font-mono">{formatTimestamp(u.start)}</span>
+              </div>
+              <p className="text-sm text-slate-700 leading-relaxed">{u.text}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptView;
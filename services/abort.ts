@@ -0,0 +1,29 @@
+// Small helpers for cooperative cancellation with AbortSignal.
+
+export const createAbortError = (): DOMException => new DOMException('Analysis cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === 'AbortError' : (error as any)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// setTimeout that rejects early when the signal fires
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
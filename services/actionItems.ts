@@ -0,0 +1,113 @@
+import { ActionItem, CallRecord } from "../types";
+
+// Helpers for structured action items and the cross-call task board.
+
+// --- Dates ---
+// Due dates are calendar days (YYYY-MM-DD) in the user's local time zone.
+
+export const toDateString = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const addDays = (day: string, days: number): string => {
+  const [y, m, d] = day.split('-').map(Number);
+  return toDateString(new Date(y, m - 1, d + days));
+};
+
+// Accepts YYYY-MM-DD or anything Date can parse; undefined when the value is not a date
+export const parseDueDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return date.getMonth() === Number(iso[2]) - 1 ? toDateString(date) : undefined;
+  }
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? undefined : toDateString(parsed);
+};
+
+export const formatDueDate = (day: string): string => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export type DueBucket = 'overdue' | 'today' | 'week' | 'later' | 'none';
+
+export const getDueBucket = (item: ActionItem, today = toDateString(new Date())): DueBucket => {
+  if (!item.dueDate) return 'none';
+  if (item.dueDate < today) return 'overdue';
+  if (item.dueDate === today) return 'today';
+  if (item.dueDate <= addDays(today, 7)) return 'week';
+  return 'later';
+};
+
+// --- Records ---
+
+// Items are numbered within their call; combined with sourceCallId they are unique across the library
+export const numberActionItems = (items: Omit<ActionItem, 'id'>[]): ActionItem[] =>
+  items.map((item, idx) => ({ ...item, id: `item-${idx + 1}` }));
+
+export const withSourceCall = (items: ActionItem[], callId: string): ActionItem[] =>
+  items.map(item => ({ ...item, sourceCallId: callId }));
+
+// Records saved before action items were structured hold plain strings
+export const upgradeCallRecord = (record: CallRecord): CallRecord => {
+  const items = record.analysis?.actionItems as unknown[] | undefined;
+  if (!record.analysis || !items || !items.some(item => typeof item === 'string')) return record;
+  const upgraded = numberActionItems(items.map(item => (typeof item === 'string'
+    ? { text: item, status: 'open' as const, sourceCallId: record.id }
+    : item as ActionItem)));
+  return { ...record, analysis: { ...record.analysis, actionItems: upgraded } };
+};
+
+export const setActionItemStatus = (call: CallRecord, itemId: string, done: boolean): CallRecord => {
+  if (!call.analysis) return call;
+  return {
+    ...call,
+    analysis: {
+      ...call.analysis,
+      actionItems: call.analysis.actionItems.map(item => (item.id === itemId
+        ? { ...item, status: done ? 'done' : 'open', completedAt: done ? Date.now() : undefined }
+        : item)),
+    },
+  };
+};
+
+// --- Task Board ---
+
+export interface BoardItem {
+  item: ActionItem;
+  call: CallRecord;
+}
+
+export const collectActionItems = (calls: CallRecord[]): BoardItem[] =>
+  calls
+    .filter(call => call.status === 'completed' && call.analysis)
+    .flatMap(call => call.analysis!.actionItems.map(item => ({ item, call })));
+
+export const countActionItems = (calls: CallRecord[]): { open: number; done: number } => {
+  const items = collectActionItems(calls);
+  const done = items.filter(b => b.item.status === 'done').length;
+  return { open: items.length - done, done };
+};
+
+// Owners as named in the calls, compared case-insensitively
+export const listOwners = (items: BoardItem[]): string[] => {
+  const owners = new Map<string, string>();
+  items.forEach(({ item }) => {
+    if (item.owner && !owners.has(item.owner.toLowerCase())) owners.set(item.owner.toLowerCase(), item.owner);
+  });
+  return Array.from(owners.values()).sort((a, b) => a.localeCompare(b));
+};
+
+// Earliest due first; items without a due date last, then newest call first
+export const compareBoardItems = (a: BoardItem, b: BoardItem): number => {
+  if (a.item.dueDate !== b.item.dueDate) {
+    if (!a.item.dueDate) return 1;
+    if (!b.item.dueDate) return -1;
+    return a.item.dueDate < b.item.dueDate ? -1 : 1;
+  }
+  return b.call.timestamp - a.call.timestamp;
+};
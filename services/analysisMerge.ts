@@ -0,0 +1,202 @@
+import { CallAnalysis, CallSentiment, CallTopic, CustomFieldValue, Utterance } from "../types";
+import { numberActionItems } from "./actionItems";
+import { offsetUtterances, utterancesToText } from "./transcript";
+
+// Helpers for combining per-segment analyses of a long call into a single CallAnalysis.
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const normalizeText = (text: string): string =>
+  text.split(/\s+/).map(normalizeWord).filter(Boolean).join(' ');
+
+// Minimum number of matching words before we trust that two transcripts overlap
+const MIN_OVERLAP_WORDS = 4;
+// How far into each transcript we look for the overlapping region
+const OVERLAP_SEARCH_WORDS = 120;
+
+// Joins two transcripts whose audio overlapped, dropping the words of `next` that repeat the tail of `prev`.
+// Segments are cut with a few seconds of shared audio, so the model usually transcribes the same
+// sentence at the end of one segment and the start of the next.
+const stitchPair = (prev: string, next: string): string => {
+  const prevWords = prev.trim().split(/\s+/);
+  const nextWords = next.trim().split(/\s+/);
+  const prevTail = prevWords.slice(-OVERLAP_SEARCH_WORDS).map(normalizeWord);
+  const nextHead = nextWords.slice(0, OVERLAP_SEARCH_WORDS).map(normalizeWord);
+
+  // Longest run where the end of prev equals a prefix of next (starting anywhere in next's head,
+  // since the model may drop a partial word at the cut)
+  let bestEndInNext = 0;
+  let bestLength = 0;
+  for (let start = 0; start < nextHead.length; start++) {
+    for (let len = Math.min(prevTail.length, nextHead.length - start); len > bestLength; len--) {
+      let matches = true;
+      for (let k = 0; k < len; k++) {
+        if (prevTail[prevTail.length - len + k] !== nextHead[start + k]) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches) {
+        bestLength = len;
+        bestEndInNext = start + len;
+        break;
+      }
+    }
+  }
+
+  if (bestLength < MIN_OVERLAP_WORDS) {
+    return `${prev.trim()}\n${next.trim()}`;
+  }
+  const remainder = nextWords.slice(bestEndInNext).join(' ');
+  return remainder ? `${prev.trim()} ${remainder}` : prev.trim();
+};
+
+export const stitchTranscripts = (transcripts: string[]): string => {
+  return transcripts
+    .filter(t => t && t.trim())
+    .reduce((acc, t) => (acc ? stitchPair(acc, t) : t.trim()), '');
+};
+
+const wordSet = (text: string): Set<string> => new Set(normalizeText(text).split(' ').filter(Boolean));
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(w => { if (b.has(w)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+// Removes items that repeat an earlier one, either verbatim or with near-identical wording.
+// When two items are near-duplicates the longer (usually more specific) phrasing is kept.
+export const dedupeBy = <T>(items: T[], getText: (item: T) => string, threshold = 0.75): T[] => {
+  const kept: { item: T; length: number; words: Set<string> }[] = [];
+  for (const item of items) {
+    const text = getText(item).trim();
+    if (!text) continue;
+    const words = wordSet(text);
+    const duplicate = kept.find(k => similarity(k.words, words) >= threshold);
+    if (!duplicate) {
+      kept.push({ item, length: text.length, words });
+    } else if (text.length > duplicate.length) {
+      duplicate.item = item;
+      duplicate.length = text.length;
+      duplicate.words = words;
+    }
+  }
+  return kept.map(k => k.item);
+};
+
+export const dedupeItems = (items: string[], threshold = 0.75): string[] =>
+  dedupeBy(items.map(i => i.trim()), i => i, threshold);
+
+// Most common sentiment across segments; ties favour Negative, then Neutral, so problems are not hidden
+export const majoritySentiment = (sentiments: CallSentiment[]): CallSentiment => {
+  const order = [CallSentiment.NEGATIVE, CallSentiment.NEUTRAL, CallSentiment.POSITIVE];
+  const counts = new Map<CallSentiment, number>();
+  sentiments.forEach(s => counts.set(s, (counts.get(s) || 0) + 1));
+  let best = CallSentiment.NEUTRAL;
+  let bestCount = 0;
+  for (const s of order) {
+    const count = counts.get(s) || 0;
+    if (count > bestCount) {
+      best = s;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+export interface SegmentResult {
+  analysis: CallAnalysis;
+  startTime: number; // seconds from the start of the call
+}
+
+// Places each segment's utterances on the call timeline. Where two segments overlap, the cut is made
+// halfway through the shared audio: earlier utterances come from the previous segment, later ones from the next.
+export const mergeUtterances = (segments: SegmentResult[], overlapSeconds: number): Utterance[] => {
+  const merged: Utterance[] = [];
+  segments.forEach((segment, i) => {
+    const from = i === 0 ? -Infinity : segment.startTime + overlapSeconds / 2;
+    const next = segments[i + 1];
+    const until = next ? next.startTime + overlapSeconds / 2 : Infinity;
+    offsetUtterances(segment.analysis.utterances || [], segment.startTime)
+      .filter(u => u.start >= from && u.start < until)
+      .forEach(u => merged.push(u));
+  });
+  return merged;
+};
+
+export interface ConsolidatedOverview {
+  summary: string;
+  sentiment: CallSentiment;
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+// Fallback when no overview is available: lists are combined, other values come from the latest
+// segment that answered them
+export const mergeCustomFields = (segments: CallAnalysis[]): Record<string, CustomFieldValue> | undefined => {
+  const withFields = segments.filter(s => s.customFields);
+  if (withFields.length === 0) return undefined;
+  const merged: Record<string, CustomFieldValue> = {};
+  withFields.forEach(segment => {
+    Object.entries(segment.customFields!).forEach(([key, value]) => {
+      const previous = merged[key];
+      if (Array.isArray(value)) {
+        merged[key] = dedupeItems([...(Array.isArray(previous) ? previous : []), ...value]);
+      } else if (value !== null || !(key in merged)) {
+        merged[key] = value;
+      }
+    });
+  });
+  return merged;
+};
+
+// Topics with the same label are combined, keeping every segment's evidence on the call timeline
+const mergeTopics = (results: SegmentResult[]): CallTopic[] => {
+  const byLabel = new Map<string, CallTopic>();
+  results.forEach(({ analysis, startTime }) => (analysis.topics || []).forEach(topic => {
+    const evidence = topic.evidence.map(e => (e.start !== undefined ? { ...e, start: e.start + startTime } : e));
+    const existing = byLabel.get(topic.label);
+    byLabel.set(topic.label, { ...topic, evidence: existing ? [...existing.evidence, ...evidence] : evidence });
+  }));
+  return [...byLabel.values()];
+};
+
+// Languages from every segment; the one most segments were mainly in comes first
+const mergeLanguages = (segments: CallAnalysis[]): string[] | undefined => {
+  const primaryCounts = new Map<string, number>();
+  segments.forEach(s => {
+    const main = s.languages?.[0];
+    if (main) primaryCounts.set(main, (primaryCounts.get(main) || 0) + 1);
+  });
+  const all = [...new Set(segments.flatMap(s => s.languages || []))];
+  if (all.length === 0) return undefined;
+  // Stable sort keeps first-heard order among equals
+  return all.sort((a, b) => (primaryCounts.get(b) || 0) - (primaryCounts.get(a) || 0));
+};
+
+// Merges segment analyses in playback order. `overview` comes from a follow-up model pass over the
+// segment summaries; without it the summaries are concatenated and sentiment is decided by vote.
+export const mergeSegmentAnalyses = (
+  results: SegmentResult[],
+  overlapSeconds: number,
+  overview?: ConsolidatedOverview
+): CallAnalysis => {
+  const segments = results.map(r => r.analysis);
+  // Timestamped utterances can be cut exactly; text-only segments fall back to word matching
+  const hasUtterances = segments.every(s => s.utterances && s.utterances.length > 0);
+  const utterances = hasUtterances ? mergeUtterances(results, overlapSeconds) : undefined;
+
+  return {
+    transcript: utterances ? utterancesToText(utterances) : stitchTranscripts(segments.map(s => s.transcript)),
+    utterances,
+    summary: overview?.summary || segments.map(s => s.summary).filter(Boolean).join(' '),
+    sentiment: overview?.sentiment || majoritySentiment(segments.map(s => s.sentiment)),
+    actionItems: numberActionItems(dedupeBy(segments.flatMap(s => s.actionItems || []), item => item.text)),
+    keyInsights: dedupeItems(segments.flatMap(s => s.keyInsights || [])),
+    topics: mergeTopics(results),
+    customFields: overview?.customFields || mergeCustomFields(segments),
+    languages: mergeLanguages(segments),
+  };
+};
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnalysisProgress, AnalysisStage } from "../types";
+import { isAbortError } from "./abort";
+import { ModelClient, Turn } from "./analysisProvider";
+import { analyzeWithClient } from "./analysisPipeline";
+import { decodeAudio, PcmAudio, resampleChannels } from "./audioConversion";
+import { encodeWav } from "./audioEncoding";
+import { MOCK_ANALYSES } from "./mockProvider";
+import { DEFAULT_SETTINGS, settingsStore } from "./settings";
+
+// Workers are not available here; base64 and the mixdown run inline instead. Encoding only produces bytes of the
+// size a compressed format would: silence is nearly free, anything else costs 2 bytes a sample.
+vi.mock("./conversionPool", async () => {
+  const { bytesToBase64, mixToMono } = await import("./audioConversion");
+  return {
+    conversionPool: {
+      toBase64: async (blob: Blob) => bytesToBase64(new Uint8Array(await blob.arrayBuffer())),
+      mixdown: async (audio: Parameters<typeof mixToMono>[0]) => ({ audio: mixToMono(audio), channels: null }),
+      encode: async (audio: PcmAudio) => ({
+        bytes: new ArrayBuffer(Math.ceil(audio.samples.reduce((size, s) => size + (s === 0 ? 0.25 : 2), 0))),
+        audio,
+      }),
+    },
+  };
+});
+
+// Decoding needs an AudioContext; the tests hand the pipeline its PCM directly
+vi.mock("./audioConversion", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./audioConversion")>()),
+  decodeAudio: vi.fn(),
+  resampleChannels: vi.fn(),
+}));
+
+const wavRecording = () => {
+  const bytes = encodeWav({ samples: new Float32Array(1600).map((_, i) => Math.sin(i / 10) * 0.5), sampleRate: 16000 });
+  return new File([bytes], 'call.wav', { type: 'audio/wav', lastModified: new Date(2026, 2, 10, 12).getTime() });
+};
+
+// What a model returns for the first offline fixture, with due dates written out
+const fixtureReply = (): string => {
+  const { transcript, actionItems, ...fixture } = MOCK_ANALYSES[0];
+  return JSON.stringify({
+    ...fixture,
+    actionItems: actionItems.map(({ dueInDays, ...item }) => ({ ...item, dueDate: dueInDays === undefined ? null : '2026-03-17' })),
+  });
+};
+
+const createClient = (generate: ModelClient['generate'], acceptedType = 'audio/wav'): ModelClient => ({
+  model: 'test-model',
+  acceptsAudioType: (mimeType) => mimeType === acceptedType,
+  generate,
+  checkConnection: async () => {},
+});
+
+describe('analyzeWithClient', () => {
+  it('sends a small WAV file as it is and validates the reply', async () => {
+    const generate = vi.fn(async () => fixtureReply());
+    const stages: AnalysisStage[] = [];
+    const analysis = await analyzeWithClient(createClient(generate), wavRecording(), {
+      outputLanguage: 'en',
+      onProgress: (p) => stages.push(p.stage),
+    });
+
+    expect(stages).toEqual(['uploading', 'waiting', 'parsing']);
+    expect(analysis.summary).toBe(MOCK_ANALYSES[0].summary);
+    expect(analysis.actionItems[0].dueDate).toBe('2026-03-17');
+    const [turn] = generate.mock.calls[0] as unknown as [{ parts: any[] }[]];
+    expect(turn[0].parts[0].inlineData.mimeType).toBe('audio/wav');
+  });
+
+  it('asks the model to correct a reply that fails validation', async () => {
+    const generate = vi.fn()
+      .mockResolvedValueOnce(JSON.stringify({ summary: 'Incomplete' }))
+      .mockResolvedValueOnce(fixtureReply());
+    const stages: AnalysisStage[] = [];
+    await analyzeWithClient(createClient(generate), wavRecording(), { outputLanguage: 'en', onProgress: (p) => stages.push(p.stage) });
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(stages.filter(s => s === 'parsing')).toHaveLength(2);
+  });
+
+  it('rejects with an AbortError when cancelled during the request', async () => {
+    const controller = new AbortController();
+    const generate = vi.fn(async (_contents, _schema, signal?: AbortSignal) => {
+      controller.abort();
+      signal?.throwIfAborted();
+      return fixtureReply();
+    });
+    const result = analyzeWithClient(createClient(generate), wavRecording(), { signal: controller.signal, outputLanguage: 'en' });
+    await expect(result).rejects.toSatisfy(isAbortError);
+  });
+
+  it('does not start when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const generate = vi.fn(async () => fixtureReply());
+    await expect(analyzeWithClient(createClient(generate), wavRecording(), { signal: controller.signal })).rejects.toSatisfy(isAbortError);
+    expect(generate).not.toHaveBeenCalled();
+  });
+});
+
+describe('analyzeWithClient: long calls', () => {
+  afterEach(() => settingsStore.reset());
+
+  it('splits again when a segment encodes larger than the call average', async () => {
+    settingsStore.save({ ...DEFAULT_SETTINGS, maxInlineMB: 1 });
+    // Two minutes of silence, then a minute that does not compress: the average suggests 62s
+    // segments, but the third of those overflows the 1MB limit
+    const rate = DEFAULT_SETTINGS.targetSampleRate;
+    const samples = new Float32Array(180 * rate);
+    samples.fill(0.1, 120 * rate);
+    vi.mocked(decodeAudio).mockResolvedValue({} as AudioBuffer);
+    vi.mocked(resampleChannels).mockResolvedValue({ channels: [samples], sampleRate: rate });
+
+    const uploads: number[] = [];
+    const generate = vi.fn(async (contents: Turn[]) => {
+      const audio = contents[0].parts.find(p => 'inlineData' in p);
+      if (!audio || !('inlineData' in audio)) return JSON.stringify({ summary: 'Overall', sentiment: MOCK_ANALYSES[0].sentiment });
+      uploads.push(atob(audio.inlineData.data).length);
+      return fixtureReply();
+    });
+    const progress: AnalysisProgress[] = [];
+    await analyzeWithClient(createClient(generate, 'audio/flac'), wavRecording(), {
+      encoding: 'flac',
+      outputLanguage: 'en',
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(uploads).toHaveLength(7);
+    expect(uploads.every(size => size <= 1024 * 1024)).toBe(true);
+    const uploading = progress.filter(p => p.stage === 'uploading').map(p => p.segment);
+    expect(uploading.map(s => s?.index)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    // Planned as four 62s segments; from the third on, as 26s segments
+    expect(uploading.map(s => s?.total)).toEqual([4, 4, 7, 7, 7, 7, 7]);
+  });
+});
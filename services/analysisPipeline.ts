@@ -0,0 +1,645 @@
+import { Schema } from "@google/genai";
+import {
+  AnalysisProgress,
+  AnalysisStage,
+  AnalysisTemplate,
+  CallAnalysis,
+  CallAnswer,
+  ChatMessage,
+  CustomFieldDefinition,
+  Scorecard,
+  ScorecardResult,
+} from "../types";
+import { abortableDelay, isAbortError, throwIfAborted } from "./abort";
+import { ConsolidatedOverview, mergeSegmentAnalyses, SegmentResult } from "./analysisMerge";
+import {
+  AnalysisValidationError,
+  ANSWER_SCHEMA,
+  buildCallAnalysisSchema,
+  buildCorrectionPrompt,
+  buildOverviewSchema,
+  buildScorecardSchema,
+  FieldError,
+  PII_SCHEMA,
+  validateAnswer,
+  validateCallAnalysis,
+  validateOverview,
+  validatePiiEntities,
+  validateScorecardScores,
+  ValidationResult,
+} from "./analysisSchema";
+import { AnalyzeAudioOptions, AskOptions, ContentPart, ModelClient, Turn } from "./analysisProvider";
+import {
+  AudioSegment,
+  decodeAudio,
+  PcmAudio,
+  pcmDuration,
+  resampleChannels,
+  SEGMENT_OVERLAP_SECONDS,
+  splitIntoSegments,
+} from "./audioConversion";
+import { AudioEncoding, DEFAULT_ENCODING, encodingInfo, encodingSampleRate } from "./audioEncoding";
+import {
+  attributeSpeakersByChannel,
+  ChannelActivity,
+  hasPreprocessing,
+  PreprocessingOptions,
+  remapAnalysisTimes,
+  TimeMap,
+} from "./audioPreprocessing";
+import { conversionPool } from "./conversionPool";
+import { describeFormat, detectAudioFormat, needsConversion, UnsupportedFormatError } from "./audioFormat";
+import { toDateString } from "./actionItems";
+import { AUTO_LANGUAGE, languageName } from "./languages";
+import { AppSettings, settingsStore } from "./settings";
+import { formatQuestionSource, QuestionSource } from "./callQA";
+import { collectAnalysisText, PiiCandidate, RedactionOptions, redactAnalysis } from "./redaction";
+import { computeOverallScore, SCALE_LABELS } from "./scorecards";
+import { formatTimestamp, utterancesToText } from "./transcript";
+
+// Provider-independent analysis flow: conversion, long-call segmentation, prompting,
+// retries and validation. Model clients only supply the request itself.
+
+// Segments fill at most this share of the inline limit, leaving room for the prompt and encoding
+const SEGMENT_FILL = 0.8;
+// Bounds on segment length whatever the limit and sample rate; 4 minutes of 16kHz mono is ~7.7MB.
+// The minimum must exceed SEGMENT_OVERLAP_SECONDS and fits 1MB even at 24kHz.
+const MIN_SEGMENT_SECONDS = 20;
+const MAX_SEGMENT_SECONDS = 240;
+
+const cleanAndParseJSON = (text: string): any => {
+  const codeBlockRegex = /```(?:json)?\s*([\s\S]*?)\s*```/;
+  const match = text.match(codeBlockRegex);
+  const cleanText = match ? match[1] : text;
+  return JSON.parse(cleanText);
+};
+
+const ANALYSIS_PROMPT = `
+    You are an expert Call Analyst AI (CallBrain). 
+    Listen to the provided audio file.
+    Your task is to return a raw JSON object with this structure:
+    {
+      "languages": ["es", "en"],
+      "utterances": [
+        { "speaker": "Agent", "role": "agent", "start": 0.0, "end": 4.5, "text": "What was said...", "translation": null, "sentiment": 0.2 },
+        { "speaker": "Customer", "role": "customer", "start": 4.5, "end": 9.1, "text": "Lo que se respondió...", "translation": "The reply...", "sentiment": -0.6 }
+      ],
+      "summary": "Concise summary...",
+      "sentiment": "Positive | Neutral | Negative",
+      "actionItems": [
+        { "text": "Todo 1", "owner": "Agent", "dueDate": "2025-01-31" },
+        { "text": "Todo 2", "owner": null, "dueDate": null }
+      ],
+      "keyInsights": ["Insight 1", "Insight 2"],
+      "topics": [
+        { "label": "duplicate billing charge", "kind": "issue", "evidence": [{ "quote": "I was charged twice", "start": 5.2 }] }
+      ]
+    }
+    
+    "languages" lists the languages spoken as ISO 639-1 codes, the main language first.
+    "utterances" is the full transcript split into speaker turns, in order.
+    "text" is exactly what was said, in the language it was spoken. Never translate it.
+    "translation" is the English translation of "text" when the turn was not spoken in English, otherwise null.
+    "start" and "end" are seconds from the beginning of the audio.
+    "role" is "agent" for the company representative, "customer" for the caller or prospect, or "unknown".
+    Label speakers "Agent" and "Customer" when their role is clear; otherwise use "Speaker 1", "Speaker 2", etc.
+    "sentiment" on each utterance scores its tone from -1 (angry, frustrated) through 0 (neutral) to 1 (happy, satisfied), judged from both the words and the voice.
+    "owner" is who committed to or was assigned the action item, by name if one is given, otherwise the speaker label; null if unclear.
+    "dueDate" is the deadline as YYYY-MM-DD when one is stated, otherwise null.
+    "topics" lists the one to five themes the call was about. Each "label" is a short, generic, lower-case English noun phrase
+    (for example "password reset", "price increase", "delivery delay"), always in English so the same theme can be matched across calls.
+    "kind" is "issue", "request", "question", "praise" or "other". "evidence" quotes the transcript where the theme comes up.
+    Do not wrap in markdown. Return raw JSON.
+  `;
+
+const FIELD_TYPE_HINTS: Record<CustomFieldDefinition['type'], string> = {
+  text: 'string',
+  list: 'list of strings',
+  number: 'number',
+  enum: 'string',
+  boolean: 'true or false',
+};
+
+const describeCustomFields = (fields: CustomFieldDefinition[]): string => fields
+  .map(f => {
+    const type = f.type === 'enum' ? `one of ${(f.options || []).map(o => `"${o}"`).join(', ')}` : FIELD_TYPE_HINTS[f.type];
+    return `- "${f.key}" (${type}): ${f.description}`;
+  })
+  .join('\n    ');
+
+// Which language the written parts of the analysis (not the transcript) should be in
+const describeOutputLanguage = (outputLanguage: string): string => (outputLanguage === AUTO_LANGUAGE
+  ? 'Write the summary, action items, insights and any other text you produce in the main language of the call.'
+  : `Write the summary, action items, insights and any other text you produce in ${languageName(outputLanguage)}, whatever language the call is in.`);
+
+// The base prompt extended with the recording date (for relative deadlines), the output language and
+// the template's instructions and custom fields
+const buildAnalysisPrompt = (recordedOn: string, outputLanguage: string, template?: AnalysisTemplate): string => `
+    ${ANALYSIS_PROMPT}
+    The recording was made on ${recordedOn}. Resolve relative deadlines such as "by Friday" against that date.
+    ${describeOutputLanguage(outputLanguage)}
+    ${template?.instructions.trim() || ''}
+    ${template && template.fields.length > 0 ? `Also include a "customFields" object with the following properties. Use null for any the call does not answer.
+    ${describeCustomFields(template.fields)}` : ''}
+  `;
+
+const buildSegmentPrompt = (basePrompt: string, segment: AudioSegment, totalSegments: number): string => `
+    ${basePrompt}
+    This audio is segment ${segment.index + 1} of ${totalSegments} from a longer call, covering ${formatTimestamp(segment.startTime)} to ${formatTimestamp(segment.endTime)}.
+    Utterance times must be relative to the start of this segment, not the whole call.
+    ${segment.index > 0 ? `The first ${SEGMENT_OVERLAP_SECONDS} seconds repeat the end of the previous segment.` : ''}
+    Transcribe everything you hear in this segment, including the start and end even if a sentence is cut off.
+    Summarize, list action items and insights for this segment only.
+  `;
+
+const buildConsolidationPrompt = (segments: CallAnalysis[], fields: CustomFieldDefinition[], outputLanguage: string): string => `
+    You are an expert Call Analyst AI (CallBrain).
+    A long call was analyzed in ${segments.length} consecutive segments. Here are the per-segment results:
+    ${JSON.stringify(segments.map((s, i) => ({ segment: i + 1, summary: s.summary, sentiment: s.sentiment, customFields: s.customFields })))}
+
+    Write one summary for the whole call and choose the overall sentiment.
+    ${describeOutputLanguage(outputLanguage)}
+    Return a raw JSON object with this structure:
+    {
+      "summary": "Concise summary of the whole call...",
+      "sentiment": "Positive | Neutral | Negative"${fields.length > 0 ? `,
+      "customFields": { ... }` : ''}
+    }
+    ${fields.length > 0 ? `"customFields" holds the final value of each field for the whole call, combining the segment values. Use null when no segment answers it.
+    ${describeCustomFields(fields)}` : ''}
+
+    Do not wrap in markdown. Return raw JSON.
+  `;
+
+const buildScoringPrompt = (analysis: CallAnalysis, scorecard: Scorecard, outputLanguage: string): string => `
+    You are an expert call center quality analyst.
+    Grade the agent in the call transcript below against each criterion of the "${scorecard.name}" scorecard.
+
+    Criteria:
+    ${scorecard.criteria.map(c => `- "${c.id}" ${c.name} (${SCALE_LABELS[c.scale]}): ${c.description}`).join('\n    ')}
+
+    For each criterion return an object keyed by its id with:
+    "score": 1 for pass or 0 for fail on Pass / Fail criteria, 1 (poor) to 5 (excellent) on 1–5 criteria, or null if the criterion did not apply to this call,
+    "justification": one or two sentences explaining the score,
+    "evidence": up to three exact quotes from the transcript supporting the score, each as { "quote": "...", "start": seconds }.
+    Use the [m:ss] timestamps in the transcript for "start".
+    Quote the transcript as written. ${describeOutputLanguage(outputLanguage)}
+
+    Transcript:
+    ${analysis.utterances?.length ? utterancesToText(analysis.utterances) : analysis.transcript}
+
+    Do not wrap in markdown. Return raw JSON.
+  `;
+
+const buildPiiPrompt = (texts: string[]): string => `
+    You are a data protection assistant.
+    Find every piece of personal information in the call analysis text below: people's names (not company or product names),
+    phone numbers, email addresses, postal addresses, card and bank account numbers, social security and other ID numbers,
+    and dates of birth. Include numbers that were spoken as words, such as "four one one one".
+
+    Return a raw JSON object: { "entities": [{ "type": "person", "text": "..." }] }
+    "type" is one of: card, bank_account, ssn, phone, email, address, person, date_of_birth, id_number.
+    "text" must be copied exactly as it appears, so it can be found and replaced. List each distinct value once.
+    Do not list speaker labels such as "Agent", "Customer" or "Speaker 2".
+
+    Text:
+    ${texts.join('\n')}
+
+    Do not wrap in markdown. Return raw JSON.
+  `;
+
+// Earlier chat turns repeated to the model so follow-ups like "and who promised that?" make sense
+const HISTORY_TURNS = 6;
+
+const buildQuestionPrompt = (question: string, sources: QuestionSource[], history: ChatMessage[]): string => {
+  const earlier = history.filter(m => !m.failed).slice(-HISTORY_TURNS);
+  return `
+    Answer a question about recorded customer calls using only the call material below.
+    Each transcript line starts with a reference such as [C1#12 3:04]: the call label, then the line number after "#", then the time.
+    Support the answer with citations: the call label as "source", the line number as "line" and the exact words from that line as "quote".
+    If the material does not answer the question, say so plainly and return no citations. Do not guess.
+    Answer in the language of the question, in one to three sentences unless a list is asked for.
+    Placeholders such as [EMAIL_1] stand for redacted personal information; never guess what they hide.
+    ${earlier.length > 0 ? `
+    Conversation so far:
+    ${earlier.map(m => `${m.role === 'user' ? 'Question' : 'Answer'}: ${m.text}`).join('\n    ')}
+    ` : ''}
+    Question: ${question}
+
+    ${sources.map(formatQuestionSource).join('\n\n')}
+
+    Return JSON: { "answer": "...", "citations": [{ "source": "C1", "line": 12, "quote": "..." }] }
+    Do not wrap in markdown. Return raw JSON.
+  `;
+};
+
+// How many times a response that parses but fails validation is sent back to the model for correction
+const MAX_CORRECTIONS = 2;
+
+// Per-analysis state threaded through every step
+interface PipelineContext {
+  client: ModelClient;
+  signal?: AbortSignal;
+  segment?: { index: number; total: number }; // Set while analyzing one segment of a long call
+  recordedOn: string; // YYYY-MM-DD
+  outputLanguage: string; // ISO 639-1 code, or AUTO_LANGUAGE
+  template?: AnalysisTemplate;
+  preprocessing?: PreprocessingOptions;
+  encoding: AudioEncoding; // Already checked against what the client accepts
+  settings: AppSettings; // Snapshot taken when the analysis started
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+const inlineLimitBytes = (settings: AppSettings): number => settings.maxInlineMB * 1024 * 1024;
+
+// Longest segment whose encoded audio stays well inside the inline limit
+const segmentSeconds = (settings: AppSettings, bytesPerSecond: number): number => {
+  const seconds = Math.floor(inlineLimitBytes(settings) * SEGMENT_FILL / bytesPerSecond);
+  return Math.max(MIN_SEGMENT_SECONDS, Math.min(MAX_SEGMENT_SECONDS, seconds));
+};
+
+// How many segments a converted recording of this size and length is analyzed in; 1 when it fits
+// a single request. Used for the estimate shown before an upload starts.
+export const estimateSegmentCount = (bytes: number, seconds: number, settings: AppSettings): number => {
+  if (bytes <= inlineLimitBytes(settings) || seconds <= 0) return 1;
+  const length = segmentSeconds(settings, bytes / seconds);
+  return Math.max(1, Math.ceil((seconds - SEGMENT_OVERLAP_SECONDS) / (length - SEGMENT_OVERLAP_SECONDS)));
+};
+
+const report = (ctx: PipelineContext, stage: AnalysisStage, message: string, extra: Partial<AnalysisProgress> = {}) => {
+  ctx.onProgress?.({ stage, message, segment: ctx.segment, ...extra });
+};
+
+const withPercent = (message: string, fraction: number): string => `${message} ${Math.round(fraction * 100)}%`;
+
+// Local steps in the conversion worker report their progress under the converting stage
+const converting = (ctx: PipelineContext, message: string) => {
+  report(ctx, 'converting', message);
+  return { signal: ctx.signal, onProgress: (fraction: number) => report(ctx, 'converting', withPercent(message, fraction)) };
+};
+
+// Encodes in the chosen format in the conversion worker; the audio is handed back for further use
+const encodeForUpload = async (ctx: PipelineContext, audio: PcmAudio, message: string): Promise<{ blob: Blob; audio: PcmAudio }> => {
+  const encoded = await conversionPool.encode(audio, ctx.encoding, converting(ctx, message));
+  return { blob: new Blob([encoded.bytes], { type: encodingInfo(ctx.encoding).mimeType }), audio: encoded.audio };
+};
+
+// Sends a request and returns the raw reply text, retrying transient server errors with exponential backoff
+const generateText = async (ctx: PipelineContext, contents: Turn[], responseSchema: Schema): Promise<string> => {
+  const { client, signal } = ctx;
+  const { maxAttempts: maxRetries, retryBaseDelayMs } = ctx.settings;
+  let attempt = 0;
+
+  while (attempt < maxRetries) {
+    throwIfAborted(signal);
+    try {
+      report(ctx, 'waiting', `Waiting for ${client.model}...`, { attempt: attempt + 1, maxAttempts: maxRetries });
+      const text = await client.generate(contents, responseSchema, signal);
+
+      if (text) {
+        return text;
+      } else {
+        throw new Error(`Empty response from ${client.model}`);
+      }
+    } catch (error: any) {
+      // Cancellation surfaces as whatever the transport throws; report it as a plain AbortError
+      throwIfAborted(signal);
+      if (isAbortError(error)) throw error;
+      console.error(`Attempt ${attempt + 1} Failed:`, error);
+      
+      const isRetryable = error.message?.includes('500') || error.message?.includes('503') || error.status === 500 || error.status === 503;
+      
+      if (isRetryable && attempt < maxRetries - 1) {
+        const delay = retryBaseDelayMs * Math.pow(2, attempt);
+        attempt++;
+        report(ctx, 'retrying', `Server error, retrying (attempt ${attempt + 1} of ${maxRetries}) in ${Math.round(delay / 100) / 10}s`, { attempt: attempt + 1, maxAttempts: maxRetries });
+        await abortableDelay(delay, signal);
+        continue;
+      }
+      
+      if (error.message?.includes('400')) {
+          throw new Error("Invalid request. The file format might not be supported.");
+      }
+      throw error;
+    }
+  }
+
+  throw new Error("Analysis failed after multiple attempts.");
+};
+
+// Requests structured output and validates it. Unparseable or invalid replies are returned to the
+// model together with the field errors so it can correct them, up to MAX_CORRECTIONS times.
+const generateValidated = async <T>(
+  ctx: PipelineContext,
+  parts: ContentPart[],
+  responseSchema: Schema,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<T> => {
+  const contents: Turn[] = [{ role: 'user', parts }];
+  let errors: FieldError[] = [];
+
+  for (let correction = 0; correction <= MAX_CORRECTIONS; correction++) {
+    const text = await generateText(ctx, contents, responseSchema);
+    report(ctx, 'parsing', correction === 0 ? 'Parsing response...' : `Parsing corrected response (${correction} of ${MAX_CORRECTIONS})...`);
+
+    let raw: unknown;
+    try {
+      raw = cleanAndParseJSON(text);
+    } catch (e) {
+      console.error("JSON Parse Error:", e);
+      errors = [{ path: '$', message: 'response was not valid JSON' }];
+    }
+
+    if (raw !== undefined) {
+      const result = validate(raw);
+      if (result.repairs.length > 0) {
+        console.warn('Repaired AI response:', result.repairs);
+      }
+      if (result.value) return result.value;
+      errors = result.errors;
+    }
+
+    if (correction === MAX_CORRECTIONS) break;
+    console.warn(`Validation failed, requesting correction ${correction + 1} of ${MAX_CORRECTIONS}:`, errors);
+    contents.push(
+      { role: 'model', parts: [{ text }] },
+      { role: 'user', parts: [{ text: buildCorrectionPrompt(errors) }] }
+    );
+  }
+
+  throw new AnalysisValidationError(errors);
+};
+
+const analyzeBlob = async (ctx: PipelineContext, blob: Blob, mimeType: string, prompt: string): Promise<CallAnalysis> => {
+  const fields = ctx.template?.fields || [];
+  report(ctx, 'uploading', `Uploading ${(blob.size / (1024 * 1024)).toFixed(1)} MB...`);
+  const base64Data = await conversionPool.toBase64(blob, { signal: ctx.signal });
+  return generateValidated(ctx, [
+    {
+      inlineData: {
+        mimeType: mimeType,
+        data: base64Data
+      }
+    },
+    { text: prompt }
+  ], buildCallAnalysisSchema(fields), (raw) => validateCallAnalysis(raw, fields));
+};
+
+// Long-call mode: analyzes overlapping segments one at a time and merges the results.
+// bytesPerSecond is what the whole call encoded to, so compressed formats get longer segments.
+const analyzeInSegments = async (ctx: PipelineContext, audio: PcmAudio, bytesPerSecond: number): Promise<CallAnalysis> => {
+  const maxInlineBytes = inlineLimitBytes(ctx.settings);
+  let segments = splitIntoSegments(audio, segmentSeconds(ctx.settings, bytesPerSecond));
+  let resized = false;
+  const { mimeType } = encodingInfo(ctx.encoding);
+  const fields = ctx.template?.fields || [];
+  const basePrompt = buildAnalysisPrompt(ctx.recordedOn, ctx.outputLanguage, ctx.template);
+  const results: SegmentResult[] = [];
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const segmentCtx: PipelineContext = { ...ctx, segment: { index, total: segments.length } };
+    const { blob } = await encodeForUpload(
+      segmentCtx,
+      segment.audio,
+      `Preparing segment ${index + 1} of ${segments.length} (${formatTimestamp(segment.startTime)}–${formatTimestamp(segment.endTime)})`
+    );
+
+    // Compression varies along a call, so a busy stretch can encode larger than the average allowed
+    // for. The rest of the call is split again at the uncompressed 16-bit size, which no encoding
+    // exceeds by more than its headers.
+    if (blob.size > maxInlineBytes) {
+      if (resized) throw new Error(`Segment ${index + 1} of ${segments.length} is larger than the inline limit even uncompressed.`);
+      resized = true;
+      const rest = splitIntoSegments(audio, segmentSeconds(ctx.settings, audio.sampleRate * 2), segment.startTime);
+      segments = [...segments.slice(0, index), ...rest.map((s, offset) => ({ ...s, index: index + offset }))];
+      index--;
+      continue;
+    }
+
+    try {
+      const analysis = await analyzeBlob(segmentCtx, blob, mimeType, buildSegmentPrompt(basePrompt, segment, segments.length));
+      results.push({ analysis, startTime: segment.startTime });
+    } catch (e: any) {
+      if (isAbortError(e)) throw e;
+      throw new Error(`Segment ${index + 1} of ${segments.length} failed: ${e.message || e}`);
+    }
+  }
+
+  report(ctx, 'merging', 'Merging segment results...', { segment: { index: segments.length, total: segments.length } });
+
+  let overview: ConsolidatedOverview | undefined;
+  try {
+    overview = await generateValidated(
+      ctx,
+      [{ text: buildConsolidationPrompt(results.map(r => r.analysis), fields, ctx.outputLanguage) }],
+      buildOverviewSchema(fields),
+      (raw) => validateOverview(raw, fields)
+    );
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    // The per-segment summaries are still usable on their own
+    console.warn('Summary consolidation failed, falling back to concatenated summaries', e);
+  }
+
+  return mergeSegmentAnalyses(results, SEGMENT_OVERLAP_SECONDS, overview);
+};
+
+// Grades the finished analysis against a scorecard in a text-only follow-up request
+const scoreAnalysis = async (ctx: PipelineContext, analysis: CallAnalysis, scorecard: Scorecard): Promise<ScorecardResult> => {
+  report(ctx, 'scoring', `Scoring against ${scorecard.name}...`);
+  // The request's own waiting/parsing events are reported under the scoring stage
+  const scoringCtx: PipelineContext = {
+    ...ctx,
+    onProgress: ctx.onProgress && ((progress) => ctx.onProgress!({ ...progress, stage: 'scoring' })),
+  };
+  const scores = await generateValidated(
+    scoringCtx,
+    [{ text: buildScoringPrompt(analysis, scorecard, ctx.outputLanguage) }],
+    buildScorecardSchema(scorecard.criteria),
+    (raw) => validateScorecardScores(raw, scorecard.criteria)
+  );
+  return {
+    scorecardId: scorecard.id,
+    name: scorecard.name,
+    criteria: scorecard.criteria,
+    scores,
+    overall: computeOverallScore(scorecard.criteria, scores),
+  };
+};
+
+// Replaces personal information with placeholders. The model's findings are added to the local
+// pattern matches; if that request fails, the pattern matches are still redacted.
+const redactWithModel = async (ctx: PipelineContext, analysis: CallAnalysis, options: RedactionOptions): Promise<CallAnalysis> => {
+  report(ctx, 'redacting', options.modelAssisted ? 'Detecting personal information...' : 'Redacting personal information...');
+  let found: PiiCandidate[] = [];
+  if (options.modelAssisted) {
+    const texts = collectAnalysisText(analysis);
+    const redactingCtx: PipelineContext = {
+      ...ctx,
+      onProgress: ctx.onProgress && ((progress) => ctx.onProgress!({ ...progress, stage: 'redacting' })),
+    };
+    try {
+      const entities = await generateValidated(redactingCtx, [{ text: buildPiiPrompt(texts) }], PII_SCHEMA, validatePiiEntities);
+      // Only values that really occur can be replaced; anything else was invented
+      found = entities.filter(e => texts.some(t => t.toLowerCase().includes(e.text.toLowerCase())));
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn('Model-assisted PII detection failed, redacting pattern matches only', e);
+    }
+  }
+  return redactAnalysis(analysis, found, options);
+};
+
+const describeCleanup = (options: PreprocessingOptions): string => {
+  const steps = [options.trimSilence && 'Trimming silence', options.normalizeLoudness && 'normalizing loudness'].filter(Boolean);
+  return `${steps.join(' and ')}...`;
+};
+
+// Converts, cleans up, segments if needed, and analyzes one recording
+const analyzeRecording = async (ctx: PipelineContext, input: File): Promise<CallAnalysis> => {
+  const { client, settings } = ctx;
+  const maxInlineBytes = inlineLimitBytes(settings);
+  const sampleRate = encodingSampleRate(ctx.encoding, settings.targetSampleRate);
+  const kHz = `${sampleRate / 1000}kHz`;
+  const preprocessing = hasPreprocessing(ctx.preprocessing) ? ctx.preprocessing : undefined;
+  const prompt = buildAnalysisPrompt(ctx.recordedOn, ctx.outputLanguage, ctx.template);
+
+  // The file's own bytes decide the format; names and reported types are often wrong
+  const format = await detectAudioFormat(input);
+  throwIfAborted(ctx.signal);
+  if (format.route === 'unsupported') throw new UnsupportedFormatError(format);
+
+  const convert = needsConversion(format, client);
+
+  // Inputs above the inline limit are decoded and, if still too large, analyzed in segments.
+  // Preprocessing works on the decoded audio, so it always converts.
+  if (!convert && input.size <= maxInlineBytes && !preprocessing) {
+    return analyzeBlob(ctx, input, format.mimeType, prompt);
+  }
+
+  // Decoding and resampling need an AudioContext, which workers lack; the browser runs both off the
+  // main thread anyway. The rendered channels go to the conversion worker without being copied, and
+  // everything after happens there.
+  let audio: PcmAudio;
+  let channels: ChannelActivity | null;
+  try {
+    report(ctx, 'decoding', 'Decoding audio...');
+    const original = await decodeAudio(input, ctx.signal);
+    report(ctx, 'converting', `Resampling to ${kHz}...`);
+    const resampled = await resampleChannels(original, sampleRate, ctx.signal);
+    const split = !!preprocessing?.splitChannels;
+    const mixed = await conversionPool.mixdown(resampled, split, converting(ctx, split ? 'Measuring channels and mixing down...' : 'Mixing down to mono...'));
+    audio = mixed.audio;
+    channels = mixed.channels;
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.error('Conversion failed', e);
+    throw new Error(`Failed to convert ${describeFormat(format)} audio. The file might be corrupted or use a codec this browser cannot decode.`);
+  }
+
+  let timeMap: TimeMap | undefined;
+  if (preprocessing) {
+    // The channels were already measured during the mixdown
+    if (preprocessing.trimSilence || preprocessing.normalizeLoudness) {
+      const cleaned = await conversionPool.preprocess(audio, preprocessing, converting(ctx, describeCleanup(preprocessing)));
+      audio = cleaned.audio;
+      timeMap = cleaned.timeMap;
+    }
+    if (preprocessing.splitChannels && !channels) {
+      console.warn('Channel split requested for a mono recording; keeping the speaker roles from the model');
+    }
+  }
+
+  const { label, mimeType } = encodingInfo(ctx.encoding);
+  const encoded = await encodeForUpload(ctx, audio, `Encoding ${label}...`);
+  audio = encoded.audio;
+
+  let analysis: CallAnalysis;
+  const duration = pcmDuration(audio);
+  if (encoded.blob.size > maxInlineBytes) {
+    analysis = await analyzeInSegments(ctx, audio, encoded.blob.size / duration);
+  } else {
+    analysis = await analyzeBlob(ctx, encoded.blob, mimeType, prompt);
+  }
+
+  // Timestamps must point into the original recording, which is what the player loads
+  if (timeMap) analysis = remapAnalysisTimes(analysis, timeMap);
+  if (channels) analysis = attributeSpeakersByChannel(analysis, channels);
+  return analysis;
+};
+
+// The chosen encoding, or WAV when the client cannot take it (e.g. FLAC on OpenAI-compatible APIs)
+const resolveEncoding = (client: ModelClient, encoding: AudioEncoding): AudioEncoding => {
+  if (client.acceptsAudioType(encodingInfo(encoding).mimeType)) return encoding;
+  console.warn(`${client.model} does not accept ${encodingInfo(encoding).label}, sending WAV instead`);
+  return 'wav';
+};
+
+// Runs the full analysis of one recording against a model client
+export const analyzeWithClient = async (
+  client: ModelClient,
+  input: File,
+  options: AnalyzeAudioOptions = {}
+): Promise<CallAnalysis> => {
+  const settings = settingsStore.getSnapshot();
+  const ctx: PipelineContext = {
+    client,
+    signal: options.signal,
+    // The file's modification time is the closest thing to a call date we have
+    recordedOn: toDateString(new Date(input.lastModified || Date.now())),
+    outputLanguage: options.outputLanguage || settings.defaultOutputLanguage,
+    template: options.template,
+    preprocessing: options.preprocessing,
+    encoding: resolveEncoding(client, options.encoding || DEFAULT_ENCODING),
+    settings,
+    onProgress: options.onProgress,
+  };
+  throwIfAborted(ctx.signal);
+
+  let analysis = await analyzeRecording(ctx, input);
+  analysis = {
+    ...analysis,
+    outputLanguage: ctx.outputLanguage === AUTO_LANGUAGE ? analysis.languages?.[0] : ctx.outputLanguage,
+  };
+
+  if (options.scorecard) {
+    try {
+      analysis = { ...analysis, scorecard: await scoreAnalysis(ctx, analysis, options.scorecard) };
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      // The analysis itself is complete; a missing scorecard should not throw it away
+      console.warn('Scoring failed, saving the analysis without a scorecard', e);
+    }
+  }
+
+  // Last, so the scorecard's justifications and quotes are redacted too
+  if (options.redaction) {
+    analysis = await redactWithModel(ctx, analysis, options.redaction);
+  }
+  return analysis;
+};
+
+// Answers a question from the given calls with citations checked against their transcripts
+export const askWithClient = async (
+  client: ModelClient,
+  question: string,
+  sources: QuestionSource[],
+  options: AskOptions = {}
+): Promise<CallAnswer> => {
+  const ctx: PipelineContext = {
+    client,
+    signal: options.signal,
+    recordedOn: toDateString(new Date()),
+    outputLanguage: AUTO_LANGUAGE,
+    encoding: DEFAULT_ENCODING, // No audio is sent
+    settings: settingsStore.getSnapshot(),
+  };
+  throwIfAborted(ctx.signal);
+  return generateValidated(
+    ctx,
+    [{ text: buildQuestionPrompt(question, sources, options.history || []) }],
+    ANSWER_SCHEMA,
+    (raw) => validateAnswer(raw, sources)
+  );
+};
@@ -0,0 +1,76 @@
+import { Schema } from "@google/genai";
+import { AnalysisProgress, AnalysisTemplate, CallAnalysis, CallAnswer, ChatMessage, Scorecard } from "../types";
+import { RedactionOptions } from "./redaction";
+import { QuestionSource } from "./callQA";
+import { PreprocessingOptions } from "./audioPreprocessing";
+import { AudioEncoding } from "./audioEncoding";
+
+// --- Provider Contract ---
+
+export interface AnalyzeAudioOptions {
+  // Called whenever the analysis enters a new stage (and per segment for long recordings)
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Aborting rejects the analysis with an AbortError as soon as the current step allows
+  signal?: AbortSignal;
+  // Extra instructions and custom output fields; the standard analysis only when omitted
+  template?: AnalysisTemplate;
+  // When set, the agent is graded against this rubric after the analysis
+  scorecard?: Scorecard;
+  // ISO 639-1 code for the summary, action items and insights, or 'auto' for the call's own
+  // language; the default from Settings when omitted. Transcripts are always kept in the language spoken.
+  outputLanguage?: string;
+  // When set, personal information is replaced with placeholders before the analysis is returned
+  redaction?: RedactionOptions;
+  // Silence trimming, loudness normalization and stereo speaker attribution; none when omitted
+  preprocessing?: PreprocessingOptions;
+  // Format converted audio is sent in; WAV when omitted or when the provider cannot take the choice.
+  // Recordings the provider accepts as they are, within the inline limit, are sent unconverted.
+  encoding?: AudioEncoding;
+}
+
+export interface AskOptions {
+  signal?: AbortSignal;
+  // Earlier turns of the conversation, oldest first
+  history?: ChatMessage[];
+}
+
+// What the uploader talks to. Each provider turns a recording into a validated CallAnalysis and
+// answers questions about analyzed calls.
+export interface AnalysisProvider {
+  id: string;
+  name: string; // Shown in the uploader and on the report
+  model: string;
+  description: string;
+  // Same rule as the model client's, so the uploader can tell which files will be converted
+  acceptsAudioType(mimeType: string): boolean;
+  analyze(input: File, options?: AnalyzeAudioOptions): Promise<CallAnalysis>;
+  // Resolves when the provider's endpoint and credentials work; rejects with the reason otherwise
+  checkConnection(signal?: AbortSignal): Promise<void>;
+  // Answers from the given calls only, citing the transcript lines the answer relies on
+  ask(question: string, sources: QuestionSource[], options?: AskOptions): Promise<CallAnswer>;
+}
+
+// --- Model Client Contract ---
+// Providers backed by a real model share the conversion, segmentation and validation pipeline and
+// only implement this request/response step.
+
+export type ContentPart = { inlineData: { mimeType: string; data: string } } | { text: string };
+export type Turn = { role: 'user' | 'model'; parts: ContentPart[] };
+
+export interface ModelClient {
+  model: string;
+  // Whether audio of this MIME type can be sent as-is; anything else is converted to WAV first
+  acceptsAudioType(mimeType: string): boolean;
+  // Returns the raw text of the model's reply, which should be JSON matching `responseSchema`
+  generate(contents: Turn[], responseSchema: Schema, signal?: AbortSignal): Promise<string>;
+  // A cheap request that fails the same way a real one would, without running the model
+  checkConnection(signal?: AbortSignal): Promise<void>;
+}
+
+// Thrown by model clients for HTTP failures so the pipeline can tell transient errors from permanent ones
+export class ProviderRequestError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { CallRecord } from "../types";
+import { createAnalysisQueue } from "./analysisQueue";
+import { createMockProvider } from "./mockProvider";
+
+const recording = (name: string) => new File([new Uint8Array(1024)], name, { type: 'audio/wav' });
+
+// A queue whose record updates are collected, with a way to wait for a record to finish
+const setup = () => {
+  const updates: CallRecord[] = [];
+  const waiters: { id: string; resolve: (record: CallRecord) => void }[] = [];
+  const queue = createAnalysisQueue((record) => {
+    updates.push(record);
+    if (record.status === 'processing') return;
+    waiters.filter(w => w.id === record.id).forEach(w => w.resolve(record));
+  });
+  const finished = (id: string) => new Promise<CallRecord>(resolve => waiters.push({ id, resolve }));
+  return { queue, updates, finished };
+};
+
+describe('createAnalysisQueue', () => {
+  it('runs a job through the mock provider and completes its record', async () => {
+    const { queue, updates, finished } = setup();
+    const [job] = queue.enqueue([recording('a.wav')], { provider: createMockProvider(0), keepAudio: false });
+    const record = await finished(job.id);
+
+    expect(record.status).toBe('completed');
+    expect(record.analyzedWith?.providerId).toBe('mock');
+    expect(record.analysis?.actionItems.every(i => i.sourceCallId === job.id)).toBe(true);
+    expect(updates.map(u => u.status)).toEqual(['processing', 'processing', 'completed']);
+    expect(queue.getSnapshot().jobs[0].state).toBe('completed');
+  });
+
+  it('mirrors provider stages into the job progress', async () => {
+    const { queue, finished } = setup();
+    const stages = new Set<string>();
+    queue.subscribe(() => {
+      const progress = queue.getSnapshot().jobs[0]?.progress;
+      if (progress) stages.add(progress.stage);
+    });
+    const [job] = queue.enqueue([recording('b.wav')], { provider: createMockProvider(0), keepAudio: false });
+    await finished(job.id);
+    expect([...stages]).toEqual(['uploading', 'waiting', 'parsing']);
+  });
+
+  it('respects the concurrency limit', async () => {
+    const { queue, finished } = setup();
+    queue.setConcurrency(1);
+    const jobs = queue.enqueue([recording('c.wav'), recording('d.wav')], { provider: createMockProvider(20), keepAudio: false });
+    expect(queue.getSnapshot().jobs.map(j => j.state)).toEqual(['processing', 'queued']);
+    await Promise.all(jobs.map(j => finished(j.id)));
+    expect(queue.getSnapshot().jobs.map(j => j.state)).toEqual(['completed', 'completed']);
+  });
+
+  it('fails a cancelled job so it can be retried', async () => {
+    const { queue, finished } = setup();
+    const [job] = queue.enqueue([recording('e.wav')], { provider: createMockProvider(50), keepAudio: false });
+    queue.cancel(job.id);
+    const record = await finished(job.id);
+    expect(record).toMatchObject({ status: 'failed', error: 'Cancelled.' });
+
+    queue.retry(job.id);
+    expect((await finished(job.id)).status).toBe('completed');
+  });
+
+  it('discards the result of a job removed after cancelling', async () => {
+    const { queue, updates } = setup();
+    const [job] = queue.enqueue([recording('f.wav')], { provider: createMockProvider(20), keepAudio: false });
+    queue.cancel(job.id);
+    queue.remove(job.id);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(queue.getSnapshot().jobs).toHaveLength(0);
+    expect(updates.map(u => u.status)).toEqual(['processing', 'processing']);
+  });
+
+  it('keeps a rename made while the job runs', async () => {
+    const { queue, finished } = setup();
+    const [job] = queue.enqueue([recording('g.wav')], { provider: createMockProvider(20), keepAudio: false });
+    queue.rename(job.id, 'Renamed call');
+    expect((await finished(job.id)).fileName).toBe('Renamed call');
+  });
+});
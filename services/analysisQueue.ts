@@ -0,0 +1,249 @@
+import { AnalysisProgress, AnalysisTemplate, CallRecord, Scorecard } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { isAbortError } from "./abort";
+import { withSourceCall } from "./actionItems";
+import { RedactionOptions } from "./redaction";
+import { PreprocessingOptions } from "./audioPreprocessing";
+import { AudioEncoding } from "./audioEncoding";
+
+// Runs analyses in the background with bounded concurrency, so uploads keep going while the user
+// browses. Each job owns a CallRecord whose status mirrors the job's progress.
+
+export type QueueJobState = 'queued' | CallRecord['status'];
+
+export interface QueueJob {
+  id: string; // Same as the record id
+  file: File;
+  provider: AnalysisProvider;
+  template?: AnalysisTemplate;
+  scorecard?: Scorecard;
+  redaction?: RedactionOptions;
+  outputLanguage?: string;
+  preprocessing?: PreprocessingOptions;
+  encoding?: AudioEncoding;
+  keepAudio: boolean;
+  state: QueueJobState;
+  record: CallRecord;
+  progress?: AnalysisProgress;
+  error?: string;
+}
+
+export interface QueueSnapshot {
+  jobs: QueueJob[];
+  concurrency: number;
+}
+
+export interface EnqueueOptions {
+  provider: AnalysisProvider;
+  template?: AnalysisTemplate;
+  scorecard?: Scorecard;
+  redaction?: RedactionOptions;
+  outputLanguage?: string;
+  preprocessing?: PreprocessingOptions;
+  encoding?: AudioEncoding;
+  keepAudio: boolean;
+}
+
+export interface AnalysisQueue {
+  enqueue(files: File[], options: EnqueueOptions): QueueJob[];
+  retry(id: string): void;
+  // Aborts a running job; it ends up failed and can be retried
+  cancel(id: string): void;
+  // Drops a job from the list; a running job must be cancelled first and its result is then discarded
+  remove(id: string): void;
+  // Keeps the job's record in step with a rename made while it is queued or running
+  rename(id: string, fileName: string): void;
+  clearFinished(): void;
+  setConcurrency(concurrency: number): void;
+  getSnapshot(): QueueSnapshot;
+  subscribe(listener: () => void): () => void;
+}
+
+export const MAX_CONCURRENCY = 5;
+const DEFAULT_CONCURRENCY = 2;
+
+// Turns provider errors into messages suitable for the job list
+export const describeAnalysisError = (err: any): string => {
+  let errorMessage = 'Analysis failed. Please try again.';
+
+  if (isAbortError(err)) return 'Cancelled.';
+
+  if (err?.message && typeof err.message === 'string') {
+    if (err.message.includes('API Key')) errorMessage = 'API Key is missing or invalid.';
+    else if (err.message.includes('File size')) errorMessage = err.message;
+    else if (err.message.startsWith('Segment')) errorMessage = err.message;
+    else if (err.name === 'AnalysisValidationError') errorMessage = 'The AI returned an incomplete analysis. Please try again.';
+    else if (err.message.includes('Failed to convert')) errorMessage = err.message;
+    else if (err.name === 'UnsupportedFormatError') errorMessage = err.message;
+    else if (err.message.includes('500') || err.message.includes('Internal')) errorMessage = 'Server error. Please try a shorter audio clip.';
+  }
+  return errorMessage;
+};
+
+let idCounter = 0;
+// Date.now() alone collides when many files are queued in the same millisecond
+const nextId = () => `${Date.now()}-${(idCounter++).toString(36)}`;
+
+// onRecordChange fires whenever a job's record changes; audio is passed only when the record is first created
+export const createAnalysisQueue = (
+  onRecordChange: (record: CallRecord, audio?: Blob) => void
+): AnalysisQueue => {
+  let jobs: QueueJob[] = [];
+  let concurrency = DEFAULT_CONCURRENCY;
+  let snapshot: QueueSnapshot = { jobs, concurrency };
+  const listeners = new Set<() => void>();
+  const controllers = new Map<string, AbortController>();
+
+  const emit = () => {
+    snapshot = { jobs, concurrency };
+    listeners.forEach(l => l());
+  };
+
+  const updateJob = (id: string, patch: Partial<QueueJob>) => {
+    jobs = jobs.map(j => (j.id === id ? { ...j, ...patch } : j));
+    emit();
+  };
+
+  // The job as it is now, or undefined once it has been removed
+  const currentJob = (id: string) => jobs.find(j => j.id === id);
+
+  const runJob = async (job: QueueJob) => {
+    const processing: CallRecord = { ...job.record, status: 'processing', error: undefined };
+    updateJob(job.id, { state: 'processing', record: processing, error: undefined, progress: undefined });
+    onRecordChange(processing);
+
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    try {
+      const analysis = await job.provider.analyze(job.file, {
+        signal: controller.signal,
+        template: job.template,
+        scorecard: job.scorecard,
+        redaction: job.redaction,
+        outputLanguage: job.outputLanguage,
+        preprocessing: job.preprocessing,
+        encoding: job.encoding,
+        onProgress: (progress) => updateJob(job.id, { progress }),
+      });
+      const latest = currentJob(job.id);
+      if (!latest) return;
+      // Built from the latest record so a rename made during the analysis is kept
+      const completed: CallRecord = {
+        ...latest.record,
+        status: 'completed',
+        analysis: { ...analysis, actionItems: withSourceCall(analysis.actionItems, job.id) },
+      };
+      updateJob(job.id, { state: 'completed', record: completed });
+      onRecordChange(completed);
+    } catch (err: any) {
+      const latest = currentJob(job.id);
+      if (!latest) return;
+      console.error(`Analysis of ${job.file.name} failed`, err);
+      const error = describeAnalysisError(err);
+      const failed: CallRecord = { ...latest.record, status: 'failed', error };
+      updateJob(job.id, { state: 'failed', record: failed, error });
+      onRecordChange(failed);
+    } finally {
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  // Starts queued jobs, oldest first, until the concurrency limit is reached
+  const pump = () => {
+    let running = jobs.filter(j => j.state === 'processing').length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.state === 'queued') {
+        running++;
+        runJob(job);
+      }
+    }
+  };
+
+  return {
+    enqueue(files, { provider, template, scorecard, redaction, outputLanguage, preprocessing, encoding, keepAudio }) {
+      const added = files.map((file): QueueJob => {
+        const id = nextId();
+        return {
+          id,
+          file,
+          provider,
+          template,
+          scorecard,
+          redaction,
+          outputLanguage,
+          preprocessing,
+          encoding,
+          keepAudio,
+          state: 'queued',
+          record: {
+            id,
+            fileName: file.name,
+            timestamp: Date.now(),
+            status: 'processing',
+            analyzedWith: {
+              providerId: provider.id,
+              name: provider.name,
+              model: provider.model,
+              description: provider.description,
+            },
+            ...(template ? { template: { id: template.id, name: template.name, fields: template.fields } } : {}),
+            hasAudio: keepAudio,
+          },
+        };
+      });
+      jobs = [...jobs, ...added];
+      emit();
+      added.forEach(job => onRecordChange(job.record, job.keepAudio ? job.file : undefined));
+      pump();
+      return added;
+    },
+
+    retry(id) {
+      const job = jobs.find(j => j.id === id);
+      if (!job || job.state !== 'failed') return;
+      updateJob(id, { state: 'queued', error: undefined });
+      pump();
+    },
+
+    cancel(id) {
+      controllers.get(id)?.abort();
+    },
+
+    remove(id) {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.state === 'processing' && !controllers.get(id)?.signal.aborted)) return;
+      jobs = jobs.filter(j => j.id !== id);
+      emit();
+      if (job.state === 'queued') {
+        // Never started, so the record would otherwise stay "processing" forever
+        onRecordChange({ ...job.record, status: 'failed', error: 'Removed from the queue before analysis started.' });
+      }
+    },
+
+    rename(id, fileName) {
+      const job = jobs.find(j => j.id === id);
+      if (!job) return;
+      updateJob(id, { record: { ...job.record, fileName } });
+    },
+
+    clearFinished() {
+      jobs = jobs.filter(j => j.state === 'queued' || j.state === 'processing');
+      emit();
+    },
+
+    setConcurrency(value) {
+      concurrency = Math.max(1, Math.min(MAX_CONCURRENCY, Math.round(value)));
+      emit();
+      pump();
+    },
+
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
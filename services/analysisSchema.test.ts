@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { CallRecord } from "../types";
+import { UNSUPPORTED_ANSWER, validateAnswer } from "./analysisSchema";
+import { QuestionSource } from "./callQA";
+
+const source = (label: string, callId: string, lines: QuestionSource['lines']): QuestionSource => ({
+  label,
+  call: { id: callId } as CallRecord,
+  lines,
+  omittedLines: 0,
+});
+
+const SOURCES = [
+  source('C1', 'call-1', [
+    { id: 0, speaker: 'Agent', start: 0, text: 'Thanks for calling, how can I help?' },
+    { id: 1, speaker: 'Customer', start: 4.5, text: 'I was charged twice for my March invoice.' },
+    { id: 2, speaker: 'Agent', start: 9, text: 'I will refund the second charge today.' },
+  ]),
+  source('C2', 'call-2', [
+    { id: 0, speaker: 'Customer', start: 2, text: 'Quiero cancelar mi suscripción.', translation: 'I want to cancel my subscription.' },
+  ]),
+];
+
+describe('validateAnswer', () => {
+  it('keeps an answer whose citations are found', () => {
+    const result = validateAnswer({
+      answer: 'A double charge, which was refunded.',
+      citations: [
+        { source: 'C1', line: 1, quote: 'charged twice' },
+        { source: 'c2', line: 0, quote: 'cancel my subscription' },
+      ],
+    }, SOURCES);
+
+    expect(result.errors).toEqual([]);
+    expect(result.value).toEqual({
+      answer: 'A double charge, which was refunded.',
+      citations: [
+        { callId: 'call-1', quote: 'charged twice', start: 4.5 },
+        { callId: 'call-2', quote: 'cancel my subscription', start: 2 },
+      ],
+    });
+  });
+
+  it('withholds the answer when no citation can be verified', () => {
+    const result = validateAnswer({
+      answer: 'The customer asked for a discount.',
+      citations: [
+        { source: 'C1', line: 1, quote: 'I would like a discount' },
+        { source: 'C9', line: 0, quote: 'charged twice' },
+      ],
+    }, SOURCES);
+
+    expect(result.value).toEqual({ answer: UNSUPPORTED_ANSWER, citations: [] });
+    expect(result.repairs.map(r => r.message)).toEqual([
+      'quote not found in the transcript, dropped',
+      'unknown source "C9", dropped',
+      'no citation could be verified, answer withheld',
+    ]);
+  });
+
+  it('drops unverified citations but keeps the answer when one holds', () => {
+    const result = validateAnswer({
+      answer: 'The charge is being refunded.',
+      citations: [
+        { source: 'C1', line: 2, quote: 'refund the second charge' },
+        { source: 'C1', line: 2, quote: 'refund all charges' },
+      ],
+    }, SOURCES);
+
+    expect(result.value!.answer).toBe('The charge is being refunded.');
+    expect(result.value!.citations).toEqual([{ callId: 'call-1', quote: 'refund the second charge', start: 9 }]);
+  });
+
+  it('finds a quote on another line than the one cited, ignoring case and punctuation', () => {
+    const result = validateAnswer({
+      answer: 'A billing error.',
+      citations: [{ source: 'C1', line: 0, quote: 'Charged TWICE for my March invoice' }],
+    }, SOURCES);
+    expect(result.value!.citations[0].start).toBe(4.5);
+  });
+
+  it('cites each quote once', () => {
+    const citation = { source: 'C1', line: 1, quote: 'charged twice' };
+    expect(validateAnswer({ answer: 'Twice.', citations: [citation, citation] }, SOURCES).value!.citations).toHaveLength(1);
+  });
+
+  it('passes answers without citations through', () => {
+    expect(validateAnswer({ answer: 'Nothing in these calls says so.' }, SOURCES).value).toEqual({
+      answer: 'Nothing in these calls says so.',
+      citations: [],
+    });
+  });
+
+  it('rejects a missing answer', () => {
+    expect(validateAnswer({ citations: [] }, SOURCES).errors).toEqual([{ path: 'answer', message: 'expected a non-empty string' }]);
+  });
+});
@@ -0,0 +1,694 @@
+import { Schema, Type } from "@google/genai";
+import {
+  ActionItem,
+  AnswerCitation,
+  CallAnalysis,
+  CallAnswer,
+  CallSentiment,
+  CallTopic,
+  CriterionScore,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  PiiType,
+  ScorecardCriterion,
+  TopicKind,
+  TranscriptEvidence,
+} from "../types";
+import { parseUtterances, utterancesToText } from "./transcript";
+import { ConsolidatedOverview } from "./analysisMerge";
+import { numberActionItems, parseDueDate } from "./actionItems";
+import { PiiCandidate, PII_TYPES } from "./redaction";
+import { normalizeLanguage } from "./languages";
+import { locateQuote, QuestionSource } from "./callQA";
+
+// --- Response Schemas ---
+// Sent with each request so the model is constrained to the shape we validate below.
+
+const UTTERANCE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    speaker: { type: Type.STRING, description: 'Speaker label, e.g. "Agent", "Customer" or "Speaker 2".' },
+    role: { type: Type.STRING, enum: ['agent', 'customer', 'unknown'] },
+    start: { type: Type.NUMBER, description: 'Seconds from the beginning of the audio.' },
+    end: { type: Type.NUMBER, description: 'Seconds from the beginning of the audio.' },
+    text: { type: Type.STRING, description: 'Verbatim, in the language spoken.' },
+    translation: { type: Type.STRING, nullable: true, description: 'English translation; null when the utterance is in English.' },
+    sentiment: { type: Type.NUMBER, description: 'Tone of this turn from -1 (negative) to 1 (positive).' },
+  },
+  required: ['speaker', 'role', 'start', 'end', 'text', 'translation', 'sentiment'],
+  propertyOrdering: ['speaker', 'role', 'start', 'end', 'text', 'translation', 'sentiment'],
+};
+
+const SENTIMENT_SCHEMA: Schema = {
+  type: Type.STRING,
+  enum: Object.values(CallSentiment),
+};
+
+const ACTION_ITEM_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    owner: { type: Type.STRING, nullable: true, description: 'Person or party responsible, as named in the call.' },
+    dueDate: { type: Type.STRING, nullable: true, description: 'Deadline as YYYY-MM-DD.' },
+  },
+  required: ['text', 'owner', 'dueDate'],
+  propertyOrdering: ['text', 'owner', 'dueDate'],
+};
+
+export const TOPIC_KINDS: TopicKind[] = ['issue', 'request', 'question', 'praise', 'other'];
+
+const EVIDENCE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    quote: { type: Type.STRING, description: 'Exact words from the transcript.' },
+    start: { type: Type.NUMBER, nullable: true, description: 'Seconds from the start of the call where the quote begins.' },
+  },
+  required: ['quote'],
+};
+
+const TOPIC_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    label: { type: Type.STRING, description: 'Short lower-case English noun phrase, reusable across calls.' },
+    kind: { type: Type.STRING, enum: TOPIC_KINDS },
+    evidence: { type: Type.ARRAY, items: EVIDENCE_SCHEMA },
+  },
+  required: ['label', 'kind', 'evidence'],
+  propertyOrdering: ['label', 'kind', 'evidence'],
+};
+
+export const CALL_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    languages: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'ISO 639-1 codes of the languages spoken, main language first.' },
+    utterances: { type: Type.ARRAY, items: UTTERANCE_SCHEMA },
+    summary: { type: Type.STRING },
+    sentiment: SENTIMENT_SCHEMA,
+    actionItems: { type: Type.ARRAY, items: ACTION_ITEM_SCHEMA },
+    keyInsights: { type: Type.ARRAY, items: { type: Type.STRING } },
+    topics: { type: Type.ARRAY, items: TOPIC_SCHEMA },
+  },
+  required: ['languages', 'utterances', 'summary', 'sentiment', 'actionItems', 'keyInsights', 'topics'],
+  propertyOrdering: ['languages', 'utterances', 'summary', 'sentiment', 'actionItems', 'keyInsights', 'topics'],
+};
+
+export const OVERVIEW_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    sentiment: SENTIMENT_SCHEMA,
+  },
+  required: ['summary', 'sentiment'],
+};
+
+// Custom fields are nullable so the model can say a call did not cover them
+const customFieldSchema = (field: CustomFieldDefinition): Schema => {
+  const base = { description: field.description, nullable: true };
+  switch (field.type) {
+    case 'text': return { ...base, type: Type.STRING };
+    case 'list': return { ...base, type: Type.ARRAY, items: { type: Type.STRING } };
+    case 'number': return { ...base, type: Type.NUMBER };
+    case 'enum': return { ...base, type: Type.STRING, enum: field.options };
+    case 'boolean': return { ...base, type: Type.BOOLEAN };
+  }
+};
+
+const customFieldsSchema = (fields: CustomFieldDefinition[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(fields.map(f => [f.key, customFieldSchema(f)])),
+  required: fields.map(f => f.key),
+  propertyOrdering: fields.map(f => f.key),
+});
+
+// Adds a `customFields` object to a response schema when the template defines any
+const withCustomFields = (schema: Schema, fields: CustomFieldDefinition[]): Schema => {
+  if (fields.length === 0) return schema;
+  return {
+    ...schema,
+    properties: { ...schema.properties, customFields: customFieldsSchema(fields) },
+    required: [...(schema.required || []), 'customFields'],
+    ...(schema.propertyOrdering ? { propertyOrdering: [...schema.propertyOrdering, 'customFields'] } : {}),
+  };
+};
+
+export const buildCallAnalysisSchema = (fields: CustomFieldDefinition[] = []): Schema =>
+  withCustomFields(CALL_ANALYSIS_SCHEMA, fields);
+
+export const buildOverviewSchema = (fields: CustomFieldDefinition[] = []): Schema =>
+  withCustomFields(OVERVIEW_SCHEMA, fields);
+
+// One property per criterion id so the model cannot skip a criterion
+export const buildScorecardSchema = (criteria: ScorecardCriterion[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(criteria.map(c => [c.id, {
+    type: Type.OBJECT,
+    description: c.name,
+    properties: {
+      score: {
+        type: Type.NUMBER,
+        nullable: true,
+        description: c.scale === 'pass_fail' ? '1 for pass, 0 for fail, null if not applicable.' : '1 (poor) to 5 (excellent), null if not applicable.',
+      },
+      justification: { type: Type.STRING },
+      evidence: { type: Type.ARRAY, items: EVIDENCE_SCHEMA },
+    },
+    required: ['score', 'justification', 'evidence'],
+    propertyOrdering: ['score', 'justification', 'evidence'],
+  }])),
+  required: criteria.map(c => c.id),
+});
+
+export const PII_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: PII_TYPES },
+          text: { type: Type.STRING, description: 'Exactly as written in the text.' },
+        },
+        required: ['type', 'text'],
+        propertyOrdering: ['type', 'text'],
+      },
+    },
+  },
+  required: ['entities'],
+};
+
+export const ANSWER_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    citations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING, description: 'Call label, such as "C1".' },
+          line: { type: Type.INTEGER, nullable: true, description: 'Transcript line number after the "#".' },
+          quote: { type: Type.STRING, description: 'Exact words from that line.' },
+        },
+        required: ['source', 'line', 'quote'],
+        propertyOrdering: ['source', 'line', 'quote'],
+      },
+    },
+  },
+  required: ['answer', 'citations'],
+  propertyOrdering: ['answer', 'citations'],
+};
+
+// --- Runtime Validation ---
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value?: T; // Present only when there are no errors
+  errors: FieldError[];
+  repairs: FieldError[]; // Problems that were fixed automatically, kept for logging
+}
+
+export class AnalysisValidationError extends Error {
+  constructor(public readonly errors: FieldError[]) {
+    super(`AI response failed validation: ${errors.map(e => `${e.path}: ${e.message}`).join('; ')}`);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+const SENTIMENT_ALIASES: Record<string, CallSentiment> = {
+  positive: CallSentiment.POSITIVE,
+  satisfied: CallSentiment.POSITIVE,
+  neutral: CallSentiment.NEUTRAL,
+  mixed: CallSentiment.NEUTRAL,
+  negative: CallSentiment.NEGATIVE,
+  frustrated: CallSentiment.NEGATIVE,
+};
+
+// Maps loose labels ("positive", "Mixed", "Very Negative") onto the enum; null when nothing matches
+const coerceSentiment = (value: unknown): CallSentiment | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase().replace(/\s+/g, '_');
+  if (SENTIMENT_ALIASES[key]) return SENTIMENT_ALIASES[key];
+  const word = Object.keys(SENTIMENT_ALIASES).find(alias => key.includes(alias));
+  return word ? SENTIMENT_ALIASES[word] : null;
+};
+
+// Accepts an array of strings, a single string, or an array with non-string entries
+const coerceStringList = (value: unknown, path: string, repairs: FieldError[]): string[] => {
+  if (value === undefined || value === null) {
+    repairs.push({ path, message: 'missing, defaulted to an empty list' });
+    return [];
+  }
+  if (typeof value === 'string') {
+    repairs.push({ path, message: 'was a string, wrapped in a list' });
+    return value.trim() ? [value.trim()] : [];
+  }
+  if (!Array.isArray(value)) {
+    repairs.push({ path, message: `expected a list, got ${typeof value}; defaulted to an empty list` });
+    return [];
+  }
+  const items: string[] = [];
+  value.forEach((item, idx) => {
+    if (typeof item === 'string') {
+      if (item.trim()) items.push(item.trim());
+    } else if (item && typeof item === 'object' && typeof item.text === 'string') {
+      repairs.push({ path: `${path}[${idx}]`, message: 'was an object, used its text' });
+      items.push(item.text.trim());
+    } else if (typeof item === 'number' || typeof item === 'boolean') {
+      repairs.push({ path: `${path}[${idx}]`, message: `was a ${typeof item}, converted to text` });
+      items.push(String(item));
+    } else {
+      repairs.push({ path: `${path}[${idx}]`, message: 'unusable entry dropped' });
+    }
+  });
+  return items;
+};
+
+// Accepts structured items, plain strings (no owner or due date) or a single item
+const coerceActionItems = (value: unknown, path: string, repairs: FieldError[]): ActionItem[] => {
+  if (value === undefined || value === null) {
+    repairs.push({ path, message: 'missing, defaulted to an empty list' });
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    repairs.push({ path, message: `expected a list, got ${typeof value}; wrapped in a list` });
+  }
+  const items: Omit<ActionItem, 'id'>[] = [];
+  (Array.isArray(value) ? value : [value]).forEach((entry, idx) => {
+    const itemPath = `${path}[${idx}]`;
+    if (typeof entry === 'string') {
+      if (!entry.trim()) return;
+      repairs.push({ path: itemPath, message: 'was a string, owner and due date unknown' });
+      items.push({ text: entry.trim(), status: 'open' });
+      return;
+    }
+    const text = entry && typeof entry === 'object' && typeof entry.text === 'string' ? entry.text.trim() : '';
+    if (!text) {
+      repairs.push({ path: itemPath, message: 'unusable entry dropped' });
+      return;
+    }
+    const owner = typeof entry.owner === 'string' && entry.owner.trim() ? entry.owner.trim() : undefined;
+    const dueDate = parseDueDate(entry.dueDate);
+    if (entry.dueDate && !dueDate) {
+      repairs.push({ path: `${itemPath}.dueDate`, message: `${JSON.stringify(entry.dueDate)} is not a date, dropped` });
+    }
+    items.push({
+      text,
+      status: 'open',
+      ...(owner ? { owner } : {}),
+      ...(dueDate ? { dueDate } : {}),
+    });
+  });
+  return numberActionItems(items);
+};
+
+const BOOLEAN_WORDS: Record<string, boolean> = { true: true, yes: true, y: true, false: false, no: false, n: false };
+
+const coerceCustomField = (
+  field: CustomFieldDefinition,
+  value: unknown,
+  path: string,
+  errors: FieldError[],
+  repairs: FieldError[]
+): CustomFieldValue => {
+  if (value === undefined || value === null || value === '') {
+    if (value === undefined) repairs.push({ path, message: 'missing, treated as not mentioned' });
+    return null;
+  }
+
+  switch (field.type) {
+    case 'text':
+      if (typeof value === 'string') return value.trim() || null;
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        repairs.push({ path, message: `was a ${typeof value}, converted to text` });
+        return String(value);
+      }
+      if (Array.isArray(value)) {
+        repairs.push({ path, message: 'was a list, joined into text' });
+        return value.map(String).join(', ');
+      }
+      break;
+
+    case 'list':
+      return coerceStringList(value, path, repairs);
+
+    case 'number': {
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      const parsed = typeof value === 'string' ? parseFloat(value.replace(/[^0-9.+-]/g, '')) : NaN;
+      if (Number.isFinite(parsed)) {
+        repairs.push({ path, message: `${JSON.stringify(value)} parsed as ${parsed}` });
+        return parsed;
+      }
+      break;
+    }
+
+    case 'enum': {
+      const options = field.options || [];
+      if (typeof value === 'string') {
+        if (options.includes(value)) return value;
+        const match = options.find(o => o.toLowerCase() === value.trim().toLowerCase());
+        if (match) {
+          repairs.push({ path, message: `${JSON.stringify(value)} mapped to "${match}"` });
+          return match;
+        }
+      }
+      errors.push({ path, message: `must be one of ${options.join(', ')} or null; got ${JSON.stringify(value)}` });
+      return null;
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const word = typeof value === 'string' ? BOOLEAN_WORDS[value.trim().toLowerCase()] : undefined;
+      if (word !== undefined) {
+        repairs.push({ path, message: `${JSON.stringify(value)} read as ${word}` });
+        return word;
+      }
+      break;
+    }
+  }
+
+  errors.push({ path, message: `expected a ${field.type} or null; got ${JSON.stringify(value)}` });
+  return null;
+};
+
+// Validates the `customFields` object against the template's field definitions. Unknown keys are dropped.
+const validateCustomFields = (
+  value: unknown,
+  fields: CustomFieldDefinition[],
+  errors: FieldError[],
+  repairs: FieldError[]
+): Record<string, CustomFieldValue> | undefined => {
+  if (fields.length === 0) return undefined;
+  if (value !== undefined && (!value || typeof value !== 'object' || Array.isArray(value))) {
+    errors.push({ path: 'customFields', message: 'expected a JSON object' });
+    return undefined;
+  }
+  const data = (value || {}) as Record<string, unknown>;
+  return Object.fromEntries(fields.map(field => [
+    field.key,
+    coerceCustomField(field, data[field.key], `customFields.${field.key}`, errors, repairs),
+  ]));
+};
+
+// Optional: an analysis without languages is still usable, so bad entries are dropped rather than rejected
+const coerceLanguages = (value: unknown, repairs: FieldError[]): string[] => {
+  const list = typeof value === 'string' ? value.split(/[,;]/) : Array.isArray(value) ? value : [];
+  const languages = [...new Set(list.map(normalizeLanguage).filter((code): code is string => !!code))];
+  if (list.length > languages.length) {
+    repairs.push({ path: 'languages', message: `${list.length - languages.length} unrecognized or duplicate entries dropped` });
+  }
+  return languages;
+};
+
+const TOPIC_KIND_ALIASES: Record<string, TopicKind> = {
+  problem: 'issue',
+  complaint: 'issue',
+  bug: 'issue',
+  feature_request: 'request',
+  inquiry: 'question',
+  compliment: 'praise',
+};
+
+// Optional like languages: unusable topics are dropped, never rejected
+const coerceTopics = (value: unknown, repairs: FieldError[]): CallTopic[] => {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  const topics: CallTopic[] = [];
+  items.forEach((item, idx) => {
+    const path = `topics[${idx}]`;
+    const label = typeof item === 'string' ? item : typeof item?.label === 'string' ? item.label : '';
+    const normalized = label.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!normalized) {
+      repairs.push({ path, message: 'topic without a label dropped' });
+      return;
+    }
+    if (topics.some(t => t.label === normalized)) return;
+    const rawKind = typeof item?.kind === 'string' ? item.kind.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+    let kind = (TOPIC_KINDS as string[]).includes(rawKind) ? rawKind as TopicKind : TOPIC_KIND_ALIASES[rawKind];
+    if (!kind) {
+      repairs.push({ path: `${path}.kind`, message: `${JSON.stringify(item?.kind)} replaced with "other"` });
+      kind = 'other';
+    }
+    topics.push({ label: normalized, kind, evidence: coerceEvidence(item?.evidence, `${path}.evidence`, repairs) });
+  });
+  return topics;
+};
+
+export const validateCallAnalysis = (raw: unknown, fields: CustomFieldDefinition[] = []): ValidationResult<CallAnalysis> => {
+  const errors: FieldError[] = [];
+  const repairs: FieldError[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: [{ path: '$', message: 'expected a JSON object' }], repairs };
+  }
+  const data = raw as Record<string, any>;
+
+  // Transcript: structured utterances preferred, a plain string accepted
+  const utterances = parseUtterances(data.utterances);
+  if (Array.isArray(data.utterances) && utterances.length < data.utterances.length) {
+    repairs.push({ path: 'utterances', message: `${data.utterances.length - utterances.length} entries without text dropped` });
+  }
+  let transcript = '';
+  if (utterances.length > 0) {
+    transcript = utterancesToText(utterances);
+  } else if (typeof data.transcript === 'string' && data.transcript.trim()) {
+    transcript = data.transcript;
+  } else {
+    errors.push({ path: 'utterances', message: 'missing or empty; a transcript is required' });
+  }
+
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  if (!summary) {
+    errors.push({ path: 'summary', message: data.summary === undefined ? 'missing' : 'must be a non-empty string' });
+  }
+
+  const sentiment = coerceSentiment(data.sentiment);
+  if (!sentiment) {
+    errors.push({ path: 'sentiment', message: `must be one of ${Object.values(CallSentiment).join(', ')}; got ${JSON.stringify(data.sentiment)}` });
+  } else if (sentiment !== data.sentiment) {
+    repairs.push({ path: 'sentiment', message: `${JSON.stringify(data.sentiment)} mapped to "${sentiment}"` });
+  }
+
+  const actionItems = coerceActionItems(data.actionItems, 'actionItems', repairs);
+  const keyInsights = coerceStringList(data.keyInsights, 'keyInsights', repairs);
+  const customFields = validateCustomFields(data.customFields, fields, errors, repairs);
+  const languages = coerceLanguages(data.languages, repairs);
+  const topics = coerceTopics(data.topics, repairs);
+
+  if (errors.length > 0) return { errors, repairs };
+  return {
+    value: {
+      transcript,
+      utterances: utterances.length > 0 ? utterances : undefined,
+      ...(languages.length > 0 && { languages }),
+      summary,
+      sentiment: sentiment as CallSentiment,
+      actionItems,
+      keyInsights,
+      topics,
+      ...(customFields ? { customFields } : {}),
+    },
+    errors,
+    repairs,
+  };
+};
+
+export const validateOverview = (raw: unknown, fields: CustomFieldDefinition[] = []): ValidationResult<ConsolidatedOverview> => {
+  const errors: FieldError[] = [];
+  const repairs: FieldError[] = [];
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  if (!summary) errors.push({ path: 'summary', message: 'missing or empty' });
+  const sentiment = coerceSentiment(data.sentiment);
+  if (!sentiment) errors.push({ path: 'sentiment', message: `must be one of ${Object.values(CallSentiment).join(', ')}` });
+  const customFields = validateCustomFields(data.customFields, fields, errors, repairs);
+
+  if (errors.length > 0 || !sentiment) return { errors, repairs };
+  return { value: { summary, sentiment, customFields }, errors, repairs };
+};
+
+const NOT_APPLICABLE = ['n/a', 'na', 'not applicable', 'none', 'null'];
+const PASS_WORDS: Record<string, number> = { pass: 1, passed: 1, yes: 1, true: 1, fail: 0, failed: 0, no: 0, false: 0 };
+
+const coerceCriterionScore = (
+  criterion: ScorecardCriterion,
+  value: unknown,
+  path: string,
+  errors: FieldError[],
+  repairs: FieldError[]
+): number | null => {
+  if (value === null) return null;
+  if (typeof value === 'string' && NOT_APPLICABLE.includes(value.trim().toLowerCase())) {
+    repairs.push({ path, message: `${JSON.stringify(value)} read as not applicable` });
+    return null;
+  }
+
+  if (criterion.scale === 'pass_fail') {
+    if (value === 1 || value === 0) return value;
+    if (typeof value === 'boolean') {
+      repairs.push({ path, message: `${value} read as ${value ? 'pass' : 'fail'}` });
+      return value ? 1 : 0;
+    }
+    const word = typeof value === 'string' ? PASS_WORDS[value.trim().toLowerCase()] : undefined;
+    if (word !== undefined) {
+      repairs.push({ path, message: `${JSON.stringify(value)} read as ${word ? 'pass' : 'fail'}` });
+      return word;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      repairs.push({ path, message: `${value} is not 0 or 1, read as ${value > 0 ? 'pass' : 'fail'}` });
+      return value > 0 ? 1 : 0;
+    }
+    errors.push({ path, message: `must be 1 (pass), 0 (fail) or null; got ${JSON.stringify(value)}` });
+    return null;
+  }
+
+  const number = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  if (!Number.isFinite(number)) {
+    errors.push({ path, message: `must be a number from 1 to 5 or null; got ${JSON.stringify(value)}` });
+    return null;
+  }
+  const clamped = Math.min(5, Math.max(1, Math.round(number)));
+  if (clamped !== value) repairs.push({ path, message: `${JSON.stringify(value)} read as ${clamped}` });
+  return clamped;
+};
+
+const coerceEvidence = (value: unknown, path: string, repairs: FieldError[]): TranscriptEvidence[] => {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  const evidence: TranscriptEvidence[] = [];
+  items.forEach((item, idx) => {
+    if (typeof item === 'string' && item.trim()) {
+      repairs.push({ path: `${path}[${idx}]`, message: 'was a string, used as the quote' });
+      evidence.push({ quote: item.trim() });
+    } else if (item && typeof item === 'object' && typeof item.quote === 'string' && item.quote.trim()) {
+      const start = typeof item.start === 'number' && Number.isFinite(item.start) && item.start >= 0 ? item.start : undefined;
+      evidence.push({ quote: item.quote.trim(), ...(start !== undefined ? { start } : {}) });
+    } else {
+      repairs.push({ path: `${path}[${idx}]`, message: 'unusable entry dropped' });
+    }
+  });
+  return evidence;
+};
+
+export const validateScorecardScores = (raw: unknown, criteria: ScorecardCriterion[]): ValidationResult<CriterionScore[]> => {
+  const errors: FieldError[] = [];
+  const repairs: FieldError[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: [{ path: '$', message: 'expected a JSON object' }], repairs };
+  }
+  const data = raw as Record<string, any>;
+
+  const scores = criteria.map((criterion): CriterionScore => {
+    const entry = data[criterion.id];
+    if (!entry || typeof entry !== 'object') {
+      errors.push({ path: criterion.id, message: 'missing; every criterion must be scored' });
+      return { criterionId: criterion.id, score: null, justification: '', evidence: [] };
+    }
+    const justification = typeof entry.justification === 'string' ? entry.justification.trim() : '';
+    if (!justification) errors.push({ path: `${criterion.id}.justification`, message: 'missing or empty' });
+    return {
+      criterionId: criterion.id,
+      score: coerceCriterionScore(criterion, entry.score, `${criterion.id}.score`, errors, repairs),
+      justification,
+      evidence: coerceEvidence(entry.evidence, `${criterion.id}.evidence`, repairs),
+    };
+  });
+
+  if (errors.length > 0) return { errors, repairs };
+  return { value: scores, errors, repairs };
+};
+
+const PII_TYPE_ALIASES: Record<string, PiiType> = {
+  name: 'person',
+  credit_card: 'card',
+  card_number: 'card',
+  account: 'bank_account',
+  iban: 'bank_account',
+  phone_number: 'phone',
+  email_address: 'email',
+  dob: 'date_of_birth',
+  id: 'id_number',
+};
+
+export const validatePiiEntities = (raw: unknown): ValidationResult<PiiCandidate[]> => {
+  const repairs: FieldError[] = [];
+  const entities = raw && typeof raw === 'object' ? (raw as Record<string, any>).entities : undefined;
+  if (!Array.isArray(entities)) {
+    return { errors: [{ path: 'entities', message: 'expected an array' }], repairs };
+  }
+
+  const value: PiiCandidate[] = [];
+  entities.forEach((entry, idx) => {
+    const rawType = typeof entry?.type === 'string' ? entry.type.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+    const type = (PII_TYPES as string[]).includes(rawType) ? rawType as PiiType : PII_TYPE_ALIASES[rawType];
+    const text = typeof entry?.text === 'string' ? entry.text.trim() : '';
+    if (!type || !text) {
+      repairs.push({ path: `entities[${idx}]`, message: 'dropped; unknown type or empty text' });
+      return;
+    }
+    value.push({ type, text, source: 'model' });
+  });
+  return { value, errors: [], repairs };
+};
+
+// Shown instead of an answer whose citations all failed the check, as if the material had no answer
+export const UNSUPPORTED_ANSWER = 'The calls do not clearly answer that; none of the quoted lines could be found in the transcripts.';
+
+// Citations are checked against the lines the model was shown. A quote that cannot be found in the
+// transcript is dropped, and an answer left without any of the citations it gave is not shown.
+export const validateAnswer = (raw: unknown, sources: QuestionSource[]): ValidationResult<CallAnswer> => {
+  const repairs: FieldError[] = [];
+  const data = raw && typeof raw === 'object' ? raw as Record<string, any> : {};
+  const answer = typeof data.answer === 'string' ? data.answer.trim() : '';
+  if (!answer) {
+    return { errors: [{ path: 'answer', message: 'expected a non-empty string' }], repairs };
+  }
+
+  const rawCitations = Array.isArray(data.citations) ? data.citations : [];
+  if (data.citations !== undefined && !Array.isArray(data.citations)) {
+    repairs.push({ path: 'citations', message: 'not an array, ignored' });
+  }
+  const citations: AnswerCitation[] = [];
+  rawCitations.forEach((entry: any, idx: number) => {
+    const path = `citations[${idx}]`;
+    const label = typeof entry?.source === 'string' ? entry.source.trim().toUpperCase() : '';
+    const source = sources.find(s => s.label === label);
+    const quote = typeof entry?.quote === 'string' ? entry.quote.trim() : '';
+    const lineId = typeof entry?.line === 'number' ? entry.line : undefined;
+    if (!source) {
+      repairs.push({ path, message: `unknown source "${entry?.source}", dropped` });
+      return;
+    }
+    const line = locateQuote(source, quote, lineId);
+    if (!line) {
+      repairs.push({ path, message: 'quote not found in the transcript, dropped' });
+      return;
+    }
+    const citation: AnswerCitation = {
+      callId: source.call.id,
+      quote,
+      ...(line.start !== undefined && { start: line.start }),
+    };
+    if (!citations.some(c => c.callId === citation.callId && c.quote === citation.quote)) citations.push(citation);
+  });
+
+  if (rawCitations.length > 0 && citations.length === 0) {
+    repairs.push({ path: 'answer', message: 'no citation could be verified, answer withheld' });
+    return { value: { answer: UNSUPPORTED_ANSWER, citations }, errors: [], repairs };
+  }
+  return { value: { answer, citations }, errors: [], repairs };
+};
+
+// Follow-up instruction sent when a response fails validation
+export const buildCorrectionPrompt = (errors: FieldError[]): string => `
+    Your previous response did not match the required JSON structure:
+    ${errors.map(e => `- ${e.path}: ${e.message}`).join('\n    ')}
+
+    Return the complete corrected JSON object. Do not wrap in markdown. Return raw JSON.
+  `;
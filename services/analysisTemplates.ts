@@ -0,0 +1,93 @@
+import { AnalysisTemplate } from "../types";
+import { browserStorage, createDefinitionStore, DefinitionStore } from "./definitionStore";
+
+// Analysis templates add call-type specific instructions and custom output fields on top of the
+// standard summary, sentiment, action items and insights.
+
+// --- Built-in Templates ---
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General',
+    instructions: '',
+    fields: [],
+    builtIn: true,
+  },
+  {
+    id: 'support',
+    name: 'Customer Support',
+    instructions: 'This is a customer support call. Focus on the customer\'s problem, how it was handled and whether it was resolved.',
+    fields: [
+      { key: 'issueCategory', label: 'Issue Category', type: 'enum', description: 'Main category of the customer\'s issue.', options: ['Billing', 'Technical', 'Account', 'Shipping', 'Other'] },
+      { key: 'resolved', label: 'Resolved', type: 'boolean', description: 'Whether the issue was fully resolved during the call.' },
+      { key: 'customerEffort', label: 'Customer Effort (1-5)', type: 'number', description: 'How much effort the customer had to spend, from 1 (very easy) to 5 (very hard).' },
+      { key: 'productsMentioned', label: 'Products Mentioned', type: 'list', description: 'Products or services discussed.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'sales',
+    name: 'Sales',
+    instructions: 'This is a sales call. Focus on the prospect\'s needs, objections, budget and the agreed next step.',
+    fields: [
+      { key: 'dealStage', label: 'Deal Stage', type: 'enum', description: 'Stage of the deal after this call.', options: ['Discovery', 'Demo', 'Proposal', 'Negotiation', 'Closed Won', 'Closed Lost'] },
+      { key: 'budgetDiscussed', label: 'Budget Discussed', type: 'boolean', description: 'Whether budget or pricing was discussed.' },
+      { key: 'objections', label: 'Objections', type: 'list', description: 'Objections raised by the prospect.' },
+      { key: 'competitors', label: 'Competitors', type: 'list', description: 'Competing vendors mentioned.' },
+      { key: 'nextStep', label: 'Next Step', type: 'text', description: 'The concrete next step agreed on, with its date if one was given.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'recruiting',
+    name: 'Recruiting Interview',
+    instructions: 'This is a job interview or recruiting screen. The agent is the recruiter and the customer is the candidate.',
+    fields: [
+      { key: 'position', label: 'Position', type: 'text', description: 'The role being discussed.' },
+      { key: 'yearsOfExperience', label: 'Years of Experience', type: 'number', description: 'The candidate\'s relevant years of experience.' },
+      { key: 'skills', label: 'Skills', type: 'list', description: 'Skills and technologies the candidate demonstrated or claimed.' },
+      { key: 'salaryExpectation', label: 'Salary Expectation', type: 'text', description: 'The candidate\'s stated salary expectation.' },
+      { key: 'recommendation', label: 'Recommendation', type: 'enum', description: 'Whether the candidate should move forward.', options: ['Advance', 'Hold', 'Reject'] },
+    ],
+    builtIn: true,
+  },
+];
+
+// --- Field Helpers ---
+
+// Derives a JSON-safe camelCase key from a field label, e.g. "Deal Stage" -> "dealStage"
+export const fieldKeyFromLabel = (label: string): string => {
+  const words = label.trim().replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const key = words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase())).join('');
+  return /^[0-9]/.test(key) ? `field${key}` : key;
+};
+
+// The standard outputs; custom fields may not reuse their names
+const RESERVED_KEYS = ['utterances', 'transcript', 'languages', 'summary', 'sentiment', 'actionItems', 'keyInsights', 'topics', 'customFields'];
+
+// Returns problems that would stop the template from producing a usable schema
+export const validateTemplate = (template: AnalysisTemplate): string[] => {
+  const problems: string[] = [];
+  if (!template.name.trim()) problems.push('The template needs a name.');
+  const seen = new Set<string>();
+  template.fields.forEach((field, idx) => {
+    const name = field.label.trim() || `Field ${idx + 1}`;
+    if (!field.label.trim()) problems.push(`Field ${idx + 1} needs a label.`);
+    if (!field.key) problems.push(`${name} needs a label containing letters or numbers.`);
+    else if (RESERVED_KEYS.includes(field.key)) problems.push(`${name} clashes with a standard field.`);
+    else if (seen.has(field.key)) problems.push(`${name} is defined more than once.`);
+    seen.add(field.key);
+    if (field.type === 'enum' && (!field.options || field.options.filter(o => o.trim()).length < 2)) {
+      problems.push(`${name} needs at least two options.`);
+    }
+  });
+  return problems;
+};
+
+// --- Template Store ---
+
+export const templateStore: DefinitionStore<AnalysisTemplate> =
+  createDefinitionStore('callbrain.templates', BUILT_IN_TEMPLATES, browserStorage);
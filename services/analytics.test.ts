@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { addDays } from "./actionItems";
+import { fitGranularity, listPeriods, MAX_PERIODS, periodStart } from "./analytics";
+
+const THREE_YEARS = { from: '2023-01-01', to: '2025-12-31' };
+const TEN_YEARS = { from: '2016-01-01', to: '2025-12-31' };
+
+describe('fitGranularity', () => {
+  it('keeps the chosen granularity while it fits', () => {
+    expect(fitGranularity({ from: '2025-01-01', to: addDays('2025-01-01', MAX_PERIODS - 1) }, 'day')).toBe('day');
+    expect(fitGranularity(THREE_YEARS, 'week')).toBe('week');
+    expect(fitGranularity(THREE_YEARS, 'month')).toBe('month');
+  });
+
+  it('moves to the finest coarser granularity that fits', () => {
+    expect(fitGranularity({ from: '2025-01-01', to: addDays('2025-01-01', MAX_PERIODS) }, 'day')).toBe('week');
+    expect(fitGranularity(THREE_YEARS, 'day')).toBe('week');
+    expect(fitGranularity(TEN_YEARS, 'day')).toBe('month');
+    expect(fitGranularity(TEN_YEARS, 'week')).toBe('month');
+  });
+
+  it('never goes finer than asked', () => {
+    expect(fitGranularity({ from: '2025-03-01', to: '2025-03-05' }, 'month')).toBe('month');
+  });
+
+  it('falls back to months for ranges too long even for those', () => {
+    expect(fitGranularity({ from: '1025-01-01', to: '2025-12-31' }, 'day')).toBe('month');
+  });
+});
+
+describe('listPeriods', () => {
+  it('lists months across year boundaries', () => {
+    const periods = listPeriods({ from: '2023-11-15', to: '2026-02-10' }, 'month');
+    expect(periods).toHaveLength(28);
+    expect(periods.slice(0, 3)).toEqual(['2023-11-01', '2023-12-01', '2024-01-01']);
+    expect(periods.slice(-3)).toEqual(['2025-12-01', '2026-01-01', '2026-02-01']);
+  });
+
+  it('lists Monday-based weeks over several years', () => {
+    const periods = listPeriods(THREE_YEARS, 'week');
+    // 2023-01-01 is a Sunday, so its week starts the Monday before
+    expect(periods[0]).toBe('2022-12-26');
+    expect(periods[periods.length - 1]).toBe(periodStart(THREE_YEARS.to, 'week'));
+    expect(periods).toHaveLength(158);
+    periods.slice(1).forEach((period, idx) => expect(period).toBe(addDays(periods[idx], 7)));
+  });
+
+  it('includes leap days', () => {
+    expect(listPeriods({ from: '2024-02-27', to: '2024-03-02' }, 'day')).toEqual([
+      '2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01', '2024-03-02',
+    ]);
+  });
+
+  it('keeps the latest periods of ranges longer than the limit', () => {
+    const days = listPeriods(THREE_YEARS, 'day');
+    expect(days).toHaveLength(MAX_PERIODS);
+    expect(days[days.length - 1]).toBe('2025-12-31');
+    expect(days[0]).toBe(addDays('2025-12-31', -(MAX_PERIODS - 1)));
+
+    const months = listPeriods({ from: '1025-01-01', to: '2025-12-31' }, 'month');
+    expect(months).toHaveLength(MAX_PERIODS);
+    expect(months[0]).toBe('1992-09-01');
+    expect(months[months.length - 1]).toBe('2025-12-01');
+  });
+});
@@ -0,0 +1,210 @@
+import { CallRecord, CallSentiment } from "../types";
+import { addDays, toDateString } from "./actionItems";
+
+// Time-series analytics for the dashboard. Calls are bucketed by the day they were uploaded
+// (CallRecord.timestamp) in the user's local time zone.
+
+// --- Sentiment ---
+
+export const SENTIMENT_SCORES: Record<CallSentiment, number> = {
+  [CallSentiment.POSITIVE]: 1,
+  [CallSentiment.NEUTRAL]: 0,
+  [CallSentiment.NEGATIVE]: -1,
+};
+
+// Mean sentiment from -1 (all negative) to 1 (all positive); null when nothing was analyzed
+export const averageSentiment = (calls: CallRecord[]): number | null => {
+  const scores = calls.filter(c => c.analysis).map(c => SENTIMENT_SCORES[c.analysis!.sentiment]);
+  return scores.length > 0 ? scores.reduce((acc, s) => acc + s, 0) / scores.length : null;
+};
+
+// Averages within a third of the range from zero read as neutral
+export const sentimentLabel = (score: number): CallSentiment => {
+  if (score > 1 / 3) return CallSentiment.POSITIVE;
+  if (score < -1 / 3) return CallSentiment.NEGATIVE;
+  return CallSentiment.NEUTRAL;
+};
+
+export const formatSentimentScore = (score: number | null): string =>
+  score === null ? '–' : `${score > 0 ? '+' : ''}${score.toFixed(2)}`;
+
+// --- Date Ranges ---
+
+export type RangePreset = '7d' | '30d' | '90d' | '12m' | 'all' | 'custom';
+
+export const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '12m', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+}
+
+export const callDay = (call: CallRecord) => toDateString(new Date(call.timestamp));
+
+export const resolveRange = (
+  preset: RangePreset,
+  custom: Partial<DateRange>,
+  calls: CallRecord[],
+  today = toDateString(new Date())
+): DateRange => {
+  switch (preset) {
+    case '7d': return { from: addDays(today, -6), to: today };
+    case '30d': return { from: addDays(today, -29), to: today };
+    case '90d': return { from: addDays(today, -89), to: today };
+    case '12m': {
+      const [y, m] = today.split('-').map(Number);
+      return { from: toDateString(new Date(y - 1, m, 1)), to: today };
+    }
+    case 'all':
+    case 'custom': {
+      const days = calls.map(callDay).sort();
+      const from = (preset === 'custom' && custom.from) || days[0] || today;
+      const to = (preset === 'custom' && custom.to) || today;
+      return from <= to ? { from, to } : { from: to, to: from };
+    }
+  }
+};
+
+export const callsInRange = (calls: CallRecord[], range: DateRange): CallRecord[] =>
+  calls.filter(call => {
+    const day = callDay(call);
+    return day >= range.from && day <= range.to;
+  });
+
+// --- Periods ---
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+const parseDay = (day: string): Date => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Weeks start on Monday
+export const periodStart = (day: string, granularity: Granularity): string => {
+  switch (granularity) {
+    case 'day': return day;
+    case 'week': return addDays(day, -((parseDay(day).getDay() + 6) % 7));
+    case 'month': return `${day.slice(0, 7)}-01`;
+  }
+};
+
+const nextPeriod = (start: string, granularity: Granularity): string => {
+  switch (granularity) {
+    case 'day': return addDays(start, 1);
+    case 'week': return addDays(start, 7);
+    case 'month': {
+      const date = parseDay(start);
+      return toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 1));
+    }
+  }
+};
+
+export const formatPeriod = (start: string, granularity: Granularity): string => {
+  const date = parseDay(start);
+  if (granularity === 'month') return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const spanDays = (range: DateRange): number =>
+  Math.round((parseDay(range.to).getTime() - parseDay(range.from).getTime()) / 86_400_000) + 1;
+
+// A daily chart over several years has more bars than pixels
+export const suggestGranularity = (range: DateRange): Granularity => {
+  const days = spanDays(range);
+  if (days <= 45) return 'day';
+  if (days <= 270) return 'week';
+  return 'month';
+};
+
+// Charts never get more periods than this. A custom range is briefly centuries long while its year is
+// being typed, and one bar per day of that would stall the page.
+export const MAX_PERIODS = 400;
+
+const PERIOD_DAYS: Record<Granularity, number> = { day: 1, week: 7, month: 31 };
+
+// The chosen granularity, or the finest coarser one that stays within MAX_PERIODS
+export const fitGranularity = (range: DateRange, granularity: Granularity): Granularity => {
+  const days = spanDays(range);
+  const order: Granularity[] = ['day', 'week', 'month'];
+  return order.slice(order.indexOf(granularity)).find(g => days / PERIOD_DAYS[g] <= MAX_PERIODS) || 'month';
+};
+
+// Start of the earliest of the last MAX_PERIODS periods up to the given day
+const earliestPeriod = (to: string, granularity: Granularity): string => {
+  switch (granularity) {
+    case 'day': return addDays(to, -(MAX_PERIODS - 1));
+    case 'week': return addDays(periodStart(to, 'week'), -7 * (MAX_PERIODS - 1));
+    case 'month': {
+      const date = parseDay(to);
+      return toDateString(new Date(date.getFullYear(), date.getMonth() - (MAX_PERIODS - 1), 1));
+    }
+  }
+};
+
+// Start days of every period overlapping the range, in order. Longer ranges keep their latest MAX_PERIODS periods.
+export const listPeriods = (range: DateRange, granularity: Granularity): string[] => {
+  const periods: string[] = [];
+  const first = periodStart(range.from, granularity);
+  const earliest = earliestPeriod(range.to, granularity);
+  for (let period = first > earliest ? first : earliest; period <= range.to; period = nextPeriod(period, granularity)) {
+    periods.push(period);
+  }
+  return periods;
+};
+
+export interface PeriodStats {
+  period: string; // First day of the period, YYYY-MM-DD
+  label: string;
+  calls: number;
+  failed: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  avgSentiment: number | null;
+  openActionItems: number;
+  doneActionItems: number;
+}
+
+// One entry per period in the range, including periods without calls so gaps show on the axis
+export const buildTimeSeries = (calls: CallRecord[], range: DateRange, granularity: Granularity): PeriodStats[] => {
+  const byPeriod = new Map<string, CallRecord[]>();
+  callsInRange(calls, range).forEach(call => {
+    const key = periodStart(callDay(call), granularity);
+    if (!byPeriod.has(key)) byPeriod.set(key, []);
+    byPeriod.get(key)!.push(call);
+  });
+
+  return listPeriods(range, granularity).map((period): PeriodStats => {
+    const periodCalls = byPeriod.get(period) || [];
+    const analyzed = periodCalls.filter(c => c.status === 'completed' && c.analysis);
+    const count = (sentiment: CallSentiment) => analyzed.filter(c => c.analysis!.sentiment === sentiment).length;
+    const items = analyzed.flatMap(c => c.analysis!.actionItems);
+    const done = items.filter(i => i.status === 'done').length;
+    return {
+      period,
+      label: formatPeriod(period, granularity),
+      calls: periodCalls.length,
+      failed: periodCalls.filter(c => c.status === 'failed').length,
+      positive: count(CallSentiment.POSITIVE),
+      neutral: count(CallSentiment.NEUTRAL),
+      negative: count(CallSentiment.NEGATIVE),
+      avgSentiment: averageSentiment(analyzed),
+      openActionItems: items.length - done,
+      doneActionItems: done,
+    };
+  });
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { mixToMono, SEGMENT_OVERLAP_SECONDS, splitIntoSegments } from "./audioConversion";
+
+describe('mixToMono', () => {
+  it('averages the channels', () => {
+    const mixed = mixToMono({ channels: [Float32Array.from([1, 0.5, -1]), Float32Array.from([0, 0.5, 1])], sampleRate: 8000 });
+    expect(Array.from(mixed.samples)).toEqual([0.5, 0.5, 0]);
+    expect(mixed.sampleRate).toBe(8000);
+  });
+
+  it('uses a single channel without copying it', () => {
+    const channel = Float32Array.from([0.25, -0.25]);
+    expect(mixToMono({ channels: [channel], sampleRate: 16000 }).samples).toBe(channel);
+  });
+
+  it('reports progress up to the end', () => {
+    const length = 200_000;
+    const fractions: number[] = [];
+    mixToMono({ channels: [new Float32Array(length), new Float32Array(length)], sampleRate: 16000 }, (f) => fractions.push(f));
+    expect(fractions.length).toBeGreaterThan(1);
+    expect(fractions[fractions.length - 1]).toBe(1);
+  });
+});
+
+describe('splitIntoSegments', () => {
+  const audio = { samples: new Float32Array(100 * 100), sampleRate: 100 };
+
+  it('covers the call with overlapping segments', () => {
+    const segments = splitIntoSegments(audio, 40);
+    expect(segments.map(s => [s.startTime, s.endTime])).toEqual([[0, 40], [30, 70], [60, 100]]);
+    expect(segments[1].startTime).toBe(segments[0].endTime - SEGMENT_OVERLAP_SECONDS);
+    expect(segments[1].audio.samples.length).toBe(40 * 100);
+  });
+
+  it('can start part way through the call', () => {
+    const segments = splitIntoSegments(audio, 25, 60);
+    expect(segments.map(s => [s.index, s.startTime, s.endTime])).toEqual([[0, 60, 85], [1, 75, 100]]);
+  });
+});
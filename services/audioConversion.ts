@@ -0,0 +1,140 @@
+import { throwIfAborted } from "./abort";
+
+// Audio decoding, resampling and segmentation used to prepare recordings for analysis. Decoding and
+// resampling need an AudioContext and so run here, though the browser does the work off the main
+// thread; the mixdown and everything after run in the conversion worker (see conversionPool.ts).
+
+// Mono samples with their rate: what the pipeline works on after resampling. Unlike an AudioBuffer
+// it can be handed to the conversion worker, and its samples transferred rather than copied.
+export interface PcmAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export const pcmDuration = (audio: PcmAudio): number => audio.samples.length / audio.sampleRate;
+
+// Resampled audio before the mixdown, with the first two channels kept apart
+export interface ChannelAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+// Decoding and rendering cannot be interrupted, so the signal is checked after each.
+
+// Samples between progress reports in the mixdown
+const MIX_CHUNK = 1 << 16;
+
+// Decodes an audio file at its own sample rate, keeping every channel
+export const decodeAudio = async (file: Blob, signal?: AbortSignal): Promise<AudioBuffer> => {
+  const arrayBuffer = await file.arrayBuffer();
+  throwIfAborted(signal);
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+    throwIfAborted(signal);
+  }
+};
+
+// Resamples to `sampleRate` (16kHz by default, see Settings); low-rate mono keeps speech
+// intelligible at a fraction of the size. Recordings with more than two channels are mixed down to
+// stereo here; the mixdown to mono happens in the worker (mixToMono).
+export const resampleChannels = async (audioBuffer: AudioBuffer, sampleRate: number, signal?: AbortSignal): Promise<ChannelAudio> => {
+  const offlineCtx = new OfflineAudioContext(
+    Math.min(2, audioBuffer.numberOfChannels),
+    Math.ceil(audioBuffer.duration * sampleRate),
+    sampleRate
+  );
+
+  const source = offlineCtx.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(offlineCtx.destination);
+  source.start();
+
+  const rendered = await offlineCtx.startRendering();
+  throwIfAborted(signal);
+  // Not copied: nothing else holds the rendered buffer, so its storage can be transferred to the worker
+  const channels = Array.from({ length: rendered.numberOfChannels }, (_, c) => rendered.getChannelData(c));
+  return { channels, sampleRate };
+};
+
+// Averages the channels, as the Web Audio downmix does. A single channel is used as it is.
+export const mixToMono = ({ channels, sampleRate }: ChannelAudio, onProgress?: (fraction: number) => void): PcmAudio => {
+  if (channels.length === 1) return { samples: channels[0], sampleRate };
+  const samples = new Float32Array(Math.min(...channels.map(c => c.length)));
+  const scale = 1 / channels.length;
+  for (let start = 0; start < samples.length; start += MIX_CHUNK) {
+    const end = Math.min(samples.length, start + MIX_CHUNK);
+    for (let i = start; i < end; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel[i];
+      samples[i] = sum * scale;
+    }
+    onProgress?.(end / samples.length);
+  }
+  return { samples, sampleRate };
+};
+
+// --- Long Call Segmentation ---
+
+// Shared audio between neighbouring segments so words cut at a boundary are heard in full at least once
+export const SEGMENT_OVERLAP_SECONDS = 10;
+
+export interface AudioSegment {
+  index: number;
+  startTime: number; // seconds from the start of the call
+  endTime: number;
+  audio: PcmAudio; // A copy, so it can be transferred on its own
+}
+
+const slicePcm = (audio: PcmAudio, startTime: number, endTime: number): PcmAudio => {
+  const startSample = Math.floor(startTime * audio.sampleRate);
+  const endSample = Math.min(audio.samples.length, Math.ceil(endTime * audio.sampleRate));
+  return { samples: audio.samples.slice(startSample, Math.max(startSample + 1, endSample)), sampleRate: audio.sampleRate };
+};
+
+// Segments are `segmentSeconds` long, which must exceed the overlap, and cover the call from `fromTime` on
+export const splitIntoSegments = (audio: PcmAudio, segmentSeconds: number, fromTime = 0): AudioSegment[] => {
+  const segments: AudioSegment[] = [];
+  const duration = pcmDuration(audio);
+  const step = segmentSeconds - SEGMENT_OVERLAP_SECONDS;
+  for (let start = fromTime; start < duration; start += step) {
+    const end = Math.min(duration, start + segmentSeconds);
+    segments.push({ index: segments.length, startTime: start, endTime: end, audio: slicePcm(audio, start, end) });
+    if (end >= duration) break;
+  }
+  return segments;
+};
+
+// Length of a recording from its metadata, without decoding it. Null when the browser cannot tell,
+// which includes MediaRecorder WebM files that carry no duration.
+export const readDuration = (file: Blob): Promise<number | null> => new Promise((resolve) => {
+  const url = URL.createObjectURL(file);
+  const audio = new Audio();
+  const finish = (seconds: number | null) => {
+    audio.removeAttribute('src');
+    URL.revokeObjectURL(url);
+    resolve(seconds);
+  };
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+  audio.onerror = () => finish(null);
+  audio.src = url;
+});
+
+// --- Encoding Helpers ---
+
+// Bytes per btoa call; a multiple of 3 so the pieces join without padding in between
+const BASE64_CHUNK = 3 * 0x2000;
+
+// Base64 for inline request data, built in pieces so progress can be reported
+export const bytesToBase64 = (bytes: Uint8Array, onProgress?: (fraction: number) => void): string => {
+  const pieces: string[] = [];
+  for (let start = 0; start < bytes.length; start += BASE64_CHUNK) {
+    const chunk = bytes.subarray(start, Math.min(bytes.length, start + BASE64_CHUNK));
+    pieces.push(btoa(String.fromCharCode.apply(null, chunk as unknown as number[])));
+    onProgress?.(Math.min(1, (start + BASE64_CHUNK) / bytes.length));
+  }
+  return pieces.join('');
+};
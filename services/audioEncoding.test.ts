@@ -0,0 +1,294 @@
+import { describe, expect, it } from "vitest";
+import { PcmAudio } from "./audioConversion";
+import { DEFAULT_ENCODING, encodeFlac, encodeMulawWav, encodeWav, estimateEncodedBytes } from "./audioEncoding";
+
+// --- Test Signals ---
+
+// Float samples that map back to exactly these 16-bit values, so lossless formats can be compared exactly
+const fromInt16 = (values: number[], sampleRate = 16000): PcmAudio => ({
+  samples: Float32Array.from(values, v => (v < 0 ? v / 0x8000 : v / 0x7FFF)),
+  sampleRate,
+});
+
+// Deterministic pseudo-random numbers in [0, 1)
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+const speechLike = (length: number): number[] => {
+  const next = random(7);
+  return Array.from({ length }, (_, i) =>
+    Math.round(8000 * Math.sin(i / 9) * Math.sin(i / 700) + 3000 * Math.sin(i / 3.1) + (next() - 0.5) * 400) || 0);
+};
+
+const noise = (length: number): number[] => {
+  const next = random(11);
+  return Array.from({ length }, () => Math.round((next() * 2 - 1) * 32767));
+};
+
+// --- FLAC Decoder ---
+// Reads what encodeFlac writes: one STREAMINFO block and mono 16-bit frames with CONSTANT,
+// VERBATIM or FIXED subframes using a single Rice partition.
+
+class BitReader {
+  position = 0; // In bits
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+      value = value * 2 + bit;
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(count: number): number {
+    const value = this.read(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  alignToByte() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+
+  get byteOffset() {
+    return this.position >> 3;
+  }
+}
+
+const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  bytes.forEach(byte => {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+  });
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  bytes.forEach(byte => {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+  });
+  return crc;
+};
+
+const readUtf8Number = (reader: BitReader): number => {
+  const first = reader.read(8);
+  let continuation = 0;
+  while (first & (0x80 >> continuation)) continuation++;
+  if (continuation === 0) return first;
+  let value = first & (0x7F >> continuation);
+  for (let i = 1; i < continuation; i++) value = value * 64 + (reader.read(8) & 0x3F);
+  return value;
+};
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const decodeFlac = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  const reader = new BitReader(bytes);
+  expect(reader.read(32)).toBe(0x664C6143); // "fLaC"
+  const lastMetadata = reader.read(1);
+  const blockType = reader.read(7);
+  const blockLength = reader.read(24);
+  const info = {
+    lastMetadata,
+    blockType,
+    blockLength,
+    minBlockSize: reader.read(16),
+    maxBlockSize: reader.read(16),
+    minFrameSize: reader.read(24),
+    maxFrameSize: reader.read(24),
+    sampleRate: reader.read(20),
+    channels: reader.read(3) + 1,
+    bitsPerSample: reader.read(5) + 1,
+    totalSamples: reader.read(36),
+  };
+  reader.position += 128; // MD5
+
+  const samples: number[] = [];
+  const frames: { number: number; blockSize: number; subframe: string }[] = [];
+  while (reader.byteOffset < bytes.length) {
+    const frameStart = reader.byteOffset;
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    const blockSizeCode = reader.read(4);
+    expect(reader.read(4)).toBe(0); // Sample rate from STREAMINFO
+    expect(reader.read(4)).toBe(0); // Mono
+    expect(reader.read(3)).toBe(0b100); // 16 bits
+    reader.read(1);
+    const number = readUtf8Number(reader);
+    const blockSize = blockSizeCode === 0b1100 ? 4096 : blockSizeCode === 0b0111 ? reader.read(16) + 1 : NaN;
+    const headerCrc = crc8(bytes.subarray(frameStart, reader.byteOffset));
+    expect(reader.read(8)).toBe(headerCrc);
+
+    expect(reader.read(1)).toBe(0);
+    const type = reader.read(6);
+    expect(reader.read(1)).toBe(0); // No wasted bits
+    const block: number[] = [];
+    let subframe: string;
+    if (type === 0) {
+      subframe = 'constant';
+      block.push(...new Array(blockSize).fill(reader.readSigned(16)));
+    } else if (type === 1) {
+      subframe = 'verbatim';
+      for (let i = 0; i < blockSize; i++) block.push(reader.readSigned(16));
+    } else {
+      expect(type & 0b111000).toBe(0b001000);
+      const order = type & 0b111;
+      subframe = `fixed${order}`;
+      for (let i = 0; i < order; i++) block.push(reader.readSigned(16));
+      expect(reader.read(2)).toBe(0); // 4-bit Rice parameters
+      expect(reader.read(4)).toBe(0); // One partition
+      const parameter = reader.read(4);
+      for (let i = order; i < blockSize; i++) {
+        const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+        const residual = folded & 1 ? -(folded + 1) / 2 : folded / 2;
+        const prediction = FIXED_COEFFICIENTS[order].reduce((acc, c, k) => acc + c * block[i - 1 - k], 0);
+        block.push(prediction + residual);
+      }
+    }
+    reader.alignToByte();
+    const frameCrc = crc16(bytes.subarray(frameStart, reader.byteOffset));
+    expect(reader.read(16)).toBe(frameCrc);
+    samples.push(...block);
+    frames.push({ number, blockSize, subframe });
+  }
+  return { info, samples, frames };
+};
+
+// --- Mu-law Decoder ---
+
+const mulawToLinear = (byte: number): number => {
+  const value = ~byte & 0xFF;
+  const magnitude = ((((value & 0x0F) << 3) + 0x84) << ((value >> 4) & 0x07)) - 0x84;
+  return value & 0x80 ? -magnitude : magnitude;
+};
+
+const ascii = (view: DataView, offset: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, offset, 4));
+
+// --- Tests ---
+
+describe('DEFAULT_ENCODING', () => {
+  it('is WAV, leaving the compressed formats opt-in', () => {
+    expect(DEFAULT_ENCODING).toBe('wav');
+  });
+});
+
+describe('encodeWav', () => {
+  it('round-trips 16-bit samples', () => {
+    const values = speechLike(1000);
+    const view = new DataView(encodeWav(fromInt16(values, 22050)));
+    expect(ascii(view, 0)).toBe('RIFF');
+    expect(view.getUint32(24, true)).toBe(22050);
+    expect(view.getUint32(40, true)).toBe(2000);
+    expect(Array.from({ length: values.length }, (_, i) => view.getInt16(44 + i * 2, true))).toEqual(values);
+  });
+});
+
+describe('encodeFlac', () => {
+  it('round-trips speech-like audio through fixed predictors', () => {
+    const values = speechLike(4096 * 3 + 123);
+    const { info, samples, frames } = decodeFlac(encodeFlac(fromInt16(values)));
+
+    expect(info).toMatchObject({
+      lastMetadata: 1,
+      blockType: 0,
+      blockLength: 34,
+      minBlockSize: 4096,
+      maxBlockSize: 4096,
+      sampleRate: 16000,
+      channels: 1,
+      bitsPerSample: 16,
+      totalSamples: values.length,
+    });
+    expect(samples).toEqual(values);
+    expect(frames.map(f => f.number)).toEqual([0, 1, 2, 3]);
+    expect(frames.map(f => f.blockSize)).toEqual([4096, 4096, 4096, 123]);
+    expect(frames.every(f => f.subframe.startsWith('fixed'))).toBe(true);
+  });
+
+  it('compresses speech-like audio below the size of WAV', () => {
+    const audio = fromInt16(speechLike(16000));
+    expect(encodeFlac(audio).byteLength).toBeLessThan(encodeWav(audio).byteLength * 0.8);
+  });
+
+  it('stores silence as constant subframes', () => {
+    const { samples, frames } = decodeFlac(encodeFlac(fromInt16(new Array(5000).fill(0))));
+    expect(samples).toEqual(new Array(5000).fill(0));
+    expect(frames.map(f => f.subframe)).toEqual(['constant', 'constant']);
+  });
+
+  it('falls back to verbatim subframes for full-scale noise', () => {
+    const values = noise(4096);
+    const { samples, frames } = decodeFlac(encodeFlac(fromInt16(values)));
+    expect(samples).toEqual(values);
+    expect(frames[0].subframe).toBe('verbatim');
+  });
+
+  it('clamps out-of-range samples to 16 bits', () => {
+    const { samples } = decodeFlac(encodeFlac({ samples: Float32Array.from([1.5, -1.5, 0.5, -0.5]), sampleRate: 8000 }));
+    expect(samples).toEqual([32767, -32768, 16384, -16384]);
+  });
+
+  it('writes multi-byte frame numbers past frame 127', () => {
+    // Silent frames are constant subframes, which keeps this fast; the last ones carry audio
+    const values = [...new Array(4096 * 128).fill(0), ...speechLike(4096 * 2)];
+    const { samples, frames } = decodeFlac(encodeFlac(fromInt16(values)));
+    expect(frames.map(f => f.number)).toEqual(Array.from({ length: 130 }, (_, i) => i));
+    expect(samples).toEqual(values);
+  });
+});
+
+describe('encodeMulawWav', () => {
+  it('writes a mu-law WAV header', () => {
+    const view = new DataView(encodeMulawWav(fromInt16(speechLike(801), 8000)));
+    expect(ascii(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(ascii(view, 8)).toBe('WAVE');
+    expect(ascii(view, 12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(18);
+    expect(view.getUint16(20, true)).toBe(7); // WAVE_FORMAT_MULAW
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(8000);
+    expect(view.getUint32(28, true)).toBe(8000);
+    expect(view.getUint16(32, true)).toBe(1);
+    expect(view.getUint16(34, true)).toBe(8);
+    expect(ascii(view, 38)).toBe('fact');
+    expect(view.getUint32(46, true)).toBe(801);
+    expect(ascii(view, 50)).toBe('data');
+    expect(view.getUint32(54, true)).toBe(801);
+    // Odd data lengths are padded to an even chunk size
+    expect(view.byteLength).toBe(58 + 802);
+    expect(view.byteLength).toBe(estimateEncodedBytes('mulaw', 801 / 8000, 16000) + 1);
+  });
+
+  it('round-trips samples within the mu-law quantization step', () => {
+    const values = [...speechLike(2000), 0, 1, -1, 32767, -32768, 100, -100];
+    const view = new DataView(encodeMulawWav(fromInt16(values, 8000)));
+    values.forEach((value, i) => {
+      const decoded = mulawToLinear(view.getUint8(58 + i));
+      // Each segment doubles the step; the encoder truncates, so the error stays below one step
+      expect(Math.abs(decoded - value)).toBeLessThanOrEqual(Math.abs(value) / 16 + 16);
+      if (Math.abs(value) > 16) expect(Math.sign(decoded)).toBe(Math.sign(value));
+    });
+  });
+
+  it('encodes silence as the mu-law zero code', () => {
+    const view = new DataView(encodeMulawWav(fromInt16([0, 0], 8000)));
+    expect([view.getUint8(58), view.getUint8(59)]).toEqual([0xFF, 0xFF]);
+  });
+});
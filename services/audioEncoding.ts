@@ -0,0 +1,387 @@
+import { PcmAudio } from "./audioConversion";
+
+// Formats converted audio can be sent in. Uncompressed WAV is the most widely accepted; the others
+// fit several times more minutes into one request. The encoders run in the conversion worker, so
+// they take PcmAudio, return bytes, and report progress from 0 to 1.
+
+export type AudioEncoding = 'wav' | 'mulaw' | 'flac';
+
+export interface AudioEncodingInfo {
+  value: AudioEncoding;
+  label: string;
+  description: string;
+  mimeType: string;
+}
+
+export const AUDIO_ENCODINGS: AudioEncodingInfo[] = [
+  { value: 'wav', label: 'WAV', description: 'Uncompressed 16-bit, accepted everywhere', mimeType: 'audio/wav' },
+  { value: 'flac', label: 'FLAC', description: 'Lossless, about half the size of WAV', mimeType: 'audio/flac' },
+  { value: 'mulaw', label: 'Mu-law 8kHz', description: 'Telephone quality, a quarter of the size of 16kHz WAV', mimeType: 'audio/wav' },
+];
+
+// The compressed formats are opt-in per upload
+export const DEFAULT_ENCODING: AudioEncoding = 'wav';
+
+// Phone audio is band-limited to 8kHz sampling, so mu-law never uses a higher rate
+const MULAW_SAMPLE_RATE = 8000;
+// FLAC output varies with the audio; speech typically compresses to about this share of 16-bit PCM
+const FLAC_TYPICAL_RATIO = 0.55;
+
+export const encodingInfo = (encoding: AudioEncoding): AudioEncodingInfo =>
+  AUDIO_ENCODINGS.find(e => e.value === encoding) || AUDIO_ENCODINGS[0];
+
+// The rate audio should be resampled to before encoding
+export const encodingSampleRate = (encoding: AudioEncoding, sampleRate: number): number =>
+  (encoding === 'mulaw' ? Math.min(sampleRate, MULAW_SAMPLE_RATE) : sampleRate);
+
+// Expected payload size for mono audio of this length; FLAC is an estimate
+export const estimateEncodedBytes = (encoding: AudioEncoding, seconds: number, sampleRate: number): number => {
+  const samples = Math.ceil(seconds * encodingSampleRate(encoding, sampleRate));
+  if (encoding === 'mulaw') return 58 + samples;
+  if (encoding === 'flac') return Math.ceil(42 + samples * 2 * FLAC_TYPICAL_RATIO);
+  return 44 + samples * 2;
+};
+
+type ProgressCallback = (fraction: number) => void;
+
+// Samples between progress reports in the per-sample loops
+const PROGRESS_INTERVAL = 1 << 16;
+
+const toInt16 = (sample: number): number => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? Math.round(clamped * 0x8000) : Math.round(clamped * 0x7FFF);
+};
+
+// --- WAV ---
+
+// Writes a standard WAV header for PCM data
+const writeWavHeader = (
+  view: DataView, 
+  sampleRate: number, 
+  numChannels: number, 
+  dataLength: number
+) => {
+  const fileLength = dataLength + 36;
+  
+  // RIFF identifier
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  // file length
+  view.setUint32(4, fileLength, true);
+  // RIFF type
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+  // format chunk identifier
+  view.setUint32(12, 0x666d7420, false); // "fmt "
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (raw)
+  view.setUint16(20, 1, true);
+  // channel count
+  view.setUint16(22, numChannels, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate (sample rate * block align)
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  // block align (channel count * bytes per sample)
+  view.setUint16(32, numChannels * 2, true);
+  // bits per sample
+  view.setUint16(34, 16, true);
+  // data chunk identifier
+  view.setUint32(36, 0x64617461, false); // "data"
+  // data chunk length
+  view.setUint32(40, dataLength, true);
+};
+
+// Converts mono audio to WAV (16-bit PCM)
+export const encodeWav = (audio: PcmAudio, onProgress?: ProgressCallback): ArrayBuffer => {
+  const { samples } = audio;
+  const length = samples.length * 2; // 2 bytes per sample
+  const arrayBuffer = new ArrayBuffer(44 + length);
+  const view = new DataView(arrayBuffer);
+
+  writeWavHeader(view, audio.sampleRate, 1, length);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++) {
+    // Clamp to -1..1 and scale, negative values by 0x8000 so -1 maps to the smallest 16-bit integer
+    view.setInt16(offset, toInt16(samples[i]), true);
+    offset += 2;
+    if (i % PROGRESS_INTERVAL === 0) onProgress?.(i / samples.length);
+  }
+
+  return arrayBuffer;
+};
+
+// --- Mu-law WAV ---
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// G.711 mu-law: 14 bits of dynamic range in 8 bits, the standard for telephone audio
+const linearToMulaw = (sample: number): number => {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(MULAW_CLIP, Math.abs(sample)) + MULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0F;
+  return ~(sign | (exponent << 4) | mantissa) & 0xFF;
+};
+
+// Expects mono audio already at the telephony rate (see encodingSampleRate)
+export const encodeMulawWav = (audio: PcmAudio, onProgress?: ProgressCallback): ArrayBuffer => {
+  const { samples, sampleRate } = audio;
+  // Non-PCM formats need the extended fmt chunk and a fact chunk
+  const headerLength = 58;
+  const view = new DataView(new ArrayBuffer(headerLength + samples.length + (samples.length % 2)));
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  view.setUint32(4, view.byteLength - 8, true);
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+  view.setUint32(12, 0x666d7420, false); // "fmt "
+  view.setUint32(16, 18, true);
+  view.setUint16(20, 7, true); // WAVE_FORMAT_MULAW
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // One byte per sample
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  view.setUint16(36, 0, true); // No extra format bytes
+  view.setUint32(38, 0x66616374, false); // "fact"
+  view.setUint32(42, 4, true);
+  view.setUint32(46, samples.length, true);
+  view.setUint32(50, 0x64617461, false); // "data"
+  view.setUint32(54, samples.length, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setUint8(headerLength + i, linearToMulaw(toInt16(samples[i])));
+    if (i % PROGRESS_INTERVAL === 0) onProgress?.(i / samples.length);
+  }
+  return view.buffer;
+};
+
+// --- FLAC ---
+// A small encoder using FLAC's fixed linear predictors and Rice-coded residuals. Real encoders
+// search LPC coefficients as well, but fixed predictors already get speech to about half size.
+
+const FLAC_BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0; // Whole bytes written
+  private pending = 0; // Bits not yet flushed, most significant first
+  private pendingBits = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  // Writes the low `count` bits of `value`, up to 24 at a time
+  private writeSmall(value: number, count: number) {
+    this.pending = (this.pending << count) | (value & ((1 << count) - 1));
+    this.pendingBits += count;
+    this.ensure(4);
+    while (this.pendingBits >= 8) {
+      this.pendingBits -= 8;
+      this.bytes[this.length++] = (this.pending >>> this.pendingBits) & 0xFF;
+    }
+    this.pending &= (1 << this.pendingBits) - 1;
+  }
+
+  write(value: number, count: number) {
+    // Split wide fields so the shifts above stay within 32 bits
+    while (count > 24) {
+      count -= 24;
+      this.writeSmall(Math.floor(value / Math.pow(2, count)) & 0xFFFFFF, 24);
+    }
+    if (count > 0) this.writeSmall(value % Math.pow(2, count), count);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.writeSmall(0, 24);
+      zeros -= 24;
+    }
+    this.writeSmall(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.pendingBits > 0) this.writeSmall(0, 8 - this.pendingBits);
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  view(from = 0, to = this.length): Uint8Array {
+    return this.bytes.subarray(from, to);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256).map((_, i) => {
+  let crc = i;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+  return crc;
+});
+
+const CRC16_TABLE = new Uint16Array(256).map((_, i) => {
+  let crc = i << 8;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+  return crc;
+});
+
+const crc8 = (bytes: Uint8Array): number => bytes.reduce((crc, b) => CRC8_TABLE[crc ^ b], 0);
+const crc16 = (bytes: Uint8Array): number => bytes.reduce((crc, b) => ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ b], 0);
+
+// Frame numbers use the same variable-length coding as UTF-8
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  const continuation: number[] = [];
+  let remaining = value;
+  let firstBits = 6; // Payload bits left in the first byte as continuation bytes are added
+  while (remaining >= Math.pow(2, firstBits)) {
+    continuation.unshift(0x80 | (remaining & 0x3F));
+    remaining = Math.floor(remaining / 64);
+    firstBits--;
+  }
+  const prefix = (0xFF << (7 - continuation.length)) & 0xFF;
+  writer.write(prefix | remaining, 8);
+  continuation.forEach(byte => writer.write(byte, 8));
+};
+
+// Residuals of FLAC's fixed predictor of the given order for samples[warmup..]
+const fixedResiduals = (block: Int32Array, order: number): Int32Array => {
+  const residuals = new Int32Array(block.length - order);
+  for (let i = order; i < block.length; i++) {
+    let prediction = 0;
+    if (order === 1) prediction = block[i - 1];
+    else if (order === 2) prediction = 2 * block[i - 1] - block[i - 2];
+    else if (order === 3) prediction = 3 * block[i - 1] - 3 * block[i - 2] + block[i - 3];
+    else if (order === 4) prediction = 4 * block[i - 1] - 6 * block[i - 2] + 4 * block[i - 3] - block[i - 4];
+    residuals[i - order] = block[i] - prediction;
+  }
+  return residuals;
+};
+
+// Maps signed residuals to unsigned: 0, -1, 1, -2, ... -> 0, 1, 2, 3, ...
+const fold = (residual: number): number => (residual >= 0 ? residual * 2 : -residual * 2 - 1);
+
+const riceBits = (folded: Uint32Array, parameter: number): number => {
+  let bits = folded.length * (parameter + 1);
+  for (let i = 0; i < folded.length; i++) bits += folded[i] >>> parameter;
+  return bits;
+};
+
+// The best Rice parameter is close to log2 of the mean folded residual, so only its neighbours are tried
+const bestRiceParameter = (folded: Uint32Array): { parameter: number; bits: number } => {
+  let sum = 0;
+  for (let i = 0; i < folded.length; i++) sum += folded[i];
+  const mean = sum / Math.max(1, folded.length);
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let best = { parameter: 0, bits: Infinity };
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter++) {
+    const bits = riceBits(folded, parameter);
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, block: Int32Array) => {
+  if (block.every(s => s === block[0])) {
+    writer.write(0, 8); // CONSTANT, no wasted bits
+    writer.write(block[0] & 0xFFFF, 16);
+    return;
+  }
+
+  // The order with the smallest residuals is nearly always the one that codes smallest
+  let order = 0;
+  let residuals = fixedResiduals(block, 0);
+  let smallest = Infinity;
+  for (let candidate = 0; candidate <= Math.min(MAX_FIXED_ORDER, block.length - 1); candidate++) {
+    const candidateResiduals = fixedResiduals(block, candidate);
+    let total = 0;
+    for (let i = 0; i < candidateResiduals.length; i++) total += Math.abs(candidateResiduals[i]);
+    if (total < smallest) {
+      smallest = total;
+      order = candidate;
+      residuals = candidateResiduals;
+    }
+  }
+  const folded = Uint32Array.from(residuals, fold);
+  const { parameter, bits } = bestRiceParameter(folded);
+
+  if (bits + order * 16 >= block.length * 16) {
+    writer.write(0b00000010, 8); // VERBATIM
+    block.forEach(s => writer.write(s & 0xFFFF, 16));
+    return;
+  }
+
+  writer.write(0b00010000 | (order << 1), 8); // FIXED of this order
+  for (let i = 0; i < order; i++) writer.write(block[i] & 0xFFFF, 16);
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(0, 4); // A single partition
+  writer.write(parameter, 4);
+  folded.forEach(value => {
+    writer.writeUnary(value >>> parameter);
+    if (parameter > 0) writer.write(value & ((1 << parameter) - 1), parameter);
+  });
+};
+
+// Expects mono audio; writes 16-bit FLAC
+export const encodeFlac = (audio: PcmAudio, onProgress?: ProgressCallback): ArrayBuffer => {
+  const samples = Int32Array.from(audio.samples, toInt16);
+  const writer = new BitWriter();
+
+  writer.write(0x664C6143, 32); // "fLaC"
+  // STREAMINFO, the only (and so last) metadata block
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(FLAC_BLOCK_SIZE, 16); // Minimum block size; the last block may be shorter, which the format allows
+  writer.write(FLAC_BLOCK_SIZE, 16);
+  writer.write(0, 24); // Frame sizes unknown
+  writer.write(0, 24);
+  writer.write(audio.sampleRate, 20);
+  writer.write(0, 3); // One channel
+  writer.write(15, 5); // 16 bits per sample
+  writer.write(samples.length, 36);
+  for (let i = 0; i < 4; i++) writer.write(0, 32); // No MD5 signature
+
+  for (let frame = 0, start = 0; start < samples.length; frame++, start += FLAC_BLOCK_SIZE) {
+    const block = samples.subarray(start, Math.min(samples.length, start + FLAC_BLOCK_SIZE));
+    const frameStart = writer.byteLength;
+    const isFullBlock = block.length === FLAC_BLOCK_SIZE;
+
+    writer.write(0b11111111111110, 14);
+    writer.write(0, 1);
+    writer.write(0, 1); // Fixed block size
+    writer.write(isFullBlock ? 0b1100 : 0b0111, 4); // 4096, or a 16-bit size after the header
+    writer.write(0, 4); // Sample rate from STREAMINFO
+    writer.write(0, 4); // Mono
+    writer.write(0b100, 3); // 16 bits per sample
+    writer.write(0, 1);
+    writeUtf8Number(writer, frame);
+    if (!isFullBlock) writer.write(block.length - 1, 16);
+    writer.write(crc8(writer.view(frameStart)), 8);
+
+    writeSubframe(writer, block);
+    writer.alignToByte();
+    writer.write(crc16(writer.view(frameStart)), 16);
+    onProgress?.(start / samples.length);
+  }
+
+  return writer.view().slice().buffer;
+};
+
+// --- Dispatch ---
+
+// Encodes mono audio in the chosen format
+export const encodeAudio = (audio: PcmAudio, encoding: AudioEncoding, onProgress?: ProgressCallback): ArrayBuffer => {
+  if (encoding === 'mulaw') return encodeMulawWav(audio, onProgress);
+  if (encoding === 'flac') return encodeFlac(audio, onProgress);
+  return encodeWav(audio, onProgress);
+};
@@ -0,0 +1,267 @@
+// Identifies recordings by their leading bytes rather than their name or browser-reported type, which
+// are often missing or wrong for files exported from phone systems. Each format is routed to one of:
+// - passthrough: may be sent as it is, if the provider accepts its MIME type
+// - convert: always decoded in the browser and re-encoded first
+// - unsupported: no browser can decode it, with the reason shown to the user
+
+export type FormatRoute = 'passthrough' | 'convert' | 'unsupported';
+
+export interface DetectedFormat {
+  container: string; // e.g. "WAV", "WebM", "MOV"
+  codec?: string; // When the audio codec inside the container was identified
+  mimeType: string; // Sent with the file when it is passed through
+  route: FormatRoute;
+  reason?: string; // For unsupported files: why, and what to do instead
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(public readonly format: DetectedFormat) {
+    super(format.reason || `${describeFormat(format)} files are not supported.`);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+// Whether a recording is decoded and re-encoded before upload rather than sent as it is: containers
+// that always need it (MP4, MOV, WebM...) and anything the model cannot take directly
+export const needsConversion = (format: DetectedFormat, target: { acceptsAudioType(mimeType: string): boolean }): boolean =>
+  format.route === 'convert' || !target.acceptsAudioType(format.mimeType);
+
+export const describeFormat = (format: DetectedFormat): string =>
+  (format.codec ? `${format.container} (${format.codec})` : format.container);
+
+// Enough for every signature below, including Matroska track headers and the first Ogg packet
+const HEAD_BYTES = 64 * 1024;
+// MP4 and MOV files often keep their track list (moov) at the end
+const TAIL_BYTES = 1024 * 1024;
+
+const CONVERT_HINT = 'Convert it to WAV or MP3 first, for example with `ffmpeg -i <file> call.wav`.';
+
+const unsupported = (container: string, codec: string | undefined, reason: string): DetectedFormat => ({
+  container,
+  codec,
+  mimeType: 'application/octet-stream',
+  route: 'unsupported',
+  reason: `${reason} ${CONVERT_HINT}`,
+});
+
+// --- Byte Helpers ---
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const indexOfText = (bytes: Uint8Array, text: string, from = 0): number => {
+  const first = text.charCodeAt(0);
+  for (let i = from; i <= bytes.length - text.length; i++) {
+    if (bytes[i] === first && ascii(bytes, i, text.length) === text) return i;
+  }
+  return -1;
+};
+
+// --- WAV ---
+
+// WAVE format tags browsers decode; anything else needs a desktop converter
+const WAV_DECODABLE_TAGS = new Set([0x0001, 0x0003, 0x0006, 0x0007]);
+
+const WAV_CODECS: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0002: 'Microsoft ADPCM',
+  0x0003: 'floating point PCM',
+  0x0006: 'A-law',
+  0x0007: 'mu-law',
+  0x0011: 'IMA ADPCM',
+  0x0014: 'G.723 ADPCM',
+  0x0022: 'TrueSpeech',
+  0x0031: 'GSM 6.10',
+  0x0040: 'G.721 ADPCM',
+  0x0042: 'G.723.1',
+  0x0055: 'MP3',
+  0x0064: 'G.726 ADPCM',
+  0x0083: 'G.729',
+};
+
+const detectWav = (bytes: Uint8Array): DetectedFormat => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // Chunks follow the 12-byte RIFF header; "fmt " normally comes first but need not
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 10 <= bytes.length) {
+      let tag = view.getUint16(offset + 8, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real tag at the start of its sub-format GUID
+      if (tag === 0xFFFE && offset + 34 <= bytes.length) tag = view.getUint16(offset + 32, true);
+      const codec = WAV_CODECS[tag] || `format 0x${tag.toString(16).padStart(4, '0')}`;
+      if (!WAV_DECODABLE_TAGS.has(tag)) {
+        return unsupported('WAV', codec, `This WAV file uses the ${codec} codec, which browsers cannot decode.`);
+      }
+      return { container: 'WAV', codec, mimeType: 'audio/wav', route: 'passthrough' };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return { container: 'WAV', mimeType: 'audio/wav', route: 'passthrough' };
+};
+
+// --- MP4 / MOV / 3GP ---
+
+// Sample entry codes of audio tracks
+const ISO_AUDIO_CODECS: Record<string, string> = {
+  mp4a: 'AAC',
+  alac: 'Apple Lossless',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  '.mp3': 'MP3',
+  lpcm: 'PCM',
+  sowt: 'PCM',
+  twos: 'PCM',
+  ulaw: 'mu-law',
+  alaw: 'A-law',
+  'ac-3': 'Dolby Digital',
+  'ec-3': 'Dolby Digital Plus',
+  samr: 'AMR',
+  sawb: 'AMR-WB',
+  ima4: 'IMA ADPCM',
+};
+
+const ISO_UNDECODABLE = new Set(['samr', 'sawb', 'ac-3', 'ec-3', 'ima4']);
+
+// Codes of each track's first sample entry, read from every "stsd" box found
+const readSampleEntries = (bytes: Uint8Array): string[] => {
+  const codes: string[] = [];
+  for (let i = indexOfText(bytes, 'stsd'); i >= 0; i = indexOfText(bytes, 'stsd', i + 4)) {
+    // type, version/flags and entry count, then the first entry's size and code
+    if (i + 20 <= bytes.length) codes.push(ascii(bytes, i + 16, 4));
+  }
+  return codes;
+};
+
+const detectIsoMedia = async (file: Blob, head: Uint8Array): Promise<DetectedFormat> => {
+  const brand = ascii(head, 4, 4) === 'ftyp' ? ascii(head, 8, 4) : 'qt  ';
+  const container = brand === 'qt  ' ? 'MOV'
+    : brand.startsWith('3g') ? '3GP'
+      : brand.startsWith('M4') ? 'M4A' : 'MP4';
+  const base: DetectedFormat = { container, mimeType: container === '3GP' ? 'audio/3gpp' : 'audio/mp4', route: 'convert' };
+
+  let entries = readSampleEntries(head);
+  if (entries.length === 0 && file.size > head.length) {
+    const tail = new Uint8Array(await file.slice(Math.max(head.length, file.size - TAIL_BYTES)).arrayBuffer());
+    entries = readSampleEntries(tail);
+  }
+  // The track list was not found; the decoder will tell whether there is usable audio
+  if (entries.length === 0) return base;
+
+  const audio = entries.find(code => code in ISO_AUDIO_CODECS);
+  if (!audio) {
+    return { ...base, mimeType: 'application/octet-stream', route: 'unsupported', reason: `This ${container} file has no audio track.` };
+  }
+  const codec = ISO_AUDIO_CODECS[audio];
+  if (ISO_UNDECODABLE.has(audio)) {
+    return unsupported(container, codec, `The audio in this ${container} file is ${codec}, which browsers cannot decode.`);
+  }
+  return { ...base, codec };
+};
+
+// --- Matroska / WebM ---
+
+const MATROSKA_CODECS: [string, string][] = [
+  ['A_OPUS', 'Opus'],
+  ['A_VORBIS', 'Vorbis'],
+  ['A_AAC', 'AAC'],
+  ['A_FLAC', 'FLAC'],
+  ['A_MPEG/L3', 'MP3'],
+  ['A_PCM', 'PCM'],
+  ['A_AC3', 'Dolby Digital'],
+  ['A_EAC3', 'Dolby Digital Plus'],
+];
+
+const detectMatroska = (head: Uint8Array): DetectedFormat => {
+  // The DocType sits in the EBML header at the very start
+  const container = indexOfText(head.subarray(0, 64), 'webm') >= 0 ? 'WebM' : 'Matroska';
+  const found = MATROSKA_CODECS.find(([id]) => indexOfText(head, id) >= 0);
+  const codec = found?.[1];
+  if (codec?.startsWith('Dolby')) {
+    return unsupported(container, codec, `The audio in this ${container} file is ${codec}, which browsers cannot decode.`);
+  }
+  return { container, codec, mimeType: container === 'WebM' ? 'audio/webm' : 'audio/x-matroska', route: 'convert' };
+};
+
+// --- Ogg ---
+
+const detectOgg = (head: Uint8Array): DetectedFormat => {
+  // The first page holds the codec's identification packet right after the segment table
+  const packet = 27 + (head[26] || 0);
+  if (ascii(head, packet, 8) === 'OpusHead') return { container: 'Ogg', codec: 'Opus', mimeType: 'audio/ogg', route: 'passthrough' };
+  if (ascii(head, packet + 1, 6) === 'vorbis') return { container: 'Ogg', codec: 'Vorbis', mimeType: 'audio/ogg', route: 'passthrough' };
+  if (ascii(head, packet + 1, 4) === 'FLAC') return { container: 'Ogg', codec: 'FLAC', mimeType: 'audio/ogg', route: 'passthrough' };
+  if (ascii(head, packet, 5) === 'Speex') {
+    return unsupported('Ogg', 'Speex', 'This Ogg file uses the Speex codec, which browsers cannot decode.');
+  }
+  return { container: 'Ogg', mimeType: 'audio/ogg', route: 'convert' };
+};
+
+// --- Detection ---
+
+const ASF_GUID = [0x30, 0x26, 0xB2, 0x75, 0x8E, 0x66, 0xCF, 0x11];
+const EBML_MAGIC = [0x1A, 0x45, 0xDF, 0xA3];
+// Boxes that can open a QuickTime file written without "ftyp"
+const QUICKTIME_BOXES = ['moov', 'mdat', 'wide', 'free', 'skip'];
+
+const detectFromBytes = async (file: Blob, head: Uint8Array): Promise<DetectedFormat> => {
+  const magic = ascii(head, 0, 4);
+
+  if ((magic === 'RIFF' || magic === 'RF64') && ascii(head, 8, 4) === 'WAVE') return detectWav(head);
+  if (magic === 'fLaC') return { container: 'FLAC', mimeType: 'audio/flac', route: 'passthrough' };
+  if (magic === 'OggS') return detectOgg(head);
+  if (magic === 'FORM' && ['AIFF', 'AIFC'].includes(ascii(head, 8, 4))) {
+    return { container: 'AIFF', mimeType: 'audio/aiff', route: 'passthrough' };
+  }
+  if (magic === 'caff') return { container: 'CAF', mimeType: 'audio/x-caf', route: 'convert' };
+  if (startsWith(head, EBML_MAGIC)) return detectMatroska(head);
+  if (ascii(head, 4, 4) === 'ftyp' || QUICKTIME_BOXES.includes(ascii(head, 4, 4))) return detectIsoMedia(file, head);
+
+  if (ascii(head, 0, 9) === '#!AMR-WB\n') {
+    return unsupported('AMR', 'AMR-WB', 'AMR-WB is a phone codec that browsers cannot decode.');
+  }
+  if (ascii(head, 0, 6) === '#!AMR\n') {
+    return unsupported('AMR', 'AMR-NB', 'AMR is a phone codec that browsers cannot decode.');
+  }
+  if (startsWith(head, ASF_GUID)) {
+    return unsupported('Windows Media', undefined, 'Windows Media (WMA/WMV) files cannot be decoded by browsers.');
+  }
+
+  if (magic.startsWith('ID3')) return { container: 'MP3', mimeType: 'audio/mpeg', route: 'passthrough' };
+  // Frame sync: 11 set bits. Layer bits of 00 mean an ADTS (raw AAC) stream, anything else MPEG audio.
+  if (head[0] === 0xFF && (head[1] & 0xE0) === 0xE0) {
+    if ((head[1] & 0xF6) === 0xF0) return { container: 'AAC', mimeType: 'audio/aac', route: 'passthrough' };
+    if ((head[1] & 0x06) !== 0) return { container: 'MP3', mimeType: 'audio/mpeg', route: 'passthrough' };
+  }
+
+  return {
+    container: 'Unknown',
+    mimeType: 'application/octet-stream',
+    route: 'unsupported',
+    reason: 'Not a recognized audio or video file.',
+  };
+};
+
+// Reads the start (and for MP4/MOV possibly the end) of the file; never rejects
+export const detectAudioFormat = async (file: Blob): Promise<DetectedFormat> => {
+  let head: Uint8Array;
+  try {
+    head = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  } catch (e) {
+    console.error('Could not read file for format detection', e);
+    return { container: 'Unknown', mimeType: 'application/octet-stream', route: 'unsupported', reason: 'The file could not be read.' };
+  }
+  if (head.length < 12) {
+    return { container: 'Unknown', mimeType: 'application/octet-stream', route: 'unsupported', reason: 'The file is empty or too short to be a recording.' };
+  }
+  try {
+    return await detectFromBytes(file, head);
+  } catch (e) {
+    // Truncated headers can throw inside the parsers; leave it to the decoder
+    console.warn('Format detection failed', e);
+    return { container: 'Unknown', mimeType: file.type || 'application/octet-stream', route: 'convert' };
+  }
+};
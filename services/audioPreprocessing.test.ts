@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { CallAnalysis, CallSentiment } from "../types";
+import { PcmAudio } from "./audioConversion";
+import {
+  DEFAULT_PREPROCESSING,
+  hasPreprocessing,
+  planKeptSpans,
+  preprocessAudio,
+  remapAnalysisTimes,
+  TimeMap,
+  toSourceTime,
+} from "./audioPreprocessing";
+
+const RATE = 8000;
+
+// --- Test Signals ---
+
+// A 200Hz tone in 150ms bursts with 90ms gaps, which the detector treats like syllables. The bursts
+// line up with its 30ms frames, so every frame is either all tone or all silence.
+const speech = (seconds: number, amplitude = 0.3): number[] =>
+  Array.from({ length: Math.round(seconds * RATE) }, (_, i) =>
+    (i % (0.24 * RATE) < 0.15 * RATE ? amplitude * Math.sin(2 * Math.PI * 200 * i / RATE) : 0)
+  );
+
+// A steady tone at the same level, like hold music or line hum
+const hum = (seconds: number, amplitude = 0.3): number[] =>
+  Array.from({ length: Math.round(seconds * RATE) }, (_, i) => amplitude * Math.sin(2 * Math.PI * 300 * i / RATE));
+
+const silence = (seconds: number): number[] => new Array(Math.round(seconds * RATE)).fill(0);
+
+const pcm = (...parts: number[][]): PcmAudio => ({ samples: Float32Array.from(parts.flat()), sampleRate: RATE });
+
+const peakOf = (samples: Float32Array): number => samples.reduce((peak, s) => Math.max(peak, Math.abs(s)), 0);
+
+const TRIM_ONLY = { trimSilence: true, normalizeLoudness: false, splitChannels: false };
+const NORMALIZE_ONLY = { trimSilence: false, normalizeLoudness: true, splitChannels: false };
+
+// --- Tests ---
+
+describe('DEFAULT_PREPROCESSING', () => {
+  it('leaves cleanup off, so small files can still be sent as they are', () => {
+    expect(hasPreprocessing(DEFAULT_PREPROCESSING)).toBe(false);
+  });
+});
+
+describe('preprocessAudio: silence trimming', () => {
+  it('cuts long silences between stretches of speech', () => {
+    const result = preprocessAudio(pcm(speech(2), silence(5), speech(2)), TRIM_ONLY);
+    const spans = result.timeMap!.spans;
+
+    expect(spans).toHaveLength(2);
+    expect(spans[0].start).toBe(0);
+    expect(spans[0].end).toBeCloseTo(2.25, 1);
+    expect(spans[1].start).toBeCloseTo(6.75, 1);
+    expect(spans[1].end).toBeCloseTo(9, 1);
+    expect(spans[1].outputStart).toBeCloseTo(spans[0].end, 5);
+    expect(result.removedSeconds).toBeCloseTo(4.5, 1);
+    expect(result.audio.samples.length / RATE).toBeCloseTo(9 - result.removedSeconds, 2);
+    expect(result.gainDb).toBe(0);
+  });
+
+  it('cuts steady hold music even though it is loud', () => {
+    const result = preprocessAudio(pcm(speech(2), hum(6), speech(2)), TRIM_ONLY);
+    expect(result.timeMap!.spans).toHaveLength(2);
+    expect(result.removedSeconds).toBeGreaterThan(4);
+  });
+
+  it('keeps short pauses', () => {
+    const result = preprocessAudio(pcm(speech(2), silence(1), speech(2)), TRIM_ONLY);
+    expect(result.timeMap).toBeUndefined();
+    expect(result.removedSeconds).toBe(0);
+  });
+
+  it('trims nothing when too little speech is detected', () => {
+    const audio = pcm(silence(3), speech(0.2), silence(3));
+    const result = preprocessAudio(audio, TRIM_ONLY);
+    expect(result.timeMap).toBeUndefined();
+    expect(result.audio.samples).toEqual(audio.samples);
+  });
+
+  it('returns the audio unchanged when no cleanup is asked for', () => {
+    const audio = pcm(speech(1), silence(5));
+    const result = preprocessAudio(audio, DEFAULT_PREPROCESSING);
+    expect(result.audio).toBe(audio);
+    expect(result).toMatchObject({ removedSeconds: 0, gainDb: 0 });
+  });
+});
+
+describe('planKeptSpans', () => {
+  it('pads speech, bridges short gaps and lays spans end to end', () => {
+    // 0.1s frames: speech at 0-0.3s, a 1s gap, 1.3-1.5s, a 3s gap, 4.5-4.6s
+    const flags = Array.from({ length: 50 }, (_, i) => i < 3 || i === 13 || i === 14 || i === 45);
+    const spans = planKeptSpans(flags, 0.1, 5);
+    expect(spans).toHaveLength(2);
+    expect(spans[0]).toMatchObject({ start: 0, outputStart: 0 });
+    expect(spans[0].end).toBeCloseTo(1.75, 5);
+    expect(spans[1].start).toBeCloseTo(4.25, 5);
+    expect(spans[1].end).toBeCloseTo(4.85, 5);
+    expect(spans[1].outputStart).toBeCloseTo(1.75, 5);
+  });
+});
+
+describe('preprocessAudio: loudness', () => {
+  it('brings speech to about -20dB', () => {
+    // A sine's RMS is its amplitude over root two: -29dB here
+    const result = preprocessAudio(pcm(speech(3, 0.05)), NORMALIZE_ONLY);
+    expect(result.gainDb).toBeCloseTo(-20 - 20 * Math.log10(0.05 / Math.SQRT2), 1);
+  });
+
+  it('amplifies very quiet recordings by at most 20dB', () => {
+    const audio = pcm(speech(3, 0.003));
+    const result = preprocessAudio(audio, NORMALIZE_ONLY);
+    expect(result.gainDb).toBe(20);
+    expect(peakOf(result.audio.samples)).toBeCloseTo(peakOf(audio.samples) * 10, 5);
+  });
+
+  it('never pushes the peak above the ceiling', () => {
+    // Quiet speech with one loud click: the click limits the gain
+    const samples = speech(3, 0.02);
+    samples[1000] = 0.8;
+    const result = preprocessAudio(pcm(samples), NORMALIZE_ONLY);
+    expect(result.gainDb).toBeCloseTo(20 * Math.log10(0.95 / 0.8), 5);
+    expect(peakOf(result.audio.samples)).toBeCloseTo(0.95, 5);
+  });
+
+  it('turns loud recordings down', () => {
+    const result = preprocessAudio(pcm(speech(3, 0.9)), NORMALIZE_ONLY);
+    expect(result.gainDb).toBeLessThan(0);
+    expect(peakOf(result.audio.samples)).toBeLessThanOrEqual(0.95);
+  });
+});
+
+describe('toSourceTime', () => {
+  const timeMap: TimeMap = {
+    spans: [
+      { start: 1, end: 3, outputStart: 0 },
+      { start: 10, end: 14, outputStart: 2 },
+    ],
+  };
+
+  it('maps processed times back to the original recording', () => {
+    expect(toSourceTime(timeMap, 0)).toBe(1);
+    expect(toSourceTime(timeMap, 1.5)).toBe(2.5);
+    expect(toSourceTime(timeMap, 2)).toBe(10);
+    expect(toSourceTime(timeMap, 5)).toBe(13);
+  });
+
+  it('clamps times past the end of the processed audio', () => {
+    expect(toSourceTime(timeMap, 100)).toBe(14);
+  });
+
+  it('leaves times alone without spans', () => {
+    expect(toSourceTime({ spans: [] }, 7)).toBe(7);
+  });
+});
+
+describe('remapAnalysisTimes', () => {
+  it('rewrites utterance, transcript and topic times', () => {
+    const analysis: CallAnalysis = {
+      summary: 'Summary',
+      transcript: '',
+      utterances: [
+        { speaker: 'Agent', role: 'agent', start: 0.5, end: 1.5, text: 'Hello' },
+        { speaker: 'Customer', role: 'customer', start: 2.5, end: 4, text: 'Hi' },
+      ],
+      sentiment: CallSentiment.NEUTRAL,
+      actionItems: [],
+      keyInsights: [],
+      topics: [{ label: 'greeting', kind: 'other', evidence: [{ quote: 'Hi', start: 2.5 }, { quote: 'Hello' }] }],
+    };
+    const timeMap: TimeMap = { spans: [{ start: 0, end: 2, outputStart: 0 }, { start: 60, end: 65, outputStart: 2 }] };
+    const remapped = remapAnalysisTimes(analysis, timeMap);
+
+    expect(remapped.utterances!.map(u => [u.start, u.end])).toEqual([[0.5, 1.5], [60.5, 62]]);
+    expect(remapped.transcript).toContain('1:00');
+    expect(remapped.topics![0].evidence).toEqual([{ quote: 'Hi', start: 60.5 }, { quote: 'Hello' }]);
+  });
+});
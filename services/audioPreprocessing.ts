@@ -0,0 +1,289 @@
+import { CallAnalysis, SpeakerRole, Utterance } from "../types";
+import { utterancesToText } from "./transcript";
+import { PcmAudio, pcmDuration } from "./audioConversion";
+
+// Cleans up decoded audio before it is sent to the model: long silences and hold music are cut out,
+// speech is brought to a consistent loudness, and stereo recordings with the agent and customer on
+// separate channels are used to correct speaker roles. Cutting audio shifts every later moment, so
+// the kept spans are recorded in a TimeMap and the model's timestamps are mapped back afterwards.
+
+export interface PreprocessingOptions {
+  trimSilence: boolean;
+  normalizeLoudness: boolean;
+  // Stereo recordings only: the left channel is the agent and the right channel the customer
+  splitChannels: boolean;
+}
+
+// Off unless asked for: any cleanup means decoding and re-encoding files that could otherwise be sent as they are
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  trimSilence: false,
+  normalizeLoudness: false,
+  splitChannels: false,
+};
+
+export const hasPreprocessing = (options?: PreprocessingOptions): boolean =>
+  !!options && (options.trimSilence || options.normalizeLoudness || options.splitChannels);
+
+// A stretch of the original recording that was kept, and where it starts in the processed audio
+export interface KeptSpan {
+  start: number; // Seconds in the original recording
+  end: number;
+  outputStart: number; // Seconds in the processed audio
+}
+
+export interface TimeMap {
+  spans: KeptSpan[]; // In order, without overlaps
+}
+
+export interface PreprocessResult {
+  audio: PcmAudio;
+  timeMap?: TimeMap; // Only when something was cut out
+  removedSeconds: number;
+  gainDb: number;
+}
+
+// Loudness per channel in short frames, for attributing speech to a side of the call
+export interface ChannelActivity {
+  frameSeconds: number;
+  agent: Float32Array; // Mean energy per frame of the left channel
+  customer: Float32Array; // Right channel
+}
+
+// --- Voice Activity Detection ---
+
+// 30ms frames are short enough to follow syllables
+const FRAME_SECONDS = 0.03;
+// Frames this far above the quietest tenth of the recording can be speech...
+const SPEECH_ABOVE_FLOOR_DB = 12;
+// ...but nothing quieter than this ever is
+const MIN_SPEECH_DB = -55;
+// Speech rises and falls with every syllable; hold music and line noise stay level. Frames whose
+// surroundings (MODULATION_WINDOW_SECONDS either side) vary less than this are not speech.
+const MODULATION_WINDOW_SECONDS = 0.5;
+const MIN_MODULATION_DB = 5;
+// Kept around every stretch of speech so words are not clipped
+const PAD_SECONDS = 0.25;
+// Shorter pauses are natural parts of a conversation and stay in
+const MIN_GAP_SECONDS = 1.5;
+// Below this much detected speech the detector is probably wrong, so nothing is trimmed
+const MIN_SPEECH_SECONDS = 1;
+
+// --- Loudness ---
+
+// Speech is brought to this RMS level
+const TARGET_SPEECH_DB = -20;
+// Very quiet recordings are not amplified beyond this, to avoid pumping up noise
+const MAX_GAIN_DB = 20;
+// Samples never exceed this after gain
+const PEAK_CEILING = 0.95;
+
+// Attribution needs one channel to be at least this much louder than the other (6dB)
+const CHANNEL_DOMINANCE = 4;
+const CHANNEL_FRAME_SECONDS = 0.05;
+
+const toDb = (meanSquare: number): number => (meanSquare > 0 ? 10 * Math.log10(meanSquare) : -100);
+
+export const frameLevels = (samples: Float32Array, sampleRate: number, frameSeconds = FRAME_SECONDS): Float32Array => {
+  const frameLength = Math.max(1, Math.round(frameSeconds * sampleRate));
+  const levels = new Float32Array(Math.ceil(samples.length / frameLength));
+  for (let f = 0; f < levels.length; f++) {
+    const from = f * frameLength;
+    const to = Math.min(samples.length, from + frameLength);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    levels[f] = toDb(sum / Math.max(1, to - from));
+  }
+  return levels;
+};
+
+const percentile = (values: Float32Array, p: number): number => {
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Marks the frames that sound like speech
+export const detectSpeech = (levels: Float32Array, frameSeconds = FRAME_SECONDS): boolean[] => {
+  if (levels.length === 0) return [];
+  const threshold = Math.max(MIN_SPEECH_DB, percentile(levels, 0.1) + SPEECH_ABOVE_FLOOR_DB);
+  const radius = Math.round(MODULATION_WINDOW_SECONDS / frameSeconds);
+
+  // Running sums make the windowed standard deviation linear in the number of frames
+  const sums = new Float64Array(levels.length + 1);
+  const squares = new Float64Array(levels.length + 1);
+  for (let i = 0; i < levels.length; i++) {
+    sums[i + 1] = sums[i] + levels[i];
+    squares[i + 1] = squares[i] + levels[i] * levels[i];
+  }
+
+  return Array.from(levels, (level, i) => {
+    if (level < threshold) return false;
+    const from = Math.max(0, i - radius);
+    const to = Math.min(levels.length, i + radius + 1);
+    const n = to - from;
+    const mean = (sums[to] - sums[from]) / n;
+    const variance = (squares[to] - squares[from]) / n - mean * mean;
+    return Math.sqrt(Math.max(0, variance)) >= MIN_MODULATION_DB;
+  });
+};
+
+// Turns per-frame speech flags into the spans to keep: padded, with short pauses bridged
+export const planKeptSpans = (speech: boolean[], frameSeconds: number, duration: number): KeptSpan[] => {
+  const ranges: { start: number; end: number }[] = [];
+  speech.forEach((isSpeech, i) => {
+    if (!isSpeech) return;
+    const start = Math.max(0, i * frameSeconds - PAD_SECONDS);
+    const end = Math.min(duration, (i + 1) * frameSeconds + PAD_SECONDS);
+    const last = ranges[ranges.length - 1];
+    if (last && start - last.end < MIN_GAP_SECONDS) last.end = Math.max(last.end, end);
+    else ranges.push({ start, end });
+  });
+
+  let outputStart = 0;
+  return ranges.map(range => {
+    const span = { ...range, outputStart };
+    outputStart += range.end - range.start;
+    return span;
+  });
+};
+
+// Maps a time in the processed audio back to the original recording. Times inside a cut point to
+// the start of the next kept span.
+export const toSourceTime = (timeMap: TimeMap, seconds: number): number => {
+  const { spans } = timeMap;
+  if (spans.length === 0) return seconds;
+  let span = spans[0];
+  for (const candidate of spans) {
+    if (candidate.outputStart > seconds) break;
+    span = candidate;
+  }
+  return Math.min(span.end, span.start + Math.max(0, seconds - span.outputStart));
+};
+
+// --- Processing ---
+
+const speechGainDb = (levels: Float32Array, speech: boolean[], peak: number): number => {
+  let sum = 0;
+  let count = 0;
+  levels.forEach((level, i) => {
+    if (!speech[i]) return;
+    sum += Math.pow(10, level / 10);
+    count++;
+  });
+  if (count === 0 || peak === 0) return 0;
+  const wanted = Math.min(MAX_GAIN_DB, TARGET_SPEECH_DB - toDb(sum / count));
+  // Never push the loudest sample past the ceiling
+  const headroom = 20 * Math.log10(PEAK_CEILING / peak);
+  return Math.min(wanted, headroom);
+};
+
+// Expects the mono audio produced by resampling; returns it unchanged when there is nothing to do
+export const preprocessAudio = (
+  audio: PcmAudio,
+  options: PreprocessingOptions,
+  onProgress?: (fraction: number) => void
+): PreprocessResult => {
+  const unchanged: PreprocessResult = { audio, removedSeconds: 0, gainDb: 0 };
+  if (!options.trimSilence && !options.normalizeLoudness) return unchanged;
+
+  const { samples, sampleRate } = audio;
+  const duration = pcmDuration(audio);
+  const levels = frameLevels(samples, sampleRate);
+  const speech = detectSpeech(levels);
+  onProgress?.(0.5);
+
+  let spans: KeptSpan[] = [{ start: 0, end: duration, outputStart: 0 }];
+  if (options.trimSilence) {
+    const planned = planKeptSpans(speech, FRAME_SECONDS, duration);
+    const kept = planned.reduce((total, s) => total + (s.end - s.start), 0);
+    if (kept >= MIN_SPEECH_SECONDS) spans = planned;
+  }
+
+  let peak = 0;
+  if (options.normalizeLoudness) {
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const gainDb = options.normalizeLoudness ? speechGainDb(levels, speech, peak) : 0;
+  const gain = Math.pow(10, gainDb / 20);
+
+  const sampleSpans = spans.map(s => ({
+    from: Math.floor(s.start * sampleRate),
+    to: Math.min(samples.length, Math.ceil(s.end * sampleRate)),
+  }));
+  const length = sampleSpans.reduce((total, s) => total + (s.to - s.from), 0);
+  const output: PcmAudio = { samples: new Float32Array(Math.max(1, length)), sampleRate };
+  const data = output.samples;
+  let offset = 0;
+  sampleSpans.forEach(({ from, to }) => {
+    for (let i = from; i < to; i++) data[offset++] = samples[i] * gain;
+  });
+
+  const removedSeconds = Math.max(0, duration - pcmDuration(output));
+  return {
+    audio: output,
+    timeMap: removedSeconds > 0 ? { spans } : undefined,
+    removedSeconds,
+    gainDb,
+  };
+};
+
+// --- Timestamps and Speakers ---
+
+// The plain-text transcript repeats speakers and times, so it is rebuilt whenever utterances change
+const withUtterances = (analysis: CallAnalysis, utterances: Utterance[] | undefined): CallAnalysis =>
+  (utterances ? { ...analysis, utterances, transcript: utterancesToText(utterances) } : analysis);
+
+// Rewrites every timestamp the model produced for the processed audio into original recording time
+export const remapAnalysisTimes = (analysis: CallAnalysis, timeMap: TimeMap): CallAnalysis => {
+  const map = (seconds: number) => toSourceTime(timeMap, seconds);
+  return {
+    ...withUtterances(analysis, analysis.utterances?.map(u => ({ ...u, start: map(u.start), end: Math.max(map(u.start), map(u.end)) }))),
+    topics: analysis.topics?.map(topic => ({
+      ...topic,
+      evidence: topic.evidence.map(e => (e.start !== undefined ? { ...e, start: map(e.start) } : e)),
+    })),
+  };
+};
+
+// Mean energy per frame of the first two channels of the original decode; null for mono recordings
+export const measureChannelActivity = (channels: Float32Array[], sampleRate: number): ChannelActivity | null => {
+  if (channels.length < 2) return null;
+  const energy = (channel: number) =>
+    frameLevels(channels[channel], sampleRate, CHANNEL_FRAME_SECONDS).map(db => Math.pow(10, db / 10));
+  return { frameSeconds: CHANNEL_FRAME_SECONDS, agent: energy(0), customer: energy(1) };
+};
+
+// Which side of the call was speaking between two times, if one clearly was
+const dominantRole = (activity: ChannelActivity, start: number, end: number): Exclude<SpeakerRole, 'unknown'> | null => {
+  const from = Math.floor(start / activity.frameSeconds);
+  const to = Math.min(activity.agent.length, Math.max(from + 1, Math.ceil(end / activity.frameSeconds)));
+  let agent = 0;
+  let customer = 0;
+  for (let f = from; f < to; f++) {
+    agent += activity.agent[f];
+    customer += activity.customer[f];
+  }
+  if (agent > customer * CHANNEL_DOMINANCE) return 'agent';
+  if (customer > agent * CHANNEL_DOMINANCE) return 'customer';
+  return null;
+};
+
+// Sets each utterance's role from the channel that carried it. Utterances that move to the other
+// side take the label the model used most for that side, so speaker names stay consistent.
+export const attributeSpeakersByChannel = (analysis: CallAnalysis, activity: ChannelActivity): CallAnalysis => {
+  const utterances = analysis.utterances;
+  if (!utterances) return analysis;
+  const labels: Record<'agent' | 'customer', Map<string, number>> = { agent: new Map(), customer: new Map() };
+  const roles = utterances.map(u => dominantRole(activity, u.start, u.end));
+  utterances.forEach((u, i) => {
+    const role = roles[i];
+    if (role && role === u.role) labels[role].set(u.speaker, (labels[role].get(u.speaker) || 0) + 1);
+  });
+  const labelFor = (role: 'agent' | 'customer') =>
+    [...labels[role].entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || (role === 'agent' ? 'Agent' : 'Customer');
+
+  return withUtterances(analysis, utterances.map((u, i) => {
+    const role = roles[i];
+    if (!role || role === u.role) return u;
+    return { ...u, role, speaker: labelFor(role) };
+  }));
+};
@@ -0,0 +1,177 @@
+import { CallRecord } from "../types";
+import { searchableText, SearchField, tokenize } from "./callSearch";
+import { toDateString } from "./actionItems";
+import { formatTimestamp } from "./transcript";
+
+// Question answering over saved calls. The model only sees what is put in front of it: the whole
+// call when asking about one call, or the best-matching calls (ranked locally with BM25 keyword
+// scoring) when asking about the library. Lines are numbered so answers can cite them.
+
+export interface SourceLine {
+  id: number; // Position in the call's transcript, used by the model to cite the line
+  speaker?: string;
+  start?: number; // Seconds; missing for plain-text transcripts
+  text: string;
+  translation?: string;
+}
+
+// One call as shown to the model
+export interface QuestionSource {
+  label: string; // "C1", "C2"... so the model never has to repeat record ids
+  call: CallRecord;
+  lines: SourceLine[]; // Possibly only the lines most relevant to the question
+  omittedLines: number;
+}
+
+// Calls put in front of the model for a library-wide question
+export const LIBRARY_SOURCE_LIMIT = 5;
+// Transcript characters per question; a single call gets the whole budget
+const CONTEXT_CHARS = 60000;
+
+// Words that say nothing about which call or line is relevant
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'any', 'are', 'as', 'ask', 'asked', 'at', 'be', 'by', 'call', 'calls', 'can', 'customer',
+  'customers', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'mention',
+  'mentioned', 'mentions', 'of', 'on', 'or', 'said', 'say', 'talk', 'talked', 'the', 'their', 'them', 'there', 'they',
+  'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+export const questionTerms = (question: string): string[] =>
+  [...new Set(tokenize(question).filter(t => t.length > 1 && !STOP_WORDS.has(t)))];
+
+// A term matches a word it equals or prefixes, so "refund" finds "refunded"
+const countMatches = (tokens: string[], term: string): number =>
+  tokens.reduce((n, t) => (t.startsWith(term) ? n + 1 : n), 0);
+
+export const callLines = (call: CallRecord): SourceLine[] => {
+  const analysis = call.analysis;
+  if (!analysis) return [];
+  if (analysis.utterances?.length) {
+    return analysis.utterances.map((u, id) => ({
+      id,
+      speaker: call.speakerNames?.[u.speaker] || u.speaker,
+      start: u.start,
+      text: u.text,
+      ...(u.translation && { translation: u.translation }),
+    }));
+  }
+  return analysis.transcript.split('\n').filter(line => line.trim()).map((text, id) => ({ id, text }));
+};
+
+const lineLength = (line: SourceLine) => line.text.length + (line.translation?.length || 0) + 20;
+
+// The whole transcript when it fits in `maxChars`; otherwise the lines matching the question best, each
+// with its neighbours for context, in their original order
+const selectLines = (lines: SourceLine[], terms: string[], maxChars: number): SourceLine[] => {
+  if (lines.reduce((n, line) => n + lineLength(line), 0) <= maxChars) return lines;
+
+  const scored = lines
+    .map((line, idx) => {
+      const tokens = tokenize(`${line.text} ${line.translation || ''}`);
+      return { idx, score: terms.reduce((n, term) => n + countMatches(tokens, term), 0) };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.idx - b.idx);
+
+  const picked = new Set<number>();
+  let used = 0;
+  const take = (idx: number) => {
+    if (idx < 0 || idx >= lines.length || picked.has(idx)) return true;
+    const length = lineLength(lines[idx]);
+    if (used + length > maxChars) return false;
+    picked.add(idx);
+    used += length;
+    return true;
+  };
+  for (const { idx } of scored) {
+    if (!take(idx)) break;
+    take(idx - 1);
+    take(idx + 1);
+  }
+  // Nothing matched: the opening of the call is the best guess
+  if (picked.size === 0) {
+    let idx = 0;
+    while (idx < lines.length && take(idx)) idx++;
+  }
+  return [...picked].sort((a, b) => a - b).map(idx => lines[idx]);
+};
+
+export const buildQuestionSource = (call: CallRecord, label: string, question: string, maxChars = CONTEXT_CHARS): QuestionSource => {
+  const all = callLines(call);
+  const lines = selectLines(all, questionTerms(question), maxChars);
+  return { label, call, lines, omittedLines: all.length - lines.length };
+};
+
+// BM25 over everything stored for a call. Calls sharing no term with the question are left out.
+const K1 = 1.2;
+const B = 0.75;
+
+export const retrieveCalls = (calls: CallRecord[], question: string, limit = LIBRARY_SOURCE_LIMIT): CallRecord[] => {
+  const terms = questionTerms(question);
+  const analyzed = calls.filter(c => c.status === 'completed' && c.analysis);
+  if (terms.length === 0 || analyzed.length === 0) return [];
+
+  const docs = analyzed.map(call => {
+    const text = searchableText(call);
+    return tokenize((Object.keys(text) as SearchField[]).map(field => text[field]).join('\n'));
+  });
+  const averageLength = docs.reduce((n, d) => n + d.length, 0) / docs.length || 1;
+  const idf = new Map(terms.map(term => {
+    const containing = docs.filter(d => d.some(t => t.startsWith(term))).length;
+    return [term, Math.log(1 + (docs.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return analyzed
+    .map((call, i) => {
+      const doc = docs[i];
+      const score = terms.reduce((total, term) => {
+        const tf = countMatches(doc, term);
+        return total + idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }, 0);
+      return { call, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score || b.call.timestamp - a.call.timestamp)
+    .slice(0, limit)
+    .map(r => r.call);
+};
+
+export const buildLibrarySources = (calls: CallRecord[], question: string): QuestionSource[] => {
+  const relevant = retrieveCalls(calls, question);
+  return relevant.map((call, i) => buildQuestionSource(call, `C${i + 1}`, question, Math.floor(CONTEXT_CHARS / relevant.length)));
+};
+
+const formatLine = (source: QuestionSource, line: SourceLine): string => {
+  const time = line.start !== undefined ? ` ${formatTimestamp(line.start)}` : '';
+  const speaker = line.speaker ? `${line.speaker}: ` : '';
+  const translation = line.translation ? ` (English: ${line.translation})` : '';
+  return `[${source.label}#${line.id}${time}] ${speaker}${line.text}${translation}`;
+};
+
+// The call as plain text for the prompt: what was stored about it, then the numbered transcript lines
+export const formatQuestionSource = (source: QuestionSource): string => {
+  const { call } = source;
+  const analysis = call.analysis!;
+  return [
+    `=== ${source.label}: "${call.fileName}", ${toDateString(new Date(call.timestamp))} ===`,
+    `Summary: ${analysis.summary}`,
+    analysis.keyInsights.length > 0 && `Key insights: ${analysis.keyInsights.join('; ')}`,
+    analysis.actionItems.length > 0 && `Action items: ${analysis.actionItems.map(i => i.text).join('; ')}`,
+    'Transcript:',
+    ...source.lines.map(line => formatLine(source, line)),
+    source.omittedLines > 0 && `(${source.omittedLines} less relevant lines not shown)`,
+  ].filter(Boolean).join('\n');
+};
+
+const normalizeQuote = (text: string) => tokenize(text).join(' ');
+
+// The line a quote comes from: the cited line when it contains the quote, otherwise the first line that does
+export const locateQuote = (source: QuestionSource, quote: string, lineId?: number): SourceLine | undefined => {
+  const needle = normalizeQuote(quote);
+  if (!needle) return undefined;
+  const contains = (line: SourceLine) =>
+    normalizeQuote(line.text).includes(needle) || (!!line.translation && normalizeQuote(line.translation).includes(needle));
+  const cited = source.lines.find(line => line.id === lineId);
+  if (cited && contains(cited)) return cited;
+  return source.lines.find(contains);
+};
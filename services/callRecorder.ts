@@ -0,0 +1,236 @@
+import { toDateString } from "./actionItems";
+
+// Records a call in the browser with MediaRecorder. The microphone can be mixed with the audio of a
+// shared tab (e.g. a web softphone) so both sides of the call end up in one recording, which is then
+// handed to the uploader like any picked file.
+
+export type RecordingSource = 'microphone' | 'microphone-and-tab';
+
+export type RecorderState = 'idle' | 'starting' | 'recording' | 'paused' | 'stopping';
+
+export interface RecorderSnapshot {
+  state: RecorderState;
+  source?: RecordingSource;
+  elapsedMs: number; // Recorded time, excluding pauses
+  level: number; // Current input loudness, 0..1
+}
+
+export interface CallRecorder {
+  // Rejects with a readable message when permission is refused or no audio is available
+  start(source: RecordingSource): Promise<void>;
+  pause(): void;
+  resume(): void;
+  // Finishes the recording and returns it as a file named after the current date and time
+  stop(): Promise<File>;
+  // Stops without keeping anything
+  discard(): void;
+  getSnapshot(): RecorderSnapshot;
+  subscribe(listener: () => void): () => void;
+}
+
+// Container/codec pairs in order of preference; Safari only offers MP4
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+// How often elapsed time and the level meter are refreshed
+const TICK_MS = 100;
+// MediaRecorder hands over data this often, so a crash loses at most this much
+const TIMESLICE_MS = 1000;
+// Levels below this are shown as silence
+const METER_FLOOR_DB = -60;
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const isTabCaptureSupported = (): boolean => !!navigator.mediaDevices?.getDisplayMedia;
+
+const pickRecordingType = (): string | undefined =>
+  RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+// Translates getUserMedia/getDisplayMedia failures into something a user can act on
+const describeCaptureError = (error: any, device: 'microphone' | 'tab'): Error => {
+  if (error?.name === 'NotAllowedError') {
+    return new Error(device === 'microphone'
+      ? 'Microphone access was blocked. Allow it in the browser\'s site settings and try again.'
+      : 'Tab sharing was cancelled.');
+  }
+  if (error?.name === 'NotFoundError') return new Error('No microphone was found.');
+  if (error?.name === 'NotReadableError') return new Error('The microphone is in use by another application.');
+  return error instanceof Error ? error : new Error(`Could not access the ${device}.`);
+};
+
+const recordingName = (date: Date, mimeType: string): string => {
+  const time = `${String(date.getHours()).padStart(2, '0')}-${String(date.getMinutes()).padStart(2, '0')}`;
+  return `Recording ${toDateString(date)} ${time}.${EXTENSIONS[mimeType] || 'webm'}`;
+};
+
+export const createCallRecorder = (): CallRecorder => {
+  let snapshot: RecorderSnapshot = { state: 'idle', elapsedMs: 0, level: 0 };
+  const listeners = new Set<() => void>();
+
+  // Live session resources, all released by cleanup()
+  let streams: MediaStream[] = [];
+  let audioContext: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+  let ticker: ReturnType<typeof setInterval> | undefined;
+  let recordedMs = 0; // Before the current stretch of recording
+  let resumedAt = 0;
+
+  const update = (patch: Partial<RecorderSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    listeners.forEach(l => l());
+  };
+
+  const elapsed = () => recordedMs + (snapshot.state === 'recording' ? Date.now() - resumedAt : 0);
+
+  const measureLevel = (): number => {
+    if (!analyser) return 0;
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const rms = Math.sqrt(sum / samples.length);
+    const db = rms > 0 ? 20 * Math.log10(rms) : METER_FLOOR_DB;
+    return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+  };
+
+  const cleanup = () => {
+    clearInterval(ticker);
+    ticker = undefined;
+    streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    streams = [];
+    audioContext?.close().catch(() => {});
+    audioContext = null;
+    analyser = null;
+    recorder = null;
+    chunks = [];
+    recordedMs = 0;
+  };
+
+  const captureTabAudio = async (): Promise<MediaStream> => {
+    let display: MediaStream;
+    try {
+      // Browsers only share tab audio together with video
+      display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    } catch (e) {
+      throw describeCaptureError(e, 'tab');
+    }
+    display.getVideoTracks().forEach(track => track.stop());
+    if (display.getAudioTracks().length === 0) {
+      throw new Error('The shared tab has no audio. Choose a tab and tick "Share tab audio".');
+    }
+    return display;
+  };
+
+  return {
+    async start(source) {
+      if (snapshot.state !== 'idle') return;
+      if (!isRecordingSupported()) throw new Error('This browser cannot record audio.');
+      update({ state: 'starting', source, elapsedMs: 0, level: 0 });
+
+      try {
+        try {
+          streams.push(await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: true, noiseSuppression: true },
+          }));
+        } catch (e) {
+          throw describeCaptureError(e, 'microphone');
+        }
+        if (source === 'microphone-and-tab') streams.push(await captureTabAudio());
+
+        // Mix every input into one stream; the analyser taps the same mix for the meter
+        audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const mix = audioContext.createMediaStreamDestination();
+        analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        streams.forEach(stream => {
+          const input = audioContext!.createMediaStreamSource(stream);
+          input.connect(mix);
+          input.connect(analyser!);
+        });
+
+        const mimeType = pickRecordingType();
+        recorder = new MediaRecorder(mix.stream, mimeType ? { mimeType } : undefined);
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.start(TIMESLICE_MS);
+      } catch (e) {
+        cleanup();
+        update({ state: 'idle', source: undefined });
+        throw e;
+      }
+
+      resumedAt = Date.now();
+      update({ state: 'recording' });
+      ticker = setInterval(() => update({
+        elapsedMs: elapsed(),
+        level: snapshot.state === 'recording' ? measureLevel() : 0,
+      }), TICK_MS);
+    },
+
+    pause() {
+      if (snapshot.state !== 'recording' || !recorder) return;
+      recorder.pause();
+      recordedMs += Date.now() - resumedAt;
+      update({ state: 'paused', elapsedMs: recordedMs, level: 0 });
+    },
+
+    resume() {
+      if (snapshot.state !== 'paused' || !recorder) return;
+      recorder.resume();
+      resumedAt = Date.now();
+      update({ state: 'recording' });
+    },
+
+    stop() {
+      const active = recorder;
+      if (!active || (snapshot.state !== 'recording' && snapshot.state !== 'paused')) {
+        return Promise.reject(new Error('Nothing is being recorded.'));
+      }
+      const finalMs = elapsed();
+      clearInterval(ticker);
+      update({ state: 'stopping', elapsedMs: finalMs, level: 0 });
+
+      return new Promise<File>((resolve, reject) => {
+        active.onstop = () => {
+          // Codec parameters are dropped so the type matches what the pipeline expects
+          const mimeType = (active.mimeType || 'audio/webm').split(';')[0];
+          const blob = new Blob(chunks, { type: mimeType });
+          cleanup();
+          update({ state: 'idle', source: undefined, elapsedMs: 0 });
+          if (blob.size === 0) {
+            reject(new Error('Nothing was recorded.'));
+            return;
+          }
+          const now = new Date();
+          resolve(new File([blob], recordingName(now, mimeType), { type: mimeType, lastModified: now.getTime() }));
+        };
+        active.stop();
+      });
+    },
+
+    discard() {
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+      }
+      cleanup();
+      update({ state: 'idle', source: undefined, elapsedMs: 0, level: 0 });
+    },
+
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
@@ -0,0 +1,247 @@
+import { CallRecord } from "../types";
+import { upgradeCallRecord } from "./actionItems";
+
+// --- Repository Contract ---
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number | null; // null when the browser does not report a quota
+  persisted: boolean;
+}
+
+export interface CallRepository {
+  listCalls(): Promise<CallRecord[]>;
+  getCall(id: string): Promise<CallRecord | undefined>;
+  // Inserts or replaces a record. Passing audio stores the original recording alongside it.
+  saveCall(record: CallRecord, audio?: Blob): Promise<void>;
+  deleteCall(id: string): Promise<void>;
+  renameCall(id: string, fileName: string): Promise<CallRecord>;
+  getAudio(id: string): Promise<Blob | undefined>;
+  getStorageUsage(): Promise<StorageUsage>;
+  // False when calls are only kept in memory and are lost on reload
+  isPersistent(): boolean;
+}
+
+// Thrown when the browser refuses to open the database at all, as opposed to a single failed write
+export class StorageUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`Browser storage is unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+// --- IndexedDB Implementation ---
+
+const DB_NAME = 'callbrain';
+const DB_VERSION = 1;
+const CALLS_STORE = 'calls';
+const AUDIO_STORE = 'audio';
+
+// Wraps an IDBRequest in a Promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CALLS_STORE)) {
+        const calls = db.createObjectStore(CALLS_STORE, { keyPath: 'id' });
+        calls.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        db.createObjectStore(AUDIO_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Call library is open in another tab with an older version."));
+  });
+};
+
+// Resolves once every request queued on the transaction has been committed
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
+
+const estimateStorage = async (): Promise<StorageUsage> => {
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+    ]);
+    return {
+      usedBytes: estimate.usage ?? 0,
+      quotaBytes: estimate.quota ?? null,
+      persisted,
+    };
+  }
+  return { usedBytes: 0, quotaBytes: null, persisted: false };
+};
+
+export const createIndexedDBCallRepository = (): CallRepository => {
+  // Opened lazily and shared by all calls
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((e) => {
+        dbPromise = null;
+        throw new StorageUnavailableError(e);
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    async listCalls() {
+      const db = await getDb();
+      const tx = db.transaction(CALLS_STORE, 'readonly');
+      const records = await promisify<CallRecord[]>(tx.objectStore(CALLS_STORE).getAll());
+      // Newest first, matching the order the dashboard shows
+      return records.map(upgradeCallRecord).sort((a, b) => b.timestamp - a.timestamp);
+    },
+
+    async getCall(id) {
+      const db = await getDb();
+      const tx = db.transaction(CALLS_STORE, 'readonly');
+      const record = await promisify<CallRecord | undefined>(tx.objectStore(CALLS_STORE).get(id));
+      return record && upgradeCallRecord(record);
+    },
+
+    async saveCall(record, audio) {
+      const db = await getDb();
+      const tx = db.transaction([CALLS_STORE, AUDIO_STORE], 'readwrite');
+      tx.objectStore(CALLS_STORE).put(record);
+      if (audio) {
+        tx.objectStore(AUDIO_STORE).put(audio, record.id);
+      }
+      await transactionDone(tx);
+    },
+
+    async deleteCall(id) {
+      const db = await getDb();
+      const tx = db.transaction([CALLS_STORE, AUDIO_STORE], 'readwrite');
+      tx.objectStore(CALLS_STORE).delete(id);
+      tx.objectStore(AUDIO_STORE).delete(id);
+      await transactionDone(tx);
+    },
+
+    async renameCall(id, fileName) {
+      const db = await getDb();
+      const tx = db.transaction(CALLS_STORE, 'readwrite');
+      const store = tx.objectStore(CALLS_STORE);
+      const existing = await promisify<CallRecord | undefined>(store.get(id));
+      if (!existing) {
+        throw new Error(`Call ${id} was not found in the library.`);
+      }
+      const renamed: CallRecord = { ...upgradeCallRecord(existing), fileName };
+      store.put(renamed);
+      await transactionDone(tx);
+      return renamed;
+    },
+
+    async getAudio(id) {
+      const db = await getDb();
+      const tx = db.transaction(AUDIO_STORE, 'readonly');
+      return promisify<Blob | undefined>(tx.objectStore(AUDIO_STORE).get(id));
+    },
+
+    getStorageUsage: estimateStorage,
+
+    isPersistent: () => true,
+  };
+};
+
+// --- In-Memory Fallback ---
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes). Nothing survives a reload.
+export const createInMemoryCallRepository = (): CallRepository => {
+  const calls = new Map<string, CallRecord>();
+  const audio = new Map<string, Blob>();
+
+  return {
+    async listCalls() {
+      return [...calls.values()].sort((a, b) => b.timestamp - a.timestamp);
+    },
+
+    async getCall(id) {
+      return calls.get(id);
+    },
+
+    async saveCall(record, blob) {
+      calls.set(record.id, record);
+      if (blob) audio.set(record.id, blob);
+    },
+
+    async deleteCall(id) {
+      calls.delete(id);
+      audio.delete(id);
+    },
+
+    async renameCall(id, fileName) {
+      const existing = calls.get(id);
+      if (!existing) {
+        throw new Error(`Call ${id} was not found in the library.`);
+      }
+      const renamed: CallRecord = { ...existing, fileName };
+      calls.set(id, renamed);
+      return renamed;
+    },
+
+    async getAudio(id) {
+      return audio.get(id);
+    },
+
+    async getStorageUsage() {
+      let used = 0;
+      audio.forEach(blob => { used += blob.size; });
+      return { usedBytes: used, quotaBytes: null, persisted: false };
+    },
+
+    isPersistent: () => false,
+  };
+};
+
+// --- Fallback ---
+
+// Uses the primary repository until it reports storage as unavailable (private browsing, a blocked
+// upgrade), then keeps calls in the fallback for the rest of the session instead of losing them.
+export const createFallbackCallRepository = (primary: CallRepository, fallback: CallRepository): CallRepository => {
+  let active = primary;
+
+  const run = async <T>(operation: (repo: CallRepository) => Promise<T>): Promise<T> => {
+    if (active === fallback) return operation(fallback);
+    try {
+      return await operation(primary);
+    } catch (e) {
+      if (!(e instanceof StorageUnavailableError)) throw e;
+      console.error('Falling back to in-memory call storage', e);
+      active = fallback;
+      return operation(fallback);
+    }
+  };
+
+  return {
+    listCalls: () => run(repo => repo.listCalls()),
+    getCall: (id) => run(repo => repo.getCall(id)),
+    saveCall: (record, audio) => run(repo => repo.saveCall(record, audio)),
+    deleteCall: (id) => run(repo => repo.deleteCall(id)),
+    renameCall: (id, fileName) => run(repo => repo.renameCall(id, fileName)),
+    getAudio: (id) => run(repo => repo.getAudio(id)),
+    getStorageUsage: () => active.getStorageUsage(),
+    isPersistent: () => active.isPersistent(),
+  };
+};
+
+export const callRepository: CallRepository = typeof indexedDB !== 'undefined'
+  ? createFallbackCallRepository(createIndexedDBCallRepository(), createInMemoryCallRepository())
+  : createInMemoryCallRepository();
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { excerptAround, highlightSegments, normalizeWithOffsets } from "./callSearch";
+
+const matches = (text: string, query: string) => highlightSegments(text, query).filter(s => s.match).map(s => s.text);
+
+describe('normalizeWithOffsets', () => {
+  it('maps precomposed letters one to one', () => {
+    expect(normalizeWithOffsets('José')).toEqual({ normalized: 'jose', offsets: [0, 1, 2, 3, 4] });
+  });
+
+  it('drops combining marks but keeps the offsets of what follows', () => {
+    // "e" followed by a combining acute accent
+    expect(normalizeWithOffsets('Jose\u0301 R')).toEqual({ normalized: 'jose r', offsets: [0, 1, 2, 3, 5, 6, 7] });
+  });
+
+  it('points every character a letter decomposes into back at that letter', () => {
+    // Hangul syllables decompose into their jamo
+    const { normalized, offsets } = normalizeWithOffsets('한a');
+    expect(normalized).toHaveLength(4);
+    expect(offsets).toEqual([0, 0, 0, 1, 2]);
+  });
+
+  it('steps over surrogate pairs', () => {
+    expect(normalizeWithOffsets('😀e\u0301').offsets).toEqual([0, 0, 2, 4]);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('matches accented text with a plain query, either way the accent is written', () => {
+    expect(matches('Call José today', 'jose')).toEqual(['José']);
+    expect(matches('Call Jose\u0301 today', 'jose')).toEqual(['Jose\u0301']);
+    expect(matches('Call José today', 'Jose\u0301')).toEqual(['José']);
+  });
+
+  it('keeps every character of the original text', () => {
+    const text = 'Rene\u0301e and José met Zoe\u0308';
+    const segments = highlightSegments(text, 'renee zoe');
+    expect(segments.map(s => s.text).join('')).toBe(text);
+    expect(segments.filter(s => s.match).map(s => s.text)).toEqual(['Rene\u0301e', 'Zoe\u0308']);
+  });
+
+  it('matches at word starts only', () => {
+    expect(matches('Refunds and a prefund', 'refund')).toEqual(['Refund']);
+  });
+
+  it('returns the text as one plain segment without terms', () => {
+    expect(highlightSegments('José', '  ')).toEqual([{ text: 'José', match: false }]);
+  });
+});
+
+describe('excerptAround', () => {
+  it('centres on a match behind combining marks', () => {
+    const text = `${'Jose\u0301 '.repeat(30)}asked about the refund`;
+    expect(excerptAround(text, 'refund', 20)).toMatch(/^….*refund$/);
+  });
+});
@@ -0,0 +1,321 @@
+import { CallRecord, CallSentiment } from "../types";
+import { toDateString } from "./actionItems";
+
+// Full-text search and filtering over the call library. The index is kept in memory and updated
+// incrementally: only records that changed since the last sync are re-tokenized.
+
+// --- Tokenizing ---
+
+export type SearchField = 'fileName' | 'summary' | 'actionItems' | 'keyInsights' | 'transcript';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  fileName: 'File name',
+  summary: 'Summary',
+  actionItems: 'Action items',
+  keyInsights: 'Insights',
+  transcript: 'Transcript',
+};
+
+// A hit in the summary says more about a call than one somewhere in an hour of transcript
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  fileName: 3,
+  summary: 3,
+  actionItems: 2,
+  keyInsights: 2,
+  transcript: 1,
+};
+
+// Shorter terms only match whole words, otherwise "a" would match most of the library
+const MIN_PREFIX_LENGTH = 2;
+
+// Lower case without diacritics, so "resume" finds "Résumé"
+const normalize = (text: string): string => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export const tokenize = (text: string): string[] => normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const searchableText = (call: CallRecord): Record<SearchField, string> => {
+  const analysis = call.analysis;
+  return {
+    fileName: call.fileName,
+    summary: analysis?.summary || '',
+    actionItems: analysis?.actionItems.map(i => i.text).join('\n') || '',
+    keyInsights: analysis?.keyInsights.join('\n') || '',
+    transcript: analysis
+      ? analysis.utterances?.length
+        ? analysis.utterances.map(u => (u.translation ? `${u.text}\n${u.translation}` : u.text)).join('\n')
+        : analysis.transcript
+      : '',
+  };
+};
+
+// --- Index ---
+
+export interface SearchHit {
+  callId: string;
+  score: number;
+  fields: SearchField[]; // Fields containing at least one of the terms, best first
+}
+
+export interface SearchIndex {
+  // Brings the index in line with the library; records are compared by identity
+  sync(calls: CallRecord[]): void;
+  // Calls containing every term of the query, keyed by id. The last word also matches as a prefix.
+  search(query: string): Map<string, SearchHit>;
+}
+
+interface Posting {
+  weight: number;
+  fields: Set<SearchField>;
+}
+
+interface TermHit {
+  score: number;
+  fields: Map<SearchField, number>; // Field -> accumulated weight, for ranking where a call matched
+}
+
+export const createSearchIndex = (): SearchIndex => {
+  const postings = new Map<string, Map<string, Posting>>(); // token -> call id -> posting
+  const indexed = new Map<string, { record: CallRecord; tokens: string[] }>();
+  let sortedTokens: string[] | null = null; // Built lazily for prefix lookups
+
+  const add = (call: CallRecord) => {
+    const tokens = new Set<string>();
+    (Object.entries(searchableText(call)) as [SearchField, string][]).forEach(([field, text]) => {
+      tokenize(text).forEach(token => {
+        tokens.add(token);
+        let byCall = postings.get(token);
+        if (!byCall) {
+          byCall = new Map();
+          postings.set(token, byCall);
+          sortedTokens = null;
+        }
+        let posting = byCall.get(call.id);
+        if (!posting) {
+          posting = { weight: 0, fields: new Set() };
+          byCall.set(call.id, posting);
+        }
+        posting.weight += FIELD_WEIGHTS[field];
+        posting.fields.add(field);
+      });
+    });
+    indexed.set(call.id, { record: call, tokens: [...tokens] });
+  };
+
+  const remove = (id: string) => {
+    const entry = indexed.get(id);
+    if (!entry) return;
+    entry.tokens.forEach(token => {
+      const byCall = postings.get(token);
+      byCall?.delete(id);
+      if (byCall && byCall.size === 0) {
+        postings.delete(token);
+        sortedTokens = null;
+      }
+    });
+    indexed.delete(id);
+  };
+
+  // Indexed tokens starting with `prefix`, found by binary search over the sorted vocabulary
+  const tokensWithPrefix = (prefix: string): string[] => {
+    if (!sortedTokens) sortedTokens = [...postings.keys()].sort();
+    let low = 0;
+    let high = sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sortedTokens[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const matches: string[] = [];
+    for (let i = low; i < sortedTokens.length && sortedTokens[i].startsWith(prefix); i++) {
+      matches.push(sortedTokens[i]);
+    }
+    return matches;
+  };
+
+  const searchTerm = (term: string, allowPrefix: boolean): Map<string, TermHit> => {
+    const hits = new Map<string, TermHit>();
+    const tokens = allowPrefix && term.length >= MIN_PREFIX_LENGTH ? tokensWithPrefix(term) : postings.has(term) ? [term] : [];
+    tokens.forEach(token => {
+      postings.get(token)!.forEach((posting, id) => {
+        const hit = hits.get(id) || { score: 0, fields: new Map<SearchField, number>() };
+        // Whole-word matches outrank words that merely start with the term
+        hit.score += posting.weight * (token === term ? 2 : 1);
+        posting.fields.forEach(f => hit.fields.set(f, (hit.fields.get(f) || 0) + FIELD_WEIGHTS[f]));
+        hits.set(id, hit);
+      });
+    });
+    return hits;
+  };
+
+  return {
+    sync(calls) {
+      const ids = new Set(calls.map(c => c.id));
+      [...indexed.keys()].forEach(id => { if (!ids.has(id)) remove(id); });
+      calls.forEach(call => {
+        const entry = indexed.get(call.id);
+        if (entry?.record === call) return;
+        if (entry) remove(call.id);
+        add(call);
+      });
+    },
+
+    search(query) {
+      const terms = [...new Set(tokenize(query))];
+      const results = new Map<string, SearchHit>();
+      if (terms.length === 0) return results;
+
+      // Every term has to match; only the word being typed is treated as a prefix
+      let combined = searchTerm(terms[0], terms.length === 1);
+      for (let i = 1; i < terms.length; i++) {
+        const termHits = searchTerm(terms[i], i === terms.length - 1);
+        const next = new Map<string, TermHit>();
+        combined.forEach((hit, id) => {
+          const other = termHits.get(id);
+          if (!other) return;
+          other.fields.forEach((weight, f) => hit.fields.set(f, (hit.fields.get(f) || 0) + weight));
+          next.set(id, { score: hit.score + other.score, fields: hit.fields });
+        });
+        combined = next;
+      }
+
+      combined.forEach((hit, callId) => {
+        const fields = [...hit.fields.entries()].sort((a, b) => b[1] - a[1]).map(([f]) => f);
+        results.set(callId, { callId, score: hit.score, fields });
+      });
+      return results;
+    },
+  };
+};
+
+// --- Highlighting ---
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The normalized text with, for each of its characters, the offset it came from in the original.
+// The extra last offset is the original length, so a match's end maps back too.
+export const normalizeWithOffsets = (text: string): { normalized: string; offsets: number[] } => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const part = normalize(char);
+    normalized += part;
+    for (let i = 0; i < part.length; i++) offsets.push(offset);
+    offset += char.length;
+  }
+  offsets.push(text.length);
+  return { normalized, offsets };
+};
+
+// Splits text into plain and matching segments; terms match at the start of words. Matching runs on
+// the normalized text, like search, so "jose" highlights "José".
+export const highlightSegments = (text: string, query: string): TextSegment[] => {
+  const terms = [...new Set(tokenize(query))].sort((a, b) => b.length - a.length);
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'gu');
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const m of normalized.matchAll(pattern)) {
+    const start = offsets[m.index!];
+    const end = offsets[m.index! + m[0].length];
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    last = end;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
+
+// A short excerpt around the first match, for showing hits in long fields
+export const excerptAround = (text: string, query: string, radius = 60): string => {
+  const segments = highlightSegments(text, query);
+  const first = segments.findIndex(s => s.match);
+  if (first < 0) return text.length > radius * 2 ? `${text.slice(0, radius * 2).trim()}…` : text;
+  const offset = segments.slice(0, first).reduce((acc, s) => acc + s.text.length, 0);
+  const start = Math.max(0, text.lastIndexOf(' ', Math.max(0, offset - radius)) + 1);
+  const endSpace = text.indexOf(' ', offset + radius);
+  const end = endSpace < 0 ? text.length : endSpace;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+};
+
+// --- Filtering and Sorting ---
+
+export interface CallFilters {
+  query: string;
+  fileName: string;
+  sentiment: CallSentiment | 'all';
+  status: CallRecord['status'] | 'all';
+  from: string; // YYYY-MM-DD, inclusive; empty for no bound
+  to: string;
+}
+
+export const EMPTY_FILTERS: CallFilters = { query: '', fileName: '', sentiment: 'all', status: 'all', from: '', to: '' };
+
+export type SortKey = 'relevance' | 'date' | 'fileName' | 'status' | 'sentiment';
+
+export interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface CallSearchResult {
+  call: CallRecord;
+  hit?: SearchHit;
+}
+
+const SENTIMENT_ORDER: Record<CallSentiment, number> = {
+  [CallSentiment.NEGATIVE]: 0,
+  [CallSentiment.NEUTRAL]: 1,
+  [CallSentiment.POSITIVE]: 2,
+};
+
+const compareResults = (key: SortKey) => (a: CallSearchResult, b: CallSearchResult): number => {
+  switch (key) {
+    case 'relevance': return (a.hit?.score || 0) - (b.hit?.score || 0);
+    case 'date': return a.call.timestamp - b.call.timestamp;
+    case 'fileName': return a.call.fileName.localeCompare(b.call.fileName, undefined, { numeric: true, sensitivity: 'base' });
+    case 'status': return a.call.status.localeCompare(b.call.status);
+    case 'sentiment': {
+      // Calls without a sentiment sort below Negative
+      const rank = (r: CallSearchResult) => (r.call.analysis ? SENTIMENT_ORDER[r.call.analysis.sentiment] : -1);
+      return rank(a) - rank(b);
+    }
+  }
+};
+
+export const searchCalls = (
+  calls: CallRecord[],
+  index: SearchIndex,
+  filters: CallFilters,
+  sort: SortState
+): CallSearchResult[] => {
+  const hits = filters.query.trim() ? index.search(filters.query) : null;
+  const fileName = filters.fileName.trim().toLowerCase();
+
+  const results = calls
+    .filter(call => !hits || hits.has(call.id))
+    .filter(call => !fileName || call.fileName.toLowerCase().includes(fileName))
+    .filter(call => filters.status === 'all' || call.status === filters.status)
+    .filter(call => filters.sentiment === 'all' || call.analysis?.sentiment === filters.sentiment)
+    .filter(call => {
+      if (!filters.from && !filters.to) return true;
+      const day = toDateString(new Date(call.timestamp));
+      return (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+    })
+    .map(call => ({ call, hit: hits?.get(call.id) }));
+
+  // Relevance means nothing without a query, so fall back to newest first
+  const key = sort.key === 'relevance' && !hits ? 'date' : sort.key;
+  const direction = sort.key === 'relevance' && !hits ? 'desc' : sort.direction;
+  const compare = compareResults(key);
+  return results.sort((a, b) => {
+    const order = compare(a, b) || a.call.timestamp - b.call.timestamp;
+    return direction === 'asc' ? order : -order;
+  });
+};
@@ -0,0 +1,85 @@
+import { AnalysisProvider } from "./analysisProvider";
+import { getDefaultProvider } from "./providerRegistry";
+import { settingsStore } from "./settings";
+
+// Tracks whether the default provider can be reached, for the sidebar status and the Settings page.
+// The first subscriber triggers a check; later ones run when asked or when the provider changes.
+
+export type ConnectionState = 'checking' | 'connected' | 'failed';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  providerId: string;
+  providerName: string;
+  model: string;
+  error?: string; // Set when failed
+  checkedAt?: number; // When the last check finished
+}
+
+export interface ConnectionMonitor {
+  getSnapshot(): ConnectionStatus;
+  subscribe(listener: () => void): () => void;
+  check(): Promise<void>; // Supersedes a check still in flight
+}
+
+// A provider that has not answered by then is reported as unreachable
+const CHECK_TIMEOUT_MS = 15000;
+
+export const createConnectionMonitor = (getProvider: () => AnalysisProvider, timeoutMs = CHECK_TIMEOUT_MS): ConnectionMonitor => {
+  const describe = (provider: AnalysisProvider) => ({ providerId: provider.id, providerName: provider.name, model: provider.model });
+
+  let snapshot: ConnectionStatus = { state: 'checking', ...describe(getProvider()) };
+  let hasChecked = false;
+  let current: AbortController | null = null;
+  const listeners = new Set<() => void>();
+
+  const update = (next: ConnectionStatus) => {
+    snapshot = next;
+    listeners.forEach(l => l());
+  };
+
+  const check = async () => {
+    hasChecked = true;
+    current?.abort();
+    const controller = new AbortController();
+    current = controller;
+    const provider = getProvider();
+    update({ state: 'checking', ...describe(provider) });
+
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      await provider.checkConnection(controller.signal);
+      if (current === controller) update({ state: 'connected', ...describe(provider), checkedAt: Date.now() });
+    } catch (e: any) {
+      // A newer check owns the status now
+      if (current !== controller) return;
+      const error = controller.signal.aborted ? `No response within ${timeoutMs / 1000}s.` : e?.message || 'Connection failed.';
+      console.warn(`Connection check for ${provider.name} failed`, e);
+      update({ state: 'failed', ...describe(provider), error, checkedAt: Date.now() });
+    } finally {
+      clearTimeout(timer);
+      if (current === controller) current = null;
+    }
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      if (!hasChecked) check();
+      return () => { listeners.delete(listener); };
+    },
+
+    check,
+  };
+};
+
+export const connectionMonitor: ConnectionMonitor = createConnectionMonitor(getDefaultProvider);
+
+// Saving Settings can switch the Gemini model; other changes do not affect the connection
+settingsStore.subscribe(() => {
+  const provider = getDefaultProvider();
+  const { providerId, model } = connectionMonitor.getSnapshot();
+  if (provider.id !== providerId || provider.model !== model) connectionMonitor.check();
+});
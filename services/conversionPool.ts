@@ -0,0 +1,179 @@
+import { createAbortError, throwIfAborted } from "./abort";
+import { AudioEncoding } from "./audioEncoding";
+import { ChannelAudio, PcmAudio } from "./audioConversion";
+import { ChannelActivity, PreprocessingOptions, PreprocessResult } from "./audioPreprocessing";
+
+// Runs the CPU-heavy conversion steps (mixdown, cleanup, encoding, base64) in Web Workers so large files do
+// not freeze the app. Audio is transferred to the worker rather than copied, and handed back where
+// the caller still needs it. Each worker runs one task at a time; calls analyzed side by side by the
+// queue get a worker each, up to the pool size.
+
+// --- Worker Protocol ---
+
+export type ConversionTask =
+  | { kind: 'encode'; audio: PcmAudio; encoding: AudioEncoding }
+  | { kind: 'preprocess'; audio: PcmAudio; options: PreprocessingOptions }
+  | { kind: 'mixdown'; audio: ChannelAudio; measureChannels: boolean }
+  | { kind: 'base64'; bytes: ArrayBuffer };
+
+export interface ConversionResults {
+  encode: { bytes: ArrayBuffer; audio: PcmAudio };
+  preprocess: PreprocessResult;
+  mixdown: { audio: PcmAudio; channels: ChannelActivity | null };
+  base64: string;
+}
+
+export interface ConversionRequest {
+  id: number;
+  task: ConversionTask;
+}
+
+export type ConversionReply =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'done'; result: ConversionResults[ConversionTask['kind']] }
+  | { id: number; type: 'failed'; message: string };
+
+// --- Pool ---
+
+export interface ConversionOptions {
+  // Aborting rejects with an AbortError and stops the worker mid-task
+  signal?: AbortSignal;
+  // Fraction done, 0..1, posted by the worker as it goes
+  onProgress?: (fraction: number) => void;
+}
+
+export interface ConversionPool {
+  // The samples are transferred; the same audio comes back with the encoded bytes
+  encode(audio: PcmAudio, encoding: AudioEncoding, options?: ConversionOptions): Promise<ConversionResults['encode']>;
+  // The samples are transferred; continue with the audio in the result
+  preprocess(audio: PcmAudio, preprocessing: PreprocessingOptions, options?: ConversionOptions): Promise<PreprocessResult>;
+  // The channels are transferred and come back mixed to mono, with the activity of each side when
+  // measureChannels is set and there are two
+  mixdown(audio: ChannelAudio, measureChannels: boolean, options?: ConversionOptions): Promise<ConversionResults['mixdown']>;
+  toBase64(blob: Blob, options?: ConversionOptions): Promise<string>;
+}
+
+const MAX_WORKERS = 4;
+
+interface PendingTask {
+  id: number;
+  task: ConversionTask;
+  transfer: Transferable[];
+  onProgress?: (fraction: number) => void;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  current: PendingTask | null;
+}
+
+export const createConversionPool = (size: number): ConversionPool => {
+  const slots: WorkerSlot[] = [];
+  const waiting: PendingTask[] = [];
+  let nextId = 1;
+
+  // Starts waiting tasks on idle workers, spawning workers up to the pool size
+  const pump = () => {
+    while (waiting.length > 0) {
+      const slot = slots.find(s => !s.current) || (slots.length < size ? spawn() : undefined);
+      if (!slot) return;
+      const task = waiting.shift()!;
+      slot.current = task;
+      const request: ConversionRequest = { id: task.id, task: task.task };
+      slot.worker.postMessage(request, task.transfer);
+    }
+  };
+
+  // A worker is thrown away when its task is cancelled or it crashes; a fresh one is spawned on demand
+  const discard = (slot: WorkerSlot) => {
+    slot.worker.terminate();
+    slots.splice(slots.indexOf(slot), 1);
+    pump();
+  };
+
+  const spawn = (): WorkerSlot => {
+    const worker = new Worker(new URL('./conversionWorker.ts', import.meta.url), { type: 'module' });
+    const slot: WorkerSlot = { worker, current: null };
+    worker.onmessage = (e: MessageEvent<ConversionReply>) => {
+      const task = slot.current;
+      const reply = e.data;
+      if (!task || task.id !== reply.id) return;
+      if (reply.type === 'progress') {
+        task.onProgress?.(reply.fraction);
+        return;
+      }
+      slot.current = null;
+      if (reply.type === 'done') task.resolve(reply.result);
+      else task.reject(new Error(reply.message));
+      pump();
+    };
+    // Only reached for failures outside a task, such as the worker script not loading
+    worker.onerror = (e) => {
+      e.preventDefault();
+      const task = slot.current;
+      discard(slot);
+      task?.reject(new Error(`Audio conversion failed: ${e.message || 'the conversion worker stopped'}`));
+    };
+    slots.push(slot);
+    return slot;
+  };
+
+  const run = <K extends ConversionTask['kind']>(
+    task: Extract<ConversionTask, { kind: K }>,
+    transfer: Transferable[],
+    { signal, onProgress }: ConversionOptions = {}
+  ): Promise<ConversionResults[K]> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      const queued = waiting.indexOf(pending);
+      if (queued >= 0) waiting.splice(queued, 1);
+      const slot = slots.find(s => s.current === pending);
+      if (slot) discard(slot);
+      reject(createAbortError());
+    };
+    const pending: PendingTask = {
+      id: nextId++,
+      task,
+      transfer,
+      onProgress,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(pending);
+    pump();
+  });
+
+  return {
+    encode: (audio, encoding, options) =>
+      run({ kind: 'encode', audio, encoding }, [audio.samples.buffer as ArrayBuffer], options),
+
+    preprocess: (audio, preprocessing, options) =>
+      run({ kind: 'preprocess', audio, options: preprocessing }, [audio.samples.buffer as ArrayBuffer], options),
+
+    mixdown: (audio, measureChannels, options) =>
+      run({ kind: 'mixdown', audio, measureChannels }, audio.channels.map(c => c.buffer as ArrayBuffer), options),
+
+    async toBase64(blob, options = {}) {
+      const bytes = await blob.arrayBuffer();
+      throwIfAborted(options.signal);
+      return run({ kind: 'base64', bytes }, [bytes], options);
+    },
+  };
+};
+
+// Leaves a core for the UI; at least one worker even on single-core machines
+export const conversionPool = createConversionPool(
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1))
+);
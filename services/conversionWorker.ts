@@ -0,0 +1,61 @@
+import { bytesToBase64, mixToMono } from "./audioConversion";
+import { encodeAudio } from "./audioEncoding";
+import { measureChannelActivity, preprocessAudio } from "./audioPreprocessing";
+import type { ConversionReply, ConversionRequest, ConversionResults, ConversionTask } from "./conversionPool";
+
+// Entry point of the conversion worker started by conversionPool.ts. Handles one task per message
+// and transfers result buffers back instead of copying them. Type-only imports from the pool keep
+// its main-thread code out of the worker bundle.
+
+// Progress is posted in steps of at least this size, so the queue is not flooded with updates
+const PROGRESS_STEP = 0.02;
+
+interface TaskOutput {
+  result: ConversionResults[ConversionTask['kind']];
+  transfer: Transferable[];
+}
+
+const post = (reply: ConversionReply, transfer: Transferable[] = []) => {
+  self.postMessage(reply, { transfer });
+};
+
+const runTask = (task: ConversionTask, onProgress: (fraction: number) => void): TaskOutput => {
+  switch (task.kind) {
+    case 'encode': {
+      const bytes = encodeAudio(task.audio, task.encoding, onProgress);
+      // The input goes back too, since long calls are split into segments after encoding
+      return { result: { bytes, audio: task.audio }, transfer: [bytes, task.audio.samples.buffer as ArrayBuffer] };
+    }
+    case 'preprocess': {
+      const result = preprocessAudio(task.audio, task.options, onProgress);
+      return { result, transfer: [result.audio.samples.buffer as ArrayBuffer] };
+    }
+    case 'mixdown': {
+      // Measured before mixing, which puts the two sides together
+      const channels = task.measureChannels ? measureChannelActivity(task.audio.channels, task.audio.sampleRate) : null;
+      const audio = mixToMono(task.audio, onProgress);
+      const transfer = [audio.samples.buffer as ArrayBuffer];
+      if (channels) transfer.push(channels.agent.buffer as ArrayBuffer, channels.customer.buffer as ArrayBuffer);
+      return { result: { audio, channels }, transfer };
+    }
+    case 'base64':
+      return { result: bytesToBase64(new Uint8Array(task.bytes), onProgress), transfer: [] };
+  }
+};
+
+self.onmessage = (e: MessageEvent<ConversionRequest>) => {
+  const { id, task } = e.data;
+  let reported = 0;
+  const onProgress = (fraction: number) => {
+    if (fraction - reported < PROGRESS_STEP) return;
+    reported = fraction;
+    post({ id, type: 'progress', fraction });
+  };
+  try {
+    const { result, transfer } = runTask(task, onProgress);
+    post({ id, type: 'done', result }, transfer);
+  } catch (error: any) {
+    console.error('Conversion task failed', error);
+    post({ id, type: 'failed', message: error?.message || 'Audio conversion failed.' });
+  }
+};
@@ -0,0 +1,72 @@
+// Persists user-defined definitions (templates, scorecards) in localStorage. Built-ins are always
+// listed first and cannot be changed.
+
+export interface Definition {
+  id: string;
+  builtIn?: boolean;
+}
+
+export interface DefinitionStore<T extends Definition> {
+  getSnapshot(): T[];
+  subscribe(listener: () => void): () => void;
+  get(id: string): T | undefined;
+  save(definition: T): void;
+  delete(id: string): void;
+}
+
+export const createDefinitionStore = <T extends Definition>(
+  storageKey: string,
+  builtIns: T[],
+  storage?: Storage
+): DefinitionStore<T> => {
+  const load = (): T[] => {
+    try {
+      const stored = JSON.parse(storage?.getItem(storageKey) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+      console.warn(`Ignoring unreadable saved data in ${storageKey}`, e);
+      return [];
+    }
+  };
+
+  let custom = load();
+  let snapshot = [...builtIns, ...custom];
+  const listeners = new Set<() => void>();
+
+  const commit = (next: T[]) => {
+    custom = next;
+    snapshot = [...builtIns, ...custom];
+    try {
+      storage?.setItem(storageKey, JSON.stringify(custom));
+    } catch (e) {
+      console.error(`Failed to save ${storageKey}`, e);
+    }
+    listeners.forEach(l => l());
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    get: (id) => snapshot.find(d => d.id === id),
+
+    save(definition) {
+      if (builtIns.some(d => d.id === definition.id)) {
+        throw new Error('Built-in definitions cannot be changed.');
+      }
+      const saved: T = { ...definition, builtIn: undefined };
+      const exists = custom.some(d => d.id === definition.id);
+      commit(exists ? custom.map(d => (d.id === definition.id ? saved : d)) : [...custom, saved]);
+    },
+
+    delete(id) {
+      commit(custom.filter(d => d.id !== id));
+    },
+  };
+};
+
+export const browserStorage = typeof localStorage !== 'undefined' ? localStorage : undefined;
@@ -0,0 +1,306 @@
+import { CallRecord, CustomFieldValue, Utterance } from "../types";
+import { formatDueDate } from "./actionItems";
+import { formatSentimentScore } from "./analytics";
+import { withoutOriginals } from "./redaction";
+import { formatScore } from "./scorecards";
+import { overallSentimentScore } from "./sentimentTimeline";
+import { formatTopicLabel, TOPIC_KIND_LABELS } from "./topics";
+import { formatTimestamp } from "./transcript";
+
+// Turns call records into downloadable reports: Markdown, JSON and a printable HTML page for one
+// call, and CSV for the whole library.
+
+// --- Shared ---
+
+// "Positive" or, when the utterances are scored, "Positive (+0.42)"
+const describeSentiment = (call: CallRecord): string => {
+  const analysis = call.analysis!;
+  const score = analysis.utterances ? overallSentimentScore(analysis.utterances) : null;
+  return score === null ? analysis.sentiment : `${analysis.sentiment} (${formatSentimentScore(score)})`;
+};
+
+// Exports always carry the redacted version, never originals kept for privileged reviewers
+const exportable = (call: CallRecord): CallRecord =>
+  call.analysis ? { ...call, analysis: withoutOriginals(call.analysis) } : call;
+
+// "Quarterly Review.mp3" -> "Quarterly Review"; characters file systems reject are replaced
+export const exportFileName = (call: CallRecord, extension: string): string => {
+  const base = call.fileName.replace(/\.[^./\\]+$/, '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'call';
+  return `${base}.${extension}`;
+};
+
+const speakerName = (call: CallRecord, u: Utterance) => call.speakerNames?.[u.speaker] || u.speaker;
+
+const formatFieldValue = (value: CustomFieldValue | undefined): string => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return 'Not mentioned';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const customFieldRows = (call: CallRecord): { label: string; value: string }[] => {
+  const values = call.analysis?.customFields;
+  if (!values) return [];
+  const fields = call.template?.fields?.length
+    ? call.template.fields
+    : Object.keys(values).map(key => ({ key, label: key }));
+  return fields.map(f => ({ label: f.label, value: formatFieldValue(values[f.key]) }));
+};
+
+const actionItemMeta = (owner?: string, dueDate?: string): string =>
+  [owner, dueDate && `due ${formatDueDate(dueDate)}`].filter(Boolean).join(', ');
+
+// Utterances when available, otherwise the plain transcript split into lines
+const transcriptLines = (call: CallRecord): { time?: string; speaker?: string; text: string }[] => {
+  const analysis = call.analysis;
+  if (!analysis) return [];
+  if (analysis.utterances?.length) {
+    return analysis.utterances.map(u => ({ time: formatTimestamp(u.start), speaker: speakerName(call, u), text: u.text }));
+  }
+  return analysis.transcript.split('\n').filter(line => line.trim()).map(text => ({ text }));
+};
+
+// --- Markdown ---
+
+export const callToMarkdown = (record: CallRecord): string => {
+  const call = exportable(record);
+  const analysis = call.analysis;
+  const lines: string[] = [`# ${call.fileName}`, ''];
+  lines.push(`- **Date:** ${new Date(call.timestamp).toLocaleString()}`);
+  if (call.duration) lines.push(`- **Duration:** ${call.duration}`);
+  if (analysis) lines.push(`- **Sentiment:** ${describeSentiment(call)}`);
+  if (call.analyzedWith) lines.push(`- **Analyzed with:** ${call.analyzedWith.name}`);
+  if (call.template) lines.push(`- **Template:** ${call.template.name}`);
+  lines.push('');
+
+  if (!analysis) {
+    lines.push(call.error ? `Analysis failed: ${call.error}` : 'This call has not been analyzed.');
+    return lines.join('\n');
+  }
+
+  lines.push('## Summary', '', analysis.summary, '');
+
+  const fields = customFieldRows(call);
+  if (fields.length > 0) {
+    lines.push(`## ${call.template?.name || 'Custom Fields'}`, '');
+    fields.forEach(f => lines.push(`- **${f.label}:** ${f.value}`));
+    lines.push('');
+  }
+
+  if (analysis.scorecard) {
+    const { scorecard } = analysis;
+    lines.push(`## ${scorecard.name}`, '', `Overall score: **${scorecard.overall ?? 'N/A'}**`, '');
+    lines.push('| Criterion | Score | Justification |', '| --- | --- | --- |');
+    scorecard.criteria.forEach(c => {
+      const score = scorecard.scores.find(s => s.criterionId === c.id);
+      const justification = (score?.justification || '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+      lines.push(`| ${c.name} | ${formatScore(c, score?.score ?? null)} | ${justification} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Key Insights', '');
+  if (analysis.keyInsights.length > 0) analysis.keyInsights.forEach(i => lines.push(`- ${i}`));
+  else lines.push('_No specific insights detected._');
+  lines.push('');
+
+  if (analysis.topics && analysis.topics.length > 0) {
+    lines.push('## Topics', '');
+    analysis.topics.forEach(t => lines.push(`- ${formatTopicLabel(t.label)} (${TOPIC_KIND_LABELS[t.kind]})`));
+    lines.push('');
+  }
+
+  lines.push('## Action Items', '');
+  if (analysis.actionItems.length > 0) {
+    analysis.actionItems.forEach(item => {
+      const meta = actionItemMeta(item.owner, item.dueDate);
+      lines.push(`- [${item.status === 'done' ? 'x' : ' '}] ${item.text}${meta ? ` _(${meta})_` : ''}`);
+    });
+  } else {
+    lines.push('_No specific action items detected._');
+  }
+  lines.push('');
+
+  lines.push('## Transcript', '');
+  transcriptLines(call).forEach(line => {
+    lines.push(line.speaker ? `**[${line.time}] ${line.speaker}:** ${line.text}  ` : `${line.text}  `);
+  });
+
+  return lines.join('\n');
+};
+
+// --- JSON ---
+
+export const callToJSON = (call: CallRecord): string => JSON.stringify(exportable(call), null, 2);
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  'Date',
+  'File Name',
+  'Status',
+  'Sentiment',
+  'Action Items',
+  'Open Action Items',
+  'Done Action Items',
+  'Key Insights',
+  'QA Score',
+  'Template',
+  'Analyzed With',
+  'Summary',
+  'Error',
+];
+
+// Quotes fields containing separators, quotes or line breaks (RFC 4180)
+const csvCell = (value: string | number | undefined | null): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const libraryToCSV = (calls: CallRecord[]): string => {
+  const rows = calls.map(exportable).map(call => {
+    const items = call.analysis?.actionItems || [];
+    const done = items.filter(i => i.status === 'done').length;
+    return [
+      new Date(call.timestamp).toISOString(),
+      call.fileName,
+      call.status,
+      call.analysis?.sentiment,
+      call.analysis ? items.length : undefined,
+      call.analysis ? items.length - done : undefined,
+      call.analysis ? done : undefined,
+      call.analysis?.keyInsights.length,
+      call.analysis?.scorecard?.overall,
+      call.template?.name,
+      call.analyzedWith?.name,
+      call.analysis?.summary,
+      call.error,
+    ].map(csvCell).join(',');
+  });
+  // CRLF line endings and a byte order mark so spreadsheet apps detect UTF-8
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// --- Printable Report ---
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.5; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 4px; word-break: break-all; }
+  h2 { font-size: 15px; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; break-after: avoid; }
+  .meta { color: #64748b; font-size: 12px; margin-bottom: 16px; }
+  .meta span { margin-right: 16px; }
+  .summary { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  ul { padding-left: 20px; margin: 0; }
+  li { margin-bottom: 4px; }
+  .done { text-decoration: line-through; color: #94a3b8; }
+  .muted { color: #64748b; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { color: #64748b; font-weight: 600; font-size: 11px; text-transform: uppercase; }
+  .turn { margin-bottom: 6px; break-inside: avoid; }
+  .time { color: #94a3b8; font-family: ui-monospace, monospace; font-size: 11px; margin-right: 6px; }
+  .speaker { font-weight: 600; margin-right: 4px; }
+  footer { margin-top: 32px; color: #94a3b8; font-size: 11px; }
+  @page { margin: 16mm; }
+`;
+
+export const callToPrintHtml = (record: CallRecord): string => {
+  const call = exportable(record);
+  const analysis = call.analysis;
+  const parts: string[] = [];
+  const meta = [
+    new Date(call.timestamp).toLocaleString(),
+    call.duration,
+    analysis && `${describeSentiment(call)} sentiment`,
+    call.analyzedWith && `Analyzed with ${call.analyzedWith.name}`,
+    call.template && `Template: ${call.template.name}`,
+  ].filter((m): m is string => !!m);
+
+  parts.push(`<h1>${escapeHtml(call.fileName)}</h1>`);
+  parts.push(`<div class="meta">${meta.map(m => `<span>${escapeHtml(m)}</span>`).join('')}</div>`);
+
+  if (analysis) {
+    parts.push('<h2>Executive Summary</h2>', `<div class="summary">${escapeHtml(analysis.summary)}</div>`);
+
+    const fields = customFieldRows(call);
+    if (fields.length > 0) {
+      parts.push(`<h2>${escapeHtml(call.template?.name || 'Custom Fields')}</h2><table>`);
+      fields.forEach(f => parts.push(`<tr><th>${escapeHtml(f.label)}</th><td>${escapeHtml(f.value)}</td></tr>`));
+      parts.push('</table>');
+    }
+
+    if (analysis.scorecard) {
+      const { scorecard } = analysis;
+      parts.push(`<h2>${escapeHtml(scorecard.name)} &middot; ${scorecard.overall ?? 'N/A'} overall</h2>`);
+      parts.push('<table><tr><th>Criterion</th><th>Score</th><th>Justification</th></tr>');
+      scorecard.criteria.forEach(c => {
+        const score = scorecard.scores.find(s => s.criterionId === c.id);
+        parts.push(`<tr><td>${escapeHtml(c.name)}</td><td>${formatScore(c, score?.score ?? null)}</td><td>${escapeHtml(score?.justification || '')}</td></tr>`);
+      });
+      parts.push('</table>');
+    }
+
+    parts.push('<h2>Key Insights</h2>');
+    parts.push(analysis.keyInsights.length > 0
+      ? `<ul>${analysis.keyInsights.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`
+      : '<p class="muted">No specific insights detected.</p>');
+
+    if (analysis.topics && analysis.topics.length > 0) {
+      parts.push('<h2>Topics</h2>');
+      parts.push(`<ul>${analysis.topics.map(t => `<li>${escapeHtml(formatTopicLabel(t.label))} <span class="muted">(${TOPIC_KIND_LABELS[t.kind]})</span></li>`).join('')}</ul>`);
+    }
+
+    parts.push('<h2>Action Items</h2>');
+    parts.push(analysis.actionItems.length > 0
+      ? `<ul>${analysis.actionItems.map(item => {
+          const itemMeta = actionItemMeta(item.owner, item.dueDate);
+          return `<li><span class="${item.status === 'done' ? 'done' : ''}">${escapeHtml(item.text)}</span>${itemMeta ? ` <span class="muted">(${escapeHtml(itemMeta)})</span>` : ''}</li>`;
+        }).join('')}</ul>`
+      : '<p class="muted">No specific action items detected.</p>');
+
+    parts.push('<h2>Transcript</h2>');
+    transcriptLines(call).forEach(line => {
+      parts.push(`<div class="turn">${line.time ? `<span class="time">${line.time}</span>` : ''}${line.speaker ? `<span class="speaker">${escapeHtml(line.speaker)}:</span>` : ''}${escapeHtml(line.text)}</div>`);
+    });
+  } else {
+    parts.push(`<p class="muted">${escapeHtml(call.error ? `Analysis failed: ${call.error}` : 'This call has not been analyzed.')}</p>`);
+  }
+
+  parts.push(`<footer>Generated by CallBrain on ${escapeHtml(new Date().toLocaleString())}. AI-generated analysis; verify critical details against the recording.</footer>`);
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(call.fileName)}</title><style>${PRINT_STYLES}</style></head><body>${parts.join('\n')}</body></html>`;
+};
+
+// --- Browser Helpers ---
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking immediately can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints the report from a hidden frame, so the browser's "Save as PDF" produces a clean document
+// without the app around it
+export const printCallReport = (call: CallRecord) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = callToPrintHtml(call);
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // print() blocks until the dialog closes in most browsers; the delay covers those where it does not
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,31 @@
+// Spoken and output languages. Languages are stored as ISO 639-1 codes ("es", "hi") and shown by name.
+
+// Summary, action items and insights follow the call's main language
+export const AUTO_LANGUAGE = 'auto';
+
+export const OUTPUT_LANGUAGES: string[] = ['en', 'es', 'hi', 'fr', 'de', 'pt', 'it', 'nl', 'ja', 'zh', 'ar'];
+
+const ENGLISH_NAMES = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en'], { type: 'language' })
+  : null;
+
+// "es" -> "Spanish"; unknown codes are returned unchanged
+export const languageName = (code: string): string => {
+  if (code === AUTO_LANGUAGE) return 'Same as the call';
+  try {
+    return ENGLISH_NAMES?.of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+// The model usually answers with codes but sometimes with names ("Spanish") or locales ("es-MX")
+export const normalizeLanguage = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  const code = text.match(/^([a-z]{2,3})(?:[-_][a-z0-9]+)*$/);
+  if (code) return code[1];
+  const byName = OUTPUT_LANGUAGES.find(c => languageName(c).toLowerCase() === text);
+  return byName || null;
+};
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { isAbortError } from "./abort";
+import { addDays } from "./actionItems";
+import { createMockProvider, MOCK_ANALYSES } from "./mockProvider";
+import { DEFAULT_SETTINGS, settingsStore } from "./settings";
+
+const RECORDED = new Date(2026, 2, 10, 12).getTime();
+
+const recording = (name: string, bytes = 1024, lastModified = RECORDED) =>
+  new File([new Uint8Array(bytes)], name, { type: 'audio/wav', lastModified });
+
+describe('createMockProvider', () => {
+  afterEach(() => settingsStore.reset());
+
+  it('reports the same stages as a real provider', async () => {
+    const stages: string[] = [];
+    await createMockProvider(0).analyze(recording('call.wav'), { onProgress: (p) => stages.push(p.stage) });
+    expect(stages).toEqual(['uploading', 'waiting', 'parsing']);
+  });
+
+  it('reports segments and merging for recordings above the inline limit', async () => {
+    settingsStore.save({ ...DEFAULT_SETTINGS, maxInlineMB: 1 });
+    const progress: { stage: string; total?: number }[] = [];
+    await createMockProvider(0).analyze(recording('long.wav', 2.5 * 1024 * 1024), {
+      onProgress: (p) => progress.push({ stage: p.stage, total: p.segment?.total }),
+    });
+    expect(progress.filter(p => p.stage === 'uploading')).toHaveLength(3);
+    expect(progress.every(p => p.total === 3)).toBe(true);
+    expect(progress[progress.length - 1].stage).toBe('merging');
+  });
+
+  it('returns the same analysis for the same file', async () => {
+    const provider = createMockProvider(0);
+    const first = await provider.analyze(recording('same.wav'));
+    const second = await provider.analyze(recording('same.wav'));
+    expect(second).toEqual(first);
+  });
+
+  it('resolves due dates against the recording date', async () => {
+    const analysis = await createMockProvider(0).analyze(recording('due.wav'));
+    const fixture = MOCK_ANALYSES.find(f => f.summary === analysis.summary)!;
+    expect(analysis.actionItems.map(i => i.dueDate)).toEqual(
+      fixture.actionItems.map(i => (i.dueInDays === undefined ? undefined : addDays('2026-03-10', i.dueInDays)))
+    );
+    expect(analysis.actionItems.map(i => i.id)).toEqual(fixture.actionItems.map((_, idx) => `item-${idx + 1}`));
+  });
+
+  it('moves due dates with the recording date', async () => {
+    const provider = createMockProvider(0);
+    const earlier = await provider.analyze(recording('moved.wav'));
+    const later = await provider.analyze(recording('moved.wav', 1024, RECORDED + 10 * 86_400_000));
+    later.actionItems.forEach((item, idx) => {
+      const before = earlier.actionItems[idx].dueDate;
+      expect(item.dueDate).toBe(before && addDays(before, 10));
+    });
+  });
+
+  it('rejects with an AbortError when cancelled', async () => {
+    const controller = new AbortController();
+    const result = createMockProvider(50).analyze(recording('cancel.wav'), {
+      signal: controller.signal,
+      onProgress: (p) => { if (p.stage === 'waiting') controller.abort(); },
+    });
+    await expect(result).rejects.toSatisfy(isAbortError);
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  ActionItem,
+  AnswerCitation,
+  CallAnalysis,
+  CallSentiment,
+  CallTopic,
+  CriterionScore,
+  CustomFieldDefinition,
+  CustomFieldValue,
+  Scorecard,
+  ScorecardResult,
+  Utterance,
+} from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { abortableDelay } from "./abort";
+import { addDays, numberActionItems, toDateString } from "./actionItems";
+import { collectAnalysisText, PiiCandidate, redactAnalysis } from "./redaction";
+import { questionTerms } from "./callQA";
+import { tokenize } from "./callSearch";
+import { computeOverallScore } from "./scorecards";
+import { settingsStore } from "./settings";
+import { utterancesToText } from "./transcript";
+
+// Offline provider returning canned analyses. The same file always produces the same result, so it
+// suits UI development without an API key and automated tests.
+
+const utterance = (
+  speaker: string,
+  role: Utterance['role'],
+  start: number,
+  end: number,
+  text: string,
+  sentiment: number,
+  translation?: string
+): Utterance => ({ speaker, role, start, end, text, sentiment, ...(translation && { translation }) });
+
+const topic = (label: string, kind: CallTopic['kind'], quote: string, start: number): CallTopic =>
+  ({ label, kind, evidence: [{ quote, start }] });
+
+// Due dates are given in days after the call and resolved against the recording's date, so the same
+// file always gets the same dates while fresh recordings still fill the task board with upcoming items
+type MockActionItem = Omit<ActionItem, 'id' | 'dueDate'> & { dueInDays?: number };
+
+const todo = (text: string, owner?: string, dueInDays?: number): MockActionItem => ({
+  text,
+  status: 'open',
+  ...(owner ? { owner } : {}),
+  ...(dueInDays !== undefined ? { dueInDays } : {}),
+});
+
+type MockAnalysis = Omit<CallAnalysis, 'actionItems'> & { actionItems: MockActionItem[] };
+
+// The canned summaries and insights are always written in English
+const withTranscript = (analysis: Omit<MockAnalysis, 'transcript'>): MockAnalysis => ({
+  ...analysis,
+  outputLanguage: 'en',
+  transcript: utterancesToText(analysis.utterances || []),
+});
+
+const resolveActionItems = (items: MockActionItem[], recordedOn: string): ActionItem[] =>
+  numberActionItems(items.map(({ dueInDays, ...item }) =>
+    dueInDays === undefined ? item : { ...item, dueDate: addDays(recordedOn, dueInDays) }));
+
+export const MOCK_ANALYSES: MockAnalysis[] = [
+  withTranscript({
+    utterances: [
+      utterance('Agent', 'agent', 0, 5.2, 'Thanks for calling Acme support, this is Dana. How can I help?', 0.3),
+      utterance('Customer', 'customer', 5.2, 13.8, 'Hi, I was charged twice for my subscription this month and I need one of them refunded.', -0.7),
+      utterance('Agent', 'agent', 13.8, 21.5, 'I am sorry about that. Can you confirm the email address on the account?', 0.0),
+      utterance('Customer', 'customer', 21.5, 25.0, 'Sure, it is jordan.lee@example.com.', 0.1),
+      utterance('Agent', 'agent', 25.0, 36.4, 'Thank you. I can see the duplicate charge. I have submitted a refund, it should appear within five business days.', 0.5),
+      utterance('Customer', 'customer', 36.4, 41.0, 'Great, thanks for sorting that out so quickly.', 0.9),
+    ],
+    summary: 'The customer reported a duplicate subscription charge. The agent verified the account, confirmed the duplicate and issued a refund expected within five business days.',
+    languages: ['en'],
+    sentiment: CallSentiment.POSITIVE,
+    actionItems: [
+      todo('Confirm the duplicate-charge refund posts within five business days', 'Dana', 7),
+      todo('Check billing logs for other duplicate charges this cycle', 'Billing team'),
+    ],
+    keyInsights: ['Duplicate billing charge on a monthly subscription', 'Issue resolved on first contact'],
+    topics: [
+      topic('duplicate billing charge', 'issue', 'I was charged twice for my subscription this month', 5.2),
+      topic('refund request', 'request', 'I need one of them refunded', 5.2),
+    ],
+  }),
+  withTranscript({
+    utterances: [
+      utterance('Agent', 'agent', 0, 6.0, 'Good morning, this is Sam from Northwind. Do you have a few minutes to talk about your renewal?', 0.3),
+      utterance('Customer', 'customer', 6.0, 15.5, 'I do, but honestly we are evaluating other vendors. The price increase was not what we expected.', -0.6),
+      utterance('Agent', 'agent', 15.5, 24.0, 'Understood. Which parts of the platform does your team rely on most?', 0.1),
+      utterance('Customer', 'customer', 24.0, 33.2, 'Mainly reporting. The integrations we barely use. If we could drop those, maybe it works.', -0.1),
+      utterance('Agent', 'agent', 33.2, 42.0, 'Let me put together a reporting-only quote and send it over by Friday.', 0.4),
+    ],
+    summary: 'A renewal call where the customer pushed back on a price increase and mentioned evaluating competitors. The agent offered a reduced reporting-only package and committed to sending a quote by Friday.',
+    languages: ['en'],
+    sentiment: CallSentiment.NEUTRAL,
+    actionItems: [
+      todo('Send a reporting-only renewal quote by Friday', 'Sam', 3),
+      todo('Flag the account as a churn risk', 'Sam'),
+    ],
+    keyInsights: ['Customer is evaluating competing vendors', 'Price increase is the main objection', 'Integrations are underused'],
+    topics: [
+      topic('price increase', 'issue', 'The price increase was not what we expected.', 6.0),
+      topic('competitor evaluation', 'other', 'we are evaluating other vendors', 6.0),
+      topic('reporting-only plan', 'request', 'If we could drop those, maybe it works.', 24.0),
+    ],
+  }),
+  withTranscript({
+    utterances: [
+      utterance('Customer', 'customer', 0, 9.0, 'This is the third time I am calling about the same outage. Nobody has called me back.', -0.9),
+      utterance('Agent', 'agent', 9.0, 15.4, 'I apologize. Let me look up the ticket history for your site.', -0.1),
+      utterance('Customer', 'customer', 15.4, 22.0, 'We have been down since Monday and it is costing us sales.', -0.8),
+      utterance('Agent', 'agent', 22.0, 33.0, 'I am escalating this to the network team as urgent and I will personally call you with an update by 4 PM.', 0.2),
+    ],
+    summary: 'A frustrated customer called for the third time about an unresolved multi-day outage. The agent apologized, escalated the ticket as urgent and promised a personal follow-up by 4 PM.',
+    languages: ['en'],
+    sentiment: CallSentiment.NEGATIVE,
+    actionItems: [
+      todo('Escalate the outage ticket to the network team as urgent', 'Agent'),
+      todo('Call the customer back with an update by 4 PM', 'Agent', 0),
+    ],
+    keyInsights: ['Repeat contact about the same outage', 'Missed callbacks are driving frustration', 'Outage is causing lost revenue'],
+    topics: [
+      topic('service outage', 'issue', 'We have been down since Monday and it is costing us sales.', 15.4),
+      topic('missed callback', 'issue', 'Nobody has called me back.', 0),
+    ],
+  }),
+  withTranscript({
+    utterances: [
+      utterance('Agent', 'agent', 0, 5.5, 'Thanks for calling Acme support, this is Sam. How can I help?', 0.3),
+      utterance('Customer', 'customer', 5.5, 12.0, 'Hola, ¿hablan español? Mi inglés no es muy bueno.', -0.2, 'Hello, do you speak Spanish? My English is not very good.'),
+      utterance('Agent', 'agent', 12.0, 18.4, 'Sí, claro. ¿En qué le puedo ayudar?', 0.4, 'Yes, of course. How can I help you?'),
+      utterance('Customer', 'customer', 18.4, 29.0, 'No puedo entrar a mi cuenta desde ayer. Dice que la contraseña es incorrecta.', -0.5, 'I have not been able to log in to my account since yesterday. It says the password is wrong.'),
+      utterance('Agent', 'agent', 29.0, 40.2, 'Le acabo de enviar un enlace para restablecer la contraseña a su correo.', 0.3, 'I have just sent a password reset link to your email.'),
+      utterance('Customer', 'customer', 40.2, 45.0, 'Ya funciona, muchas gracias.', 0.8, 'It works now, thank you very much.'),
+    ],
+    languages: ['es', 'en'],
+    summary: 'A Spanish-speaking customer could not log in because their password was rejected. The agent switched to Spanish, sent a password reset link and the customer confirmed they could log in again.',
+    sentiment: CallSentiment.POSITIVE,
+    actionItems: [
+      todo('Confirm the customer can still log in after the password reset', 'Agent', 2),
+    ],
+    keyInsights: ['Customer preferred to be served in Spanish', 'Password reset resolved the login issue on the call'],
+    topics: [
+      topic('password reset', 'issue', 'No puedo entrar a mi cuenta desde ayer.', 18.4),
+      topic('spanish language support', 'request', 'Hola, ¿hablan español?', 5.5),
+    ],
+  }),
+];
+
+// Stable string hash (FNV-1a) so fixture choice does not depend on upload order
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Placeholder answers so templates with custom fields can be previewed offline
+const mockCustomFields = (fields: CustomFieldDefinition[], seed: number): Record<string, CustomFieldValue> =>
+  Object.fromEntries(fields.map((field): [string, CustomFieldValue] => {
+    switch (field.type) {
+      case 'text': return [field.key, `Example ${field.label.toLowerCase()}`];
+      case 'list': return [field.key, [`First ${field.label.toLowerCase()} example`, `Second ${field.label.toLowerCase()} example`]];
+      case 'number': return [field.key, (seed % 5) + 1];
+      case 'enum': return [field.key, field.options?.length ? field.options[seed % field.options.length] : null];
+      case 'boolean': return [field.key, seed % 2 === 0];
+    }
+  }));
+
+// Varied but repeatable grades, citing the fixture's agent lines as evidence
+const mockScorecard = (analysis: CallAnalysis, scorecard: Scorecard, seed: number): ScorecardResult => {
+  const agentLines = (analysis.utterances || []).filter(u => u.role === 'agent');
+  const scores = scorecard.criteria.map((criterion, idx): CriterionScore => {
+    const bits = seed >>> (idx * 3);
+    const line = agentLines.length > 0 ? agentLines[idx % agentLines.length] : undefined;
+    return {
+      criterionId: criterion.id,
+      score: criterion.scale === 'pass_fail' ? (bits % 4 === 0 ? 0 : 1) : (bits % 3) + 3,
+      justification: `Mock assessment of ${criterion.name.toLowerCase()} for development.`,
+      evidence: line ? [{ quote: line.text, start: line.start }] : [],
+    };
+  });
+  return {
+    scorecardId: scorecard.id,
+    name: scorecard.name,
+    criteria: scorecard.criteria,
+    scores,
+    overall: computeOverallScore(scorecard.criteria, scores),
+  };
+};
+
+const MOCK_PERSON_NAMES = ['Dana', 'Sam'];
+
+// Offline answers quote the lines sharing the most words with the question
+const MOCK_CITATIONS = 2;
+
+export const createMockProvider = (delayMs = 1200): AnalysisProvider => ({
+  id: 'mock',
+  name: 'Offline fixtures',
+  model: 'mock',
+  description: 'Canned results for development; no audio is analyzed',
+
+  // Nothing is uploaded, so only formats that always need decoding count as converted
+  acceptsAudioType: () => true,
+
+  analyze: async (input, options = {}) => {
+    const { onProgress, signal, template, scorecard, redaction } = options;
+    // Same size threshold as real providers, so long-call progress can be exercised offline
+    const totalChunks = Math.ceil(input.size / (settingsStore.getSnapshot().maxInlineMB * 1024 * 1024));
+
+    // Walk through the same stages a real provider reports so the progress UI can be exercised offline
+    const simulateRequest = async (segment?: { index: number; total: number }) => {
+      const stepMs = delayMs / (3 * Math.max(1, totalChunks));
+      onProgress?.({ stage: 'uploading', message: 'Uploading...', segment });
+      await abortableDelay(stepMs, signal);
+      onProgress?.({ stage: 'waiting', message: 'Waiting for mock...', segment });
+      await abortableDelay(stepMs, signal);
+      onProgress?.({ stage: 'parsing', message: 'Parsing response...', segment });
+      await abortableDelay(stepMs, signal);
+    };
+
+    if (totalChunks > 1) {
+      for (let index = 0; index < totalChunks; index++) {
+        await simulateRequest({ index, total: totalChunks });
+      }
+      onProgress?.({ stage: 'merging', message: 'Merging segment results...', segment: { index: totalChunks, total: totalChunks } });
+    } else {
+      await simulateRequest();
+    }
+
+    const seed = hash(`${input.name}:${input.size}`);
+    const fixture = MOCK_ANALYSES[seed % MOCK_ANALYSES.length];
+    // Same call date the real pipeline uses
+    const recordedOn = toDateString(new Date(input.lastModified || Date.now()));
+    // Copy so callers can never mutate the shared fixtures
+    const analysis = JSON.parse(JSON.stringify({
+      ...fixture,
+      actionItems: resolveActionItems(fixture.actionItems, recordedOn),
+    })) as CallAnalysis;
+    if (template && template.fields.length > 0) {
+      analysis.customFields = mockCustomFields(template.fields, seed);
+    }
+    if (scorecard) {
+      onProgress?.({ stage: 'scoring', message: `Scoring against ${scorecard.name}...` });
+      await abortableDelay(delayMs / 3, signal);
+      analysis.scorecard = mockScorecard(analysis, scorecard, seed);
+    }
+    if (redaction) {
+      onProgress?.({ stage: 'redacting', message: 'Detecting personal information...' });
+      await abortableDelay(delayMs / 3, signal);
+      const texts = collectAnalysisText(analysis);
+      // Stands in for model-assisted detection: the fixtures' agents introduce themselves by first name
+      const found: PiiCandidate[] = redaction.modelAssisted
+        ? MOCK_PERSON_NAMES.filter(name => texts.some(t => t.includes(name))).map(text => ({ type: 'person', text, source: 'model' }))
+        : [];
+      return redactAnalysis(analysis, found, redaction);
+    }
+    return analysis;
+  },
+
+  checkConnection: (signal) => abortableDelay(delayMs / 4, signal),
+
+  ask: async (question, sources, options = {}) => {
+    await abortableDelay(delayMs / 2, options.signal);
+    const terms = questionTerms(question);
+    const matches = sources
+      .flatMap(source => source.lines.map(line => {
+        const tokens = tokenize(`${line.text} ${line.translation || ''}`);
+        return { source, line, score: terms.filter(term => tokens.some(t => t.startsWith(term))).length };
+      }))
+      .filter(m => m.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MOCK_CITATIONS);
+
+    if (matches.length === 0) {
+      return { answer: 'The offline fixtures only match keywords, and none of the calls shown use the words in your question.', citations: [] };
+    }
+    const citations = matches.map((m): AnswerCitation => ({
+      callId: m.source.call.id,
+      quote: m.line.text,
+      ...(m.line.start !== undefined && { start: m.line.start }),
+    }));
+    const files = [...new Set(matches.map(m => `"${m.source.call.fileName}"`))];
+    return { answer: `The closest keyword matches are in ${files.join(' and ')}; see the quoted lines.`, citations };
+  },
+});
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,124 @@
+import { Schema } from "@google/genai";
+import { AnalysisProvider, ContentPart, ModelClient, ProviderRequestError, Turn } from "./analysisProvider";
+import { analyzeWithClient, askWithClient } from "./analysisPipeline";
+
+// Talks to any server implementing the OpenAI Chat Completions API with audio input
+// (e.g. a self-hosted vLLM or llama.cpp server running an audio-capable model).
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  model: string;
+  apiKey?: string;
+}
+
+// input_audio only accepts these two encodings
+const AUDIO_FORMATS: Record<string, 'wav' | 'mp3'> = {
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+};
+
+const acceptsAudioType = (mimeType: string): boolean => mimeType in AUDIO_FORMATS;
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema wants lower case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.nullable ? [schema.type.toLowerCase(), 'null'] : schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) json.required = schema.required;
+  return json;
+};
+
+const toMessageContent = (part: ContentPart) => {
+  if ('text' in part) return { type: 'text', text: part.text };
+  return {
+    type: 'input_audio',
+    input_audio: { data: part.inlineData.data, format: AUDIO_FORMATS[part.inlineData.mimeType] },
+  };
+};
+
+const toMessages = (contents: Turn[]) => contents.map(turn => (
+  turn.role === 'model'
+    // Assistant turns are text-only
+    ? { role: 'assistant', content: turn.parts.map(p => ('text' in p ? p.text : '')).join('') }
+    : { role: 'user', content: turn.parts.map(toMessageContent) }
+));
+
+const authHeaders = (config: OpenAICompatibleConfig): Record<string, string> =>
+  (config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {});
+
+const endpoint = (config: OpenAICompatibleConfig, path: string): string => `${config.baseUrl.replace(/\/+$/, '')}/${path}`;
+
+const throwIfFailed = async (response: Response) => {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ProviderRequestError(`Request failed with status ${response.status}: ${detail.slice(0, 200)}`, response.status);
+  }
+};
+
+const createOpenAICompatibleClient = (config: OpenAICompatibleConfig): ModelClient => ({
+  model: config.model,
+
+  acceptsAudioType,
+
+  async generate(contents, responseSchema, signal) {
+    const response = await fetch(endpoint(config, 'chat/completions'), {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(config),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toMessages(contents),
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'call_analysis', schema: toJsonSchema(responseSchema) },
+        },
+      }),
+    });
+
+    await throwIfFailed(response);
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content : '';
+  },
+
+  async checkConnection(signal) {
+    // Listing models needs the same base URL and key as a completion but costs nothing
+    await throwIfFailed(await fetch(endpoint(config, 'models'), { signal, headers: authHeaders(config) }));
+  },
+});
+
+export const getOpenAICompatibleConfig = (): OpenAICompatibleConfig | null => {
+  if (!process.env.OPENAI_BASE_URL) return null;
+  return {
+    baseUrl: process.env.OPENAI_BASE_URL,
+    model: process.env.OPENAI_MODEL || 'gpt-4o-audio-preview',
+    apiKey: process.env.OPENAI_API_KEY || undefined,
+  };
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AnalysisProvider => ({
+  id: 'openai-compatible',
+  name: config.model,
+  model: config.model,
+  description: `OpenAI-compatible endpoint at ${config.baseUrl}`,
+
+  acceptsAudioType,
+
+  analyze: (input, options) => analyzeWithClient(createOpenAICompatibleClient(config), input, options),
+
+  checkConnection: (signal) => createOpenAICompatibleClient(config).checkConnection(signal),
+
+  ask: (question, sources, options) => askWithClient(createOpenAICompatibleClient(config), question, sources, options),
+});
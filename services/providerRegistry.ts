@@ -0,0 +1,28 @@
+import { CallRecord } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { createGeminiProvider, isGeminiConfigured } from "./geminiService";
+import { createOpenAICompatibleProvider, getOpenAICompatibleConfig } from "./openAICompatibleProvider";
+import { mockProvider } from "./mockProvider";
+import { settingsStore } from "./settings";
+
+// Providers usable with the current environment and settings, in order of preference. Built on each
+// call, so a model changed in Settings applies to the next analysis.
+export const getAvailableProviders = (): AnalysisProvider[] => {
+  const providers: AnalysisProvider[] = [];
+  if (isGeminiConfigured()) providers.push(createGeminiProvider(settingsStore.getSnapshot().geminiModel));
+  const openAIConfig = getOpenAICompatibleConfig();
+  if (openAIConfig) providers.push(createOpenAICompatibleProvider(openAIConfig));
+  // Always offered so the app is usable without keys or network
+  providers.push(mockProvider);
+  return providers;
+};
+
+// ANALYSIS_PROVIDER selects a provider by id; otherwise the first configured one is used
+export const getDefaultProvider = (): AnalysisProvider => {
+  const providers = getAvailableProviders();
+  return providers.find(p => p.id === process.env.ANALYSIS_PROVIDER) || providers[0];
+};
+
+// The provider a call was analyzed with, when it is still configured; otherwise the default
+export const getProviderFor = (call?: CallRecord): AnalysisProvider =>
+  getAvailableProviders().find(p => p.id === call?.analyzedWith?.providerId) || getDefaultProvider();
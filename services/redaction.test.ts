@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { CallAnalysis, CallSentiment } from "../types";
+import { canViewOriginals, detectPii, redactAnalysis, revealOriginals, withoutOriginals } from "./redaction";
+import { DEFAULT_SETTINGS } from "./settings";
+
+const found = (text: string) => detectPii(text).map(c => [c.type, c.text]);
+
+const analysis = (overrides: Partial<CallAnalysis> = {}): CallAnalysis => ({
+  summary: 'Customer Dana Smith asked to update the card 4111 1111 1111 1111 and email dana@example.com.',
+  transcript: 'Agent: Can I have your email?\nCustomer: It is dana@example.com, or Dana.Smith@Example.com at work.',
+  utterances: [
+    { speaker: 'Agent', role: 'agent', start: 0, end: 2, text: 'Can I have your email?' },
+    { speaker: 'Customer', role: 'customer', start: 2, end: 6, text: 'It is dana@example.com, or Dana.Smith@Example.com at work.' },
+  ],
+  sentiment: CallSentiment.NEUTRAL,
+  actionItems: [{ id: 'item-1', text: 'Send the receipt to dana@example.com', owner: 'Dana Smith', status: 'open' }],
+  keyInsights: ['Call back on 415-555-0132'],
+  ...overrides,
+});
+
+describe('detectPii', () => {
+  it('finds card numbers only when they pass the Luhn check', () => {
+    expect(found('Card 4111 1111 1111 1111 on file')).toEqual([['card', '4111 1111 1111 1111']]);
+    expect(found('Card 4111-1111-1111-1111 on file')).toEqual([['card', '4111-1111-1111-1111']]);
+    // One digit off: not a card, and too long to be a phone number
+    expect(found('Order 4111 1111 1111 1112 shipped')).toEqual([]);
+  });
+
+  it('finds IBANs only when their check digits are right', () => {
+    expect(found('Pay into GB82 WEST 1234 5698 7654 32 please')).toEqual([['bank_account', 'GB82 WEST 1234 5698 7654 32']]);
+    expect(found('Pay into DE89370400440532013000 please')).toEqual([['bank_account', 'DE89370400440532013000']]);
+    // The digit run may still be read as a phone number, but not as an account
+    expect(found('Pay into GB83 WEST 1234 5698 7654 32 please').map(([type]) => type)).not.toContain('bank_account');
+    expect(found('Ticket AB12 CDEF GHIJ was closed')).toEqual([]);
+  });
+
+  it('finds phone numbers in the usual notations', () => {
+    expect(found('Call +1 (415) 555-0132 today')).toEqual([['phone', '+1 (415) 555-0132']]);
+    expect(found('Call 415.555.0132 today')).toEqual([['phone', '415.555.0132']]);
+    expect(found('Ruf an unter +49 30 1234 5678')).toEqual([['phone', '+49 30 1234 5678']]);
+  });
+
+  it('leaves dates, times, versions and short numbers alone', () => {
+    expect(found('On 2026-03-10 at 14:30 we shipped version 2.5.1')).toEqual([]);
+    expect(found('Extension 4521, order 88231, 3 items for 129.99')).toEqual([]);
+  });
+
+  it('finds emails, social security numbers and street addresses', () => {
+    expect(found('Write to dana@example.com')).toEqual([['email', 'dana@example.com']]);
+    expect(found('SSN 123-45-6789')).toEqual([['ssn', '123-45-6789']]);
+    expect(found('Ship to 42 Baker Street, Apt 3B today')).toEqual([['address', '42 Baker Street, Apt 3B']]);
+  });
+});
+
+describe('redactAnalysis', () => {
+  it('gives each distinct value one placeholder in every field', () => {
+    const redacted = redactAnalysis(analysis(), [], { modelAssisted: false, retainOriginals: false });
+
+    expect(redacted.summary).toBe('Customer Dana Smith asked to update the card [CARD_1] and email [EMAIL_1].');
+    expect(redacted.utterances![1].text).toBe('It is [EMAIL_1], or [EMAIL_2] at work.');
+    expect(redacted.transcript).toContain('It is [EMAIL_1], or [EMAIL_2] at work.');
+    expect(redacted.actionItems[0].text).toBe('Send the receipt to [EMAIL_1]');
+    expect(redacted.keyInsights).toEqual(['Call back on [PHONE_1]']);
+    expect(redacted.redaction!.entities.map(e => [e.placeholder, e.type])).toEqual([
+      ['[CARD_1]', 'card'],
+      ['[EMAIL_1]', 'email'],
+      ['[EMAIL_2]', 'email'],
+      ['[PHONE_1]', 'phone'],
+    ]);
+    expect(redacted.redaction!.entities.every(e => e.original === undefined)).toBe(true);
+  });
+
+  it('treats values differing only in case and spacing as the same', () => {
+    const redacted = redactAnalysis(analysis({ keyInsights: ['Also DANA@EXAMPLE.COM'] }), [], { modelAssisted: false, retainOriginals: false });
+    expect(redacted.keyInsights).toEqual(['Also [EMAIL_1]']);
+  });
+
+  it('replaces model-found names as whole words, longest first', () => {
+    const redacted = redactAnalysis(analysis({ keyInsights: ['Dana prefers email; Danaher is the employer'] }), [
+      { type: 'person', text: 'Dana', source: 'model' },
+      { type: 'person', text: 'Dana Smith', source: 'model' },
+    ], { modelAssisted: true, retainOriginals: false });
+
+    expect(redacted.summary).toMatch(/^Customer \[NAME_2\] asked/);
+    expect(redacted.actionItems[0].owner).toBe('[NAME_2]');
+    expect(redacted.keyInsights).toEqual(['[NAME_1] prefers email; Danaher is the employer']);
+  });
+
+  it('keeps originals only when asked, and can put them back', () => {
+    const original = analysis();
+    const redacted = redactAnalysis(original, [], { modelAssisted: false, retainOriginals: true });
+    expect(redacted.redaction!.entities.find(e => e.placeholder === '[CARD_1]')!.original).toBe('4111 1111 1111 1111');
+    expect(revealOriginals(redacted).summary).toBe(original.summary);
+    expect(withoutOriginals(redacted).redaction!.entities.every(e => e.original === undefined)).toBe(true);
+  });
+
+  it('records an empty redaction when nothing is found', () => {
+    const clean = analysis({ summary: 'Nothing personal', transcript: '', utterances: [], actionItems: [], keyInsights: [] });
+    expect(redactAnalysis(clean, [], { modelAssisted: false, retainOriginals: false }).redaction).toEqual({ entities: [], originalsRetained: false });
+  });
+});
+
+describe('canViewOriginals', () => {
+  it('allows only the reviewer role', () => {
+    expect(canViewOriginals(DEFAULT_SETTINGS)).toBe(false);
+    expect(canViewOriginals({ ...DEFAULT_SETTINGS, userRole: 'reviewer' })).toBe(true);
+  });
+});
@@ -0,0 +1,245 @@
+import { CallAnalysis, CustomFieldValue, PiiType, RedactedEntity, RedactionInfo } from "../types";
+import { AppSettings } from "./settings";
+
+// Replaces personal information in an analysis with typed placeholders such as "[EMAIL_1]". Local
+// pattern detectors always run; providers backed by a model can add entities the patterns miss
+// (names, spoken numbers, addresses in free form). The same value gets the same placeholder in every field.
+
+export interface RedactionOptions {
+  modelAssisted: boolean; // Also ask the model to find entities
+  retainOriginals: boolean; // Keep the original values so privileged reviewers can reveal them
+}
+
+// Something that looks like personal information, as found by a detector or the model
+export interface PiiCandidate {
+  type: PiiType;
+  text: string; // Exactly as it appears in the analysis
+  source: RedactedEntity['source'];
+}
+
+export const PII_TYPES: PiiType[] = ['card', 'bank_account', 'ssn', 'phone', 'email', 'address', 'person', 'date_of_birth', 'id_number'];
+
+const PLACEHOLDER_TAGS: Record<PiiType, string> = {
+  card: 'CARD',
+  bank_account: 'ACCOUNT',
+  ssn: 'SSN',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  address: 'ADDRESS',
+  person: 'NAME',
+  date_of_birth: 'DOB',
+  id_number: 'ID',
+};
+
+const PII_TYPE_LABELS: Record<PiiType, [string, string]> = {
+  card: ['card number', 'card numbers'],
+  bank_account: ['bank account', 'bank accounts'],
+  ssn: ['social security number', 'social security numbers'],
+  phone: ['phone number', 'phone numbers'],
+  email: ['email address', 'email addresses'],
+  address: ['address', 'addresses'],
+  person: ['name', 'names'],
+  date_of_birth: ['date of birth', 'dates of birth'],
+  id_number: ['ID number', 'ID numbers'],
+};
+
+// Originals are only kept and shown for the reviewer role. Checked whenever a call is shown, so
+// switching back to analyst hides them again; uploads by analysts never keep them at all.
+export const canViewOriginals = (settings: AppSettings): boolean => settings.userRole === 'reviewer';
+
+// --- Pattern Detectors ---
+
+interface Detector {
+  type: PiiType;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+const digitsOf = (text: string) => text.replace(/\D/g, '');
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616: moving the country code and check digits to the end, with letters as 10-35, leaves 1 mod 97
+const passesIbanCheck = (match: string): boolean => {
+  const compact = match.replace(/ /g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = parseInt(char, 36);
+    remainder = (value > 9 ? remainder * 100 + value : remainder * 10 + value) % 97;
+  }
+  return remainder === 1;
+};
+
+// Earlier detectors win where matches overlap, so card numbers are not also read as phone numbers
+const DETECTORS: Detector[] = [
+  { type: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  {
+    type: 'card',
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    accept: (match) => passesLuhn(digitsOf(match)),
+  },
+  { type: 'ssn', pattern: /(?<!\d)\d{3}-\d{2}-\d{4}(?!\d)/g },
+  {
+    type: 'bank_account',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    accept: passesIbanCheck,
+  },
+  {
+    type: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?!\w)/g,
+    accept: (match) => digitsOf(match).length >= 10 && digitsOf(match).length <= 15,
+  },
+  {
+    type: 'address',
+    pattern: /\b\d{1,6} (?:[A-Z][a-z]+\.? ){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy)\b\.?(?:,? (?:Apt|Suite|Unit|#) ?[\w-]+)?/g,
+  },
+];
+
+export const detectPii = (text: string): PiiCandidate[] => {
+  const spans: { start: number; end: number; candidate: PiiCandidate }[] = [];
+  DETECTORS.forEach(({ type, pattern, accept }) => {
+    for (const m of text.matchAll(pattern)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (accept && !accept(m[0])) continue;
+      if (spans.some(s => start < s.end && end > s.start)) continue;
+      spans.push({ start, end, candidate: { type, text: m[0], source: 'pattern' } });
+    }
+  });
+  return spans.sort((a, b) => a.start - b.start).map(s => s.candidate);
+};
+
+// --- Applying ---
+
+const mapCustomField = (value: CustomFieldValue, fn: (text: string) => string): CustomFieldValue => {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(fn);
+  return value;
+};
+
+// Applies `fn` to every free-text field of an analysis: transcript and translations, summary, action items,
+// insights, topics, custom fields and scorecard justifications and evidence
+export const mapAnalysisText = (analysis: CallAnalysis, fn: (text: string) => string): CallAnalysis => ({
+  ...analysis,
+  summary: fn(analysis.summary),
+  transcript: fn(analysis.transcript),
+  ...(analysis.utterances && {
+    utterances: analysis.utterances.map(u => ({
+      ...u,
+      text: fn(u.text),
+      ...(u.translation !== undefined && { translation: fn(u.translation) }),
+    })),
+  }),
+  actionItems: analysis.actionItems.map(item => ({
+    ...item,
+    text: fn(item.text),
+    ...(item.owner !== undefined && { owner: fn(item.owner) }),
+  })),
+  keyInsights: analysis.keyInsights.map(fn),
+  ...(analysis.topics && {
+    topics: analysis.topics.map(topic => ({
+      ...topic,
+      label: fn(topic.label),
+      evidence: topic.evidence.map(e => ({ ...e, quote: fn(e.quote) })),
+    })),
+  }),
+  ...(analysis.customFields && {
+    customFields: Object.fromEntries(Object.entries(analysis.customFields).map(([key, value]) => [key, mapCustomField(value, fn)])),
+  }),
+  ...(analysis.scorecard && {
+    scorecard: {
+      ...analysis.scorecard,
+      scores: analysis.scorecard.scores.map(score => ({
+        ...score,
+        justification: fn(score.justification),
+        evidence: score.evidence.map(e => ({ ...e, quote: fn(e.quote) })),
+      })),
+    },
+  }),
+});
+
+export const collectAnalysisText = (analysis: CallAnalysis): string[] => {
+  const texts: string[] = [];
+  mapAnalysisText(analysis, (text) => {
+    if (text) texts.push(text);
+    return text;
+  });
+  return texts;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const entityKey = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Matches any of `texts` as whole words, longest first so "Dana Smith" wins over "Dana"
+const wholeWordPattern = (texts: string[]): RegExp => new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${[...texts].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+  'giu'
+);
+
+// Replaces the pattern matches and `extra` candidates throughout the analysis
+export const redactAnalysis = (analysis: CallAnalysis, extra: PiiCandidate[], options: RedactionOptions): CallAnalysis => {
+  const candidates = [...collectAnalysisText(analysis).flatMap(detectPii), ...extra];
+  const byKey = new Map<string, RedactedEntity>();
+  const counts: Partial<Record<PiiType, number>> = {};
+
+  candidates.forEach(candidate => {
+    const key = entityKey(candidate.text);
+    if (!key || byKey.has(key)) return;
+    counts[candidate.type] = (counts[candidate.type] || 0) + 1;
+    byKey.set(key, {
+      placeholder: `[${PLACEHOLDER_TAGS[candidate.type]}_${counts[candidate.type]}]`,
+      type: candidate.type,
+      source: candidate.source,
+      ...(options.retainOriginals && { original: candidate.text.trim() }),
+    });
+  });
+
+  const entities = [...byKey.values()];
+  const redaction: RedactionInfo = { entities, originalsRetained: options.retainOriginals };
+  if (entities.length === 0) return { ...analysis, redaction };
+
+  const pattern = wholeWordPattern(candidates.map(c => c.text.trim()).filter(Boolean));
+  const redacted = mapAnalysisText(analysis, (text) => text.replace(pattern, (match) => byKey.get(entityKey(match))?.placeholder || match));
+  return { ...redacted, redaction };
+};
+
+// The analysis with placeholders swapped back for the retained originals
+export const revealOriginals = (analysis: CallAnalysis): CallAnalysis => {
+  const entities = analysis.redaction?.entities.filter(e => e.original !== undefined) || [];
+  if (entities.length === 0) return analysis;
+  const originals = new Map(entities.map(e => [e.placeholder, e.original!]));
+  const pattern = new RegExp(entities.map(e => escapeRegExp(e.placeholder)).join('|'), 'g');
+  return mapAnalysisText(analysis, (text) => text.replace(pattern, (match) => originals.get(match) || match));
+};
+
+// The analysis with any retained originals dropped, for everything that leaves the call view
+export const withoutOriginals = (analysis: CallAnalysis): CallAnalysis => {
+  if (!analysis.redaction?.entities.some(e => e.original !== undefined)) return analysis;
+  const entities = analysis.redaction.entities.map(({ original, ...entity }) => entity);
+  return { ...analysis, redaction: { ...analysis.redaction, entities } };
+};
+
+// "2 email addresses, 1 card number"
+export const summarizeRedaction = (redaction: RedactionInfo): string => {
+  const counts = new Map<PiiType, number>();
+  redaction.entities.forEach(e => counts.set(e.type, (counts.get(e.type) || 0) + 1));
+  return PII_TYPES
+    .filter(type => counts.has(type))
+    .map(type => {
+      const count = counts.get(type)!;
+      return `${count} ${PII_TYPE_LABELS[type][count === 1 ? 0 : 1]}`;
+    })
+    .join(', ');
+};
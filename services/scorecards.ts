@@ -0,0 +1,125 @@
+import { CallRecord, CriterionScore, Scorecard, ScorecardCriterion } from "../types";
+import { browserStorage, createDefinitionStore, DefinitionStore } from "./definitionStore";
+
+// QA scorecards: weighted rubrics the model grades each call against.
+
+// --- Built-in Scorecards ---
+
+export const BUILT_IN_SCORECARDS: Scorecard[] = [
+  {
+    id: 'standard-qa',
+    name: 'Standard QA',
+    criteria: [
+      { id: 'greeting', name: 'Greeting', description: 'The agent greets the caller, gives their name and the company name.', weight: 10, scale: 'pass_fail' },
+      { id: 'verification', name: 'Verification', description: 'The agent verifies the caller\'s identity or account before discussing account details.', weight: 20, scale: 'pass_fail' },
+      { id: 'empathy', name: 'Empathy', description: 'The agent acknowledges the caller\'s situation and feelings and keeps a courteous tone.', weight: 20, scale: 'scale_5' },
+      { id: 'resolution', name: 'Resolution', description: 'The agent resolves the issue or sets a clear path to resolution with ownership.', weight: 35, scale: 'scale_5' },
+      { id: 'closing', name: 'Closing', description: 'The agent summarizes next steps, asks if anything else is needed and closes politely.', weight: 15, scale: 'pass_fail' },
+    ],
+    builtIn: true,
+  },
+];
+
+// --- Scoring ---
+
+export const SCALE_LABELS: Record<ScorecardCriterion['scale'], string> = {
+  pass_fail: 'Pass / Fail',
+  scale_5: '1–5',
+};
+
+// Maps a raw score onto 0..1 so pass/fail and 1–5 criteria can be weighted together
+export const normalizeScore = (criterion: ScorecardCriterion, score: number): number =>
+  criterion.scale === 'pass_fail' ? (score > 0 ? 1 : 0) : Math.min(1, Math.max(0, (score - 1) / 4));
+
+// Weighted score from 0 to 100 over the criteria that were scored; null when none were
+export const computeOverallScore = (criteria: ScorecardCriterion[], scores: CriterionScore[]): number | null => {
+  let weighted = 0;
+  let totalWeight = 0;
+  criteria.forEach(criterion => {
+    const score = scores.find(s => s.criterionId === criterion.id)?.score;
+    if (score === null || score === undefined || criterion.weight <= 0) return;
+    weighted += normalizeScore(criterion, score) * criterion.weight;
+    totalWeight += criterion.weight;
+  });
+  return totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : null;
+};
+
+export const formatScore = (criterion: ScorecardCriterion, score: number | null): string => {
+  if (score === null) return 'N/A';
+  if (criterion.scale === 'pass_fail') return score > 0 ? 'Pass' : 'Fail';
+  return `${score}/5`;
+};
+
+// --- Library Roll-up ---
+
+export interface CriterionAverage {
+  criterion: ScorecardCriterion;
+  average: number | null; // 0 to 100, over the calls where the criterion applied
+  scoredCalls: number;
+}
+
+export interface ScorecardRollup {
+  scorecardId: string;
+  name: string;
+  calls: number;
+  overall: number | null;
+  criteria: CriterionAverage[];
+}
+
+// Averages results per scorecard and criterion. Criteria are taken from the most recent result, so
+// criteria removed from a scorecard stop appearing.
+export const rollUpScorecards = (calls: CallRecord[]): ScorecardRollup[] => {
+  const groups = new Map<string, CallRecord[]>();
+  [...calls]
+    .filter(c => c.status === 'completed' && c.analysis?.scorecard)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach(call => {
+      const id = call.analysis!.scorecard!.scorecardId;
+      groups.set(id, [...(groups.get(id) || []), call]);
+    });
+
+  return Array.from(groups.entries()).map(([scorecardId, group]) => {
+    const results = group.map(c => c.analysis!.scorecard!);
+    const latest = results[0];
+    const overalls = results.map(r => r.overall).filter((o): o is number => o !== null);
+
+    const criteria = latest.criteria.map(criterion => {
+      const normalized = results.flatMap(result => {
+        const score = result.scores.find(s => s.criterionId === criterion.id)?.score;
+        return score === null || score === undefined ? [] : [normalizeScore(criterion, score)];
+      });
+      return {
+        criterion,
+        average: normalized.length > 0 ? Math.round((normalized.reduce((a, b) => a + b, 0) / normalized.length) * 100) : null,
+        scoredCalls: normalized.length,
+      };
+    });
+
+    return {
+      scorecardId,
+      name: latest.name,
+      calls: results.length,
+      overall: overalls.length > 0 ? Math.round(overalls.reduce((a, b) => a + b, 0) / overalls.length) : null,
+      criteria,
+    };
+  });
+};
+
+// --- Definitions ---
+
+// Returns problems that would stop the scorecard from being graded
+export const validateScorecard = (scorecard: Scorecard): string[] => {
+  const problems: string[] = [];
+  if (!scorecard.name.trim()) problems.push('The scorecard needs a name.');
+  if (scorecard.criteria.length === 0) problems.push('Add at least one criterion.');
+  scorecard.criteria.forEach((criterion, idx) => {
+    const name = criterion.name.trim() || `Criterion ${idx + 1}`;
+    if (!criterion.name.trim()) problems.push(`Criterion ${idx + 1} needs a name.`);
+    if (!criterion.description.trim()) problems.push(`${name} needs a description of what good looks like.`);
+    if (!Number.isFinite(criterion.weight) || criterion.weight <= 0) problems.push(`${name} needs a weight above zero.`);
+  });
+  return problems;
+};
+
+export const scorecardStore: DefinitionStore<Scorecard> =
+  createDefinitionStore('callbrain.scorecards', BUILT_IN_SCORECARDS, browserStorage);
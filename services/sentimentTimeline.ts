@@ -0,0 +1,105 @@
+import { Utterance } from "../types";
+
+// Sentiment over the course of a call, built from the per-utterance scores (-1..1) the model returns.
+
+export interface SentimentPoint {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  score: number | null; // Null where nobody spoke, so the chart shows a gap instead of a false zero
+}
+
+export interface TurningPoint {
+  time: number; // Start of the window where the shift happened
+  from: number; // Average score just before
+  to: number; // Average score just after
+  direction: 'up' | 'down';
+  utterance?: Utterance; // The turn in that window furthest from the earlier mood
+}
+
+// Window lengths to choose from, in seconds; the smallest giving at most MAX_POINTS is used
+const WINDOW_SIZES = [5, 10, 15, 30, 60, 120, 300];
+const MAX_POINTS = 40;
+
+// How far the average has to move across a window boundary to count as a turning point
+const TURNING_THRESHOLD = 0.5;
+// Points averaged on each side of a boundary, to ignore a single odd utterance
+const TURNING_SPAN = 2;
+
+const scored = (utterances: Utterance[]) => utterances.filter(u => u.sentiment !== undefined);
+
+// Mean score weighted by how long each turn lasted; null when no utterance is scored
+export const overallSentimentScore = (utterances: Utterance[]): number | null => {
+  const withScores = scored(utterances);
+  if (withScores.length === 0) return null;
+  let total = 0;
+  let weight = 0;
+  withScores.forEach(u => {
+    // Zero-length turns (missing end times) still count a little
+    const w = Math.max(u.end - u.start, 0.5);
+    total += u.sentiment! * w;
+    weight += w;
+  });
+  return total / weight;
+};
+
+export const timelineWindow = (duration: number): number =>
+  WINDOW_SIZES.find(size => duration / size <= MAX_POINTS) || WINDOW_SIZES[WINDOW_SIZES.length - 1];
+
+// Splits the call into fixed windows and averages the scores of the utterances overlapping each one
+export const buildSentimentTimeline = (utterances: Utterance[]): SentimentPoint[] => {
+  const withScores = scored(utterances);
+  if (withScores.length === 0) return [];
+  const duration = Math.max(...withScores.map(u => Math.max(u.end, u.start)));
+  const size = timelineWindow(duration);
+
+  const points: SentimentPoint[] = [];
+  for (let start = 0; start < duration || points.length === 0; start += size) {
+    const end = start + size;
+    let total = 0;
+    let weight = 0;
+    withScores.forEach(u => {
+      const overlap = Math.min(u.end, end) - Math.max(u.start, start);
+      // A zero-length utterance counts in the window it starts in
+      const w = overlap > 0 ? overlap : u.end === u.start && u.start >= start && u.start < end ? 0.5 : 0;
+      total += u.sentiment! * w;
+      weight += w;
+    });
+    points.push({ start, end: Math.min(end, duration), score: weight > 0 ? total / weight : null });
+  }
+  return points;
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+
+// Boundaries where the average of the points after differs sharply from the points before. Only the
+// strongest boundary of a run of neighbouring ones is kept.
+export const findTurningPoints = (points: SentimentPoint[], utterances: Utterance[]): TurningPoint[] => {
+  const present = points.filter(p => p.score !== null) as (SentimentPoint & { score: number })[];
+  const shifts = present.map((point, i) => {
+    const before = mean(present.slice(Math.max(0, i - TURNING_SPAN), i).map(p => p.score));
+    const after = mean(present.slice(i, i + TURNING_SPAN).map(p => p.score));
+    return before === null || after === null ? null : { point, from: before, to: after, delta: after - before };
+  });
+
+  const turning: TurningPoint[] = [];
+  shifts.forEach((shift, i) => {
+    if (!shift || Math.abs(shift.delta) < TURNING_THRESHOLD) return;
+    const stronger = (other: typeof shift | undefined) =>
+      !!other && Math.sign(other.delta) === Math.sign(shift.delta) && Math.abs(other.delta) > Math.abs(shift.delta);
+    if (stronger(shifts[i - 1]) || stronger(shifts[i + 1])) return;
+    // Equal neighbours would both qualify; keep the earlier one
+    const previous = turning[turning.length - 1];
+    if (previous && previous.time === present[i - 1]?.start && Math.sign(previous.to - previous.from) === Math.sign(shift.delta)) return;
+    turning.push({
+      time: shift.point.start,
+      from: shift.from,
+      to: shift.to,
+      direction: shift.delta > 0 ? 'up' : 'down',
+      utterance: scored(utterances)
+        .filter(u => u.end > shift.point.start && u.start < shift.point.end)
+        .sort((a, b) => Math.abs(b.sentiment! - shift.from) - Math.abs(a.sentiment! - shift.from))[0],
+    });
+  });
+  return turning;
+};
@@ -0,0 +1,151 @@
+import { browserStorage } from "./definitionStore";
+import { AUTO_LANGUAGE, OUTPUT_LANGUAGES } from "./languages";
+
+// App-wide configuration edited on the Settings page and persisted in localStorage. Services read
+// the current snapshot whenever they start work, so changes apply to the next analysis.
+
+// Reviewers may reveal the original values kept with redacted calls; analysts only see placeholders
+export type UserRole = 'analyst' | 'reviewer';
+
+export interface AppSettings {
+  geminiModel: string;
+  maxAttempts: number; // Requests per model call, including the first
+  retryBaseDelayMs: number; // Wait before the first retry; doubles with every further attempt
+  maxInlineMB: number; // Larger audio is converted and, if still too large, analyzed in segments
+  maxUploadMB: number; // Files above this are rejected in the uploader
+  targetSampleRate: number; // Hz; converted audio is resampled to this rate, mono
+  defaultOutputLanguage: string; // Preselected summary language in the uploader
+  userRole: UserRole; // Of whoever uses this browser
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  geminiModel: 'gemini-2.5-flash',
+  maxAttempts: 3,
+  retryBaseDelayMs: 2000,
+  maxInlineMB: 10,
+  maxUploadMB: 100,
+  targetSampleRate: 16000,
+  defaultOutputLanguage: 'en',
+  userRole: 'analyst',
+};
+
+export const GEMINI_MODELS: { id: string; name: string; description: string }[] = [
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Multimodal Audio Processing' },
+  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Slower, more thorough analysis' },
+  { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash-Lite', description: 'Fastest and cheapest' },
+];
+
+export const USER_ROLES: { id: UserRole; name: string; description: string }[] = [
+  { id: 'analyst', name: 'Analyst', description: 'Sees redacted calls with placeholders only' },
+  { id: 'reviewer', name: 'Reviewer', description: 'Can keep and reveal the original values of redacted calls' },
+];
+
+// Speech stays intelligible at all of these; lower rates mean smaller uploads and longer segments
+export const SAMPLE_RATES = [8000, 16000, 22050, 24000];
+
+// Inclusive bounds for the numeric settings
+export const SETTING_LIMITS: Record<'maxAttempts' | 'retryBaseDelayMs' | 'maxInlineMB' | 'maxUploadMB', [number, number]> = {
+  maxAttempts: [1, 10],
+  retryBaseDelayMs: [250, 60000],
+  // Gemini rejects inline requests above 20MB, and base64 makes the audio a third larger: 14MB
+  // becomes about 18.7MB, leaving room for the prompt
+  maxInlineMB: [1, 14],
+  maxUploadMB: [1, 2048],
+};
+
+const SETTING_LABELS: Record<keyof typeof SETTING_LIMITS, string> = {
+  maxAttempts: 'Attempts per request',
+  retryBaseDelayMs: 'First retry delay',
+  maxInlineMB: 'Inline upload limit',
+  maxUploadMB: 'Maximum file size',
+};
+
+export const geminiModelName = (id: string): string => GEMINI_MODELS.find(m => m.id === id)?.name || id;
+
+// Returns problems that would make the settings unusable
+export const validateSettings = (settings: AppSettings): string[] => {
+  const problems: string[] = [];
+  if (!settings.geminiModel.trim()) problems.push('Choose a Gemini model.');
+  (Object.keys(SETTING_LIMITS) as (keyof typeof SETTING_LIMITS)[]).forEach(key => {
+    const [min, max] = SETTING_LIMITS[key];
+    const value = settings[key];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      problems.push(`${SETTING_LABELS[key]} must be between ${min} and ${max}.`);
+    }
+  });
+  if (!SAMPLE_RATES.includes(settings.targetSampleRate)) {
+    problems.push(`Sample rate must be one of ${SAMPLE_RATES.join(', ')} Hz.`);
+  }
+  if (settings.defaultOutputLanguage !== AUTO_LANGUAGE && !OUTPUT_LANGUAGES.includes(settings.defaultOutputLanguage)) {
+    problems.push('Choose a supported summary language.');
+  }
+  if (!USER_ROLES.some(r => r.id === settings.userRole)) problems.push('Choose a role.');
+  if (settings.maxInlineMB > settings.maxUploadMB) {
+    problems.push('The inline limit cannot be larger than the upload limit.');
+  }
+  return problems;
+};
+
+// --- Settings Store ---
+
+export interface SettingsStore {
+  getSnapshot(): AppSettings;
+  subscribe(listener: () => void): () => void;
+  save(settings: AppSettings): void; // Throws when validateSettings finds problems
+  reset(): void;
+}
+
+export const createSettingsStore = (storageKey: string, storage?: Storage): SettingsStore => {
+  // Saved values are laid over the defaults one by one, so a setting added later or a value that
+  // no longer validates falls back to its default instead of discarding everything
+  const load = (): AppSettings => {
+    let stored: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(storage?.getItem(storageKey) || '{}');
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) stored = parsed;
+    } catch (e) {
+      console.warn(`Ignoring unreadable saved data in ${storageKey}`, e);
+    }
+    let settings = { ...DEFAULT_SETTINGS };
+    (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(key => {
+      if (typeof stored[key] !== typeof DEFAULT_SETTINGS[key]) return;
+      const candidate = { ...settings, [key]: stored[key] };
+      if (validateSettings(candidate).length === 0) settings = candidate;
+    });
+    return settings;
+  };
+
+  let snapshot = load();
+  const listeners = new Set<() => void>();
+
+  const commit = (next: AppSettings) => {
+    snapshot = next;
+    try {
+      storage?.setItem(storageKey, JSON.stringify(next));
+    } catch (e) {
+      console.error(`Failed to save ${storageKey}`, e);
+    }
+    listeners.forEach(l => l());
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    save(settings) {
+      const problems = validateSettings(settings);
+      if (problems.length > 0) throw new Error(problems.join(' '));
+      commit({ ...settings });
+    },
+
+    reset() {
+      commit({ ...DEFAULT_SETTINGS });
+    },
+  };
+};
+
+export const settingsStore: SettingsStore = createSettingsStore('callbrain.settings', browserStorage);
@@ -0,0 +1,152 @@
+import { CallRecord, CallTopic, TopicKind } from "../types";
+import { tokenize } from "./callSearch";
+import { callDay, callsInRange, DateRange, formatPeriod, Granularity, listPeriods, periodStart } from "./analytics";
+
+// Groups the topics extracted from each call into themes that recur across calls. Labels are
+// compared by their words, so "billing bug" and "billing bug after upgrade" end up together while
+// "billing address" does not.
+
+export const TOPIC_KIND_LABELS: Record<TopicKind, string> = {
+  issue: 'Issue',
+  request: 'Request',
+  question: 'Question',
+  praise: 'Praise',
+  other: 'Other',
+};
+
+// Labels are stored lower-case; "password reset" -> "Password reset"
+export const formatTopicLabel = (label: string): string => label.charAt(0).toUpperCase() + label.slice(1);
+
+export interface TopicMention {
+  call: CallRecord;
+  topic: CallTopic;
+}
+
+export interface TopicPeriod {
+  period: string; // First day of the period, YYYY-MM-DD
+  label: string;
+  calls: number;
+}
+
+export interface TopicCluster {
+  key: string;
+  label: string; // The label used most often
+  kind: TopicKind; // The kind given most often
+  labels: string[]; // Every label grouped here, most used first
+  mentions: TopicMention[]; // Newest call first
+  callCount: number;
+  share: number; // Fraction of the calls with topics in the range, 0..1
+  series: TopicPeriod[];
+  change: number; // Calls in the latest period minus calls in the one before
+}
+
+export interface TopicOverview {
+  clusters: TopicCluster[]; // Most calls first
+  callsWithTopics: number;
+  callsWithoutTopics: number; // Analyzed before topic extraction existed
+}
+
+// Words that make labels look different without changing the theme
+const FILLER_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'with',
+  'issue', 'issues', 'problem', 'problems', 'question', 'questions', 'request', 'requests',
+]);
+
+// Labels whose word sets overlap at least this much (Jaccard) are the same theme
+const SIMILARITY_THRESHOLD = 0.5;
+
+// Crude singular form so "charges" and "charge" match
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+const labelWords = (label: string): Set<string> => {
+  const words = tokenize(label);
+  const meaningful = words.filter(w => !FILLER_WORDS.has(w));
+  // A label made only of filler words, such as "issue", keeps them
+  return new Set((meaningful.length > 0 ? meaningful : words).map(stem));
+};
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach(w => {
+    if (b.has(w)) shared++;
+  });
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+};
+
+const mostCommon = <T>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+export const buildTopicOverview = (calls: CallRecord[], range: DateRange, granularity: Granularity): TopicOverview => {
+  const analyzed = callsInRange(calls, range).filter(c => c.status === 'completed' && c.analysis);
+  const withTopics = analyzed.filter(c => c.analysis!.topics);
+
+  const byLabel = new Map<string, TopicMention[]>();
+  withTopics.forEach(call => call.analysis!.topics!.forEach(topic => {
+    if (!byLabel.has(topic.label)) byLabel.set(topic.label, []);
+    byLabel.get(topic.label)!.push({ call, topic });
+  }));
+
+  // Leader clustering: the most used labels start groups, and every other label joins the group
+  // whose leading label it resembles most
+  const groups: { words: Set<string>; labels: string[] }[] = [];
+  [...byLabel.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .forEach(([label]) => {
+      const words = labelWords(label);
+      let best: typeof groups[number] | undefined;
+      let bestScore = 0;
+      groups.forEach(group => {
+        const score = similarity(words, group.words);
+        if (score >= SIMILARITY_THRESHOLD && score > bestScore) {
+          best = group;
+          bestScore = score;
+        }
+      });
+      if (best) best.labels.push(label);
+      else groups.push({ words, labels: [label] });
+    });
+
+  const periods = listPeriods(range, granularity);
+  const clusters = groups.map((group): TopicCluster => {
+    const mentions = group.labels
+      .flatMap(label => byLabel.get(label)!)
+      .sort((a, b) => b.call.timestamp - a.call.timestamp);
+    const callsByPeriod = new Map<string, Set<string>>();
+    mentions.forEach(({ call }) => {
+      const period = periodStart(callDay(call), granularity);
+      if (!callsByPeriod.has(period)) callsByPeriod.set(period, new Set());
+      callsByPeriod.get(period)!.add(call.id);
+    });
+    const series = periods.map(period => ({
+      period,
+      label: formatPeriod(period, granularity),
+      calls: callsByPeriod.get(period)?.size || 0,
+    }));
+    const callCount = new Set(mentions.map(m => m.call.id)).size;
+    return {
+      key: group.labels[0],
+      label: group.labels[0],
+      kind: mostCommon(mentions.map(m => m.topic.kind)),
+      labels: group.labels,
+      mentions,
+      callCount,
+      share: callCount / withTopics.length,
+      series,
+      change: (series[series.length - 1]?.calls || 0) - (series[series.length - 2]?.calls || 0),
+    };
+  });
+
+  return {
+    clusters: clusters.sort((a, b) => b.callCount - a.callCount || a.label.localeCompare(b.label)),
+    callsWithTopics: withTopics.length,
+    callsWithoutTopics: analyzed.length - withTopics.length,
+  };
+};
@@ -0,0 +1,95 @@
+import { SpeakerRole, Utterance } from "../types";
+
+// Helpers for the structured (speaker-diarized, timestamped) transcript model.
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${h > 0 ? m.toString().padStart(2, '0') : m}:${s.toString().padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+// Accepts seconds as a number or numeric string, or clock strings like "1:05" / "01:02:03"
+const parseSeconds = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  if (/^\d+(:\d{1,2}){1,2}(\.\d+)?$/.test(trimmed)) {
+    return trimmed.split(':').reduce((acc, part) => acc * 60 + parseFloat(part), 0);
+  }
+  return null;
+};
+
+// Scores outside -1..1 are clamped; anything non-numeric is treated as unscored
+const parseScore = (value: unknown): number | undefined => {
+  const score = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof score === 'number' && Number.isFinite(score) ? Math.max(-1, Math.min(1, score)) : undefined;
+};
+
+const parseRole = (value: unknown): SpeakerRole => {
+  const role = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (['agent', 'rep', 'representative', 'salesperson', 'support'].includes(role)) return 'agent';
+  if (['customer', 'client', 'caller', 'prospect'].includes(role)) return 'customer';
+  return 'unknown';
+};
+
+// Validates utterances returned by the model. Entries without text are dropped; missing or
+// malformed times are filled from the neighbouring utterances so the list stays in order.
+export const parseUtterances = (raw: unknown): Utterance[] => {
+  if (!Array.isArray(raw)) return [];
+
+  const utterances: Utterance[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const text = typeof entry.text === 'string' ? entry.text.trim() : '';
+    if (!text) continue;
+
+    const previousEnd = utterances.length > 0 ? utterances[utterances.length - 1].end : 0;
+    const start = parseSeconds(entry.start) ?? previousEnd;
+    const end = parseSeconds(entry.end);
+    const role = parseRole(entry.role);
+    const speaker = typeof entry.speaker === 'string' && entry.speaker.trim()
+      ? entry.speaker.trim()
+      : role === 'unknown' ? 'Speaker' : role === 'agent' ? 'Agent' : 'Customer';
+
+    const translation = typeof entry.translation === 'string' ? entry.translation.trim() : '';
+    const sentiment = parseScore(entry.sentiment);
+    utterances.push({
+      speaker,
+      role,
+      start,
+      end: end !== null && end >= start ? end : start,
+      text,
+      // A "translation" identical to the text means the turn was already in English
+      ...(translation && translation !== text && { translation }),
+      ...(sentiment !== undefined && { sentiment }),
+    });
+  }
+  return utterances.sort((a, b) => a.start - b.start);
+};
+
+// Plain-text rendering used as the `transcript` field, so older consumers keep working
+export const utterancesToText = (utterances: Utterance[]): string => {
+  return utterances
+    .map(u => `[${formatTimestamp(u.start)}] ${u.speaker}: ${u.text}`)
+    .join('\n');
+};
+
+export const hasTranslations = (utterances: Utterance[] | undefined): boolean =>
+  !!utterances?.some(u => u.translation);
+
+export const offsetUtterances = (utterances: Utterance[], offsetSeconds: number): Utterance[] => {
+  return utterances.map(u => ({ ...u, start: u.start + offsetSeconds, end: u.end + offsetSeconds }));
+};
+
+// Distinct speaker labels in order of first appearance
+export const listSpeakers = (utterances: Utterance[]): { speaker: string; role: SpeakerRole }[] => {
+  const seen = new Map<string, SpeakerRole>();
+  utterances.forEach(u => {
+    if (!seen.has(u.speaker)) seen.set(u.speaker, u.role);
+  });
+  return [...seen.entries()].map(([speaker, role]) => ({ speaker, role }));
+};
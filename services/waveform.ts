@@ -0,0 +1,35 @@
+// Computes a coarse amplitude envelope for drawing a waveform.
+
+// Returns `bars` values between 0 and 1, each the peak absolute amplitude of its slice of the recording
+export const computeWaveformPeaks = async (audio: Blob, bars: number): Promise<number[]> => {
+  const arrayBuffer = await audio.arrayBuffer();
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let buffer: AudioBuffer;
+  try {
+    buffer = await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const samplesPerBar = Math.max(1, Math.floor(buffer.length / bars));
+  // Sampling every sample of an hour-long call is slow and unnecessary for a few hundred bars
+  const stride = Math.max(1, Math.floor(samplesPerBar / 500));
+
+  const peaks: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = bar * samplesPerBar;
+    const end = Math.min(buffer.length, start + samplesPerBar);
+    let peak = 0;
+    for (let i = start; i < end; i += stride) {
+      for (const data of channels) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(peak);
+  }
+
+  const max = Math.max(...peaks, 0.01);
+  return peaks.map(p => p / max);
+};
@@ -4,12 +4,129 @@ export enum CallSentiment {
   NEGATIVE = 'Negative',
 }
 
+export type SpeakerRole = 'agent' | 'customer' | 'unknown';
+
+// One turn of the conversation. Times are seconds from the start of the recording.
+export interface Utterance {
+  speaker: string; // Label assigned by the model, e.g. "Agent" or "Speaker 2"
+  role: SpeakerRole;
+  start: number;
+  end: number;
+  text: string; // Verbatim, in the language spoken
+  translation?: string; // English translation, when the turn was not spoken in English
+  sentiment?: number; // Tone of this turn from -1 (negative) to 1 (positive)
+}
+
+export type ActionItemStatus = 'open' | 'done';
+
+export interface ActionItem {
+  id: string; // Unique within its call
+  text: string;
+  owner?: string; // Who is responsible, as named in the call
+  dueDate?: string; // YYYY-MM-DD, when the call states a deadline
+  status: ActionItemStatus;
+  sourceCallId?: string; // The CallRecord the item was extracted from
+  completedAt?: number;
+}
+
+export type CustomFieldType = 'text' | 'list' | 'number' | 'enum' | 'boolean';
+
+// An extra output requested by an analysis template
+export interface CustomFieldDefinition {
+  key: string; // Property name in the model's JSON and in CallAnalysis.customFields
+  label: string;
+  type: CustomFieldType;
+  description: string; // Tells the model what to extract
+  options?: string[]; // Allowed values for 'enum'
+}
+
+// null when the call did not provide an answer
+export type CustomFieldValue = string | string[] | number | boolean | null;
+
+// Named prompt instructions plus the custom fields they produce
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  instructions: string;
+  fields: CustomFieldDefinition[];
+  builtIn?: boolean;
+}
+
+export type ScoreScale = 'pass_fail' | 'scale_5';
+
+// One rubric line, e.g. "Verification"
+export interface ScorecardCriterion {
+  id: string;
+  name: string;
+  description: string; // What a good call does, shown to the model
+  weight: number; // Relative weight in the overall score
+  scale: ScoreScale;
+}
+
+export interface Scorecard {
+  id: string;
+  name: string;
+  criteria: ScorecardCriterion[];
+  builtIn?: boolean;
+}
+
+export interface TranscriptEvidence {
+  quote: string;
+  start?: number; // Seconds from the start of the call, when the quote could be located
+}
+
+export type TopicKind = 'issue' | 'request' | 'question' | 'praise' | 'other';
+
+// A theme of the call, labelled so the same theme can be recognised in other calls
+export interface CallTopic {
+  label: string; // Short lower-case noun phrase in English, e.g. "duplicate billing charge"
+  kind: TopicKind;
+  evidence: TranscriptEvidence[];
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  score: number | null; // 1/0 for pass/fail, 1-5 for scale_5; null when the criterion did not apply
+  justification: string;
+  evidence: TranscriptEvidence[];
+}
+
+export interface ScorecardResult {
+  scorecardId: string;
+  name: string;
+  criteria: ScorecardCriterion[]; // Copied so later edits to the scorecard do not change old results
+  scores: CriterionScore[];
+  overall: number | null; // Weighted score from 0 to 100 over the criteria that applied
+}
+
+export type PiiType = 'card' | 'bank_account' | 'ssn' | 'phone' | 'email' | 'address' | 'person' | 'date_of_birth' | 'id_number';
+
+// One distinct piece of personal information replaced throughout the analysis
+export interface RedactedEntity {
+  placeholder: string; // As it appears in the redacted text, e.g. "[EMAIL_1]"
+  type: PiiType;
+  source: 'pattern' | 'model';
+  original?: string; // Only kept when originals are retained for privileged reviewers
+}
+
+export interface RedactionInfo {
+  entities: RedactedEntity[];
+  originalsRetained: boolean;
+}
+
 export interface CallAnalysis {
   summary: string;
-  transcript: string;
+  transcript: string; // Plain text; the only transcript available on records analyzed before utterances existed
+  utterances?: Utterance[];
+  languages?: string[]; // ISO 639-1 codes of the languages spoken, main language first
+  outputLanguage?: string; // Language of the summary, action items and insights
   sentiment: CallSentiment;
-  actionItems: string[];
+  actionItems: ActionItem[];
   keyInsights: string[];
+  topics?: CallTopic[]; // Missing on records analyzed before topic extraction
+  customFields?: Record<string, CustomFieldValue>; // Keyed by CustomFieldDefinition.key
+  scorecard?: ScorecardResult;
+  redaction?: RedactionInfo; // Present when PII was redacted; every text field above holds placeholders
 }
 
 export interface CallRecord {
@@ -19,7 +136,39 @@ export interface CallRecord {
   duration?: string; // Formatted duration string
   status: 'processing' | 'completed' | 'failed';
   analysis?: CallAnalysis;
+  analyzedWith?: { providerId: string; name: string; model: string; description: string };
+  template?: { id: string; name: string; fields: CustomFieldDefinition[] }; // Copied at upload so later template edits do not change old reports
+  hasAudio?: boolean; // The original recording is stored with the record and can be played back
+  speakerNames?: Record<string, string>; // User-chosen display names keyed by utterance speaker label
   error?: string;
 }
 
-export type ViewState = 'dashboard' | 'upload' | 'details';
+export type AnalysisStage = 'decoding' | 'converting' | 'uploading' | 'waiting' | 'retrying' | 'parsing' | 'merging' | 'scoring' | 'redacting';
+
+// Emitted as an analysis moves through its stages
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  message: string;
+  attempt?: number; // For 'retrying': the attempt about to be made
+  maxAttempts?: number;
+  segment?: { index: number; total: number }; // Set while a long recording is analyzed in segments
+}
+
+// A passage of a saved call that an answer relies on
+export interface AnswerCitation extends TranscriptEvidence {
+  callId: string;
+}
+
+export interface CallAnswer {
+  answer: string;
+  citations: AnswerCitation[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  citations?: AnswerCitation[];
+  failed?: boolean; // The question could not be answered; `text` holds the error
+}
+
+export type ViewState = 'dashboard' | 'upload' | 'details' | 'tasks' | 'topics' | 'ask' | 'settings';